@@ -0,0 +1,65 @@
+import Image from 'next/image';
+import Link from 'next/link';
+
+import { buildBlogPostingJsonLd, readStructuredDataSiteUrl } from '@/lib/server/structured-data';
+import type { PublicPost } from '@/lib/server/tidb/catalog';
+
+import JsonLdScript from '../../json-ld';
+import { formatPublishedAt } from '../../site-format';
+
+export default function BlogPostArticle({ post }: { post: PublicPost }) {
+  const title = post.title_h1 ?? post.title ?? post.slug;
+  const publishedAt = formatPublishedAt(post.published_at);
+
+  return (
+    <article className="product-page">
+      <JsonLdScript data={buildBlogPostingJsonLd(post, readStructuredDataSiteUrl())} />
+      {post.category_slug && (
+        <nav className="site-breadcrumbs">
+          <Link href={`/bc/${post.category_slug}`} prefetch={false}>
+            {post.category_slug}
+          </Link>
+          <span>/</span>
+          <span>{title}</span>
+        </nav>
+      )}
+
+      <header className="catalog-header">
+        <h1 className="product-title">{title}</h1>
+        {publishedAt && <p className="catalog-card-meta">{publishedAt}</p>}
+        {post.short_summary && <p className="product-lead">{post.short_summary}</p>}
+      </header>
+
+      {post.hero_image_url && (
+        <Image
+          className="product-hero-image"
+          src={post.hero_image_url}
+          alt={title}
+          width={1200}
+          height={630}
+          priority
+          unoptimized
+        />
+      )}
+
+      {post.content_html && (
+        <section className="rich-text" dangerouslySetInnerHTML={{ __html: post.content_html }} />
+      )}
+
+      {(post.primary_cta_url || post.secondary_cta_url) && (
+        <div className="product-actions">
+          {post.primary_cta_url && (
+            <a className="site-button" href={post.primary_cta_url} rel="nofollow noopener">
+              {post.primary_cta_label ?? 'Ver más'}
+            </a>
+          )}
+          {post.secondary_cta_url && (
+            <a className="site-button site-button-secondary" href={post.secondary_cta_url} rel="nofollow noopener">
+              {post.secondary_cta_label ?? 'Más información'}
+            </a>
+          )}
+        </div>
+      )}
+    </article>
+  );
+}
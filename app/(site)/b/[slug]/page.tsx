@@ -0,0 +1,54 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+
+import { fetchPublicPost } from '@/lib/server/tidb/catalog';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+
+import BlogPostArticle from './blog-post-article';
+
+interface BlogPostPageProps {
+  params: { slug: string };
+}
+
+export const revalidate = 3600;
+
+export async function generateStaticParams() {
+  return [];
+}
+
+async function loadPost(slug: string) {
+  if (!loadTiDbCredentials()) {
+    return null;
+  }
+  return fetchPublicPost(slug);
+}
+
+export async function generateMetadata({ params }: BlogPostPageProps): Promise<Metadata> {
+  const post = await loadPost(params.slug);
+  if (!post) {
+    return {};
+  }
+  const title = post.seo_title ?? post.title ?? post.slug;
+  const description = post.seo_description ?? post.short_summary ?? undefined;
+  return {
+    title,
+    description,
+    alternates: { canonical: `/b/${post.slug}` },
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      publishedTime: post.published_at ?? undefined,
+      images: post.hero_image_url ? [post.hero_image_url] : undefined,
+    },
+  };
+}
+
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const post = await loadPost(params.slug);
+  if (!post) {
+    notFound();
+  }
+
+  return <BlogPostArticle post={post} />;
+}
@@ -0,0 +1,48 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+
+import { getAdminAuthConfig, verifyBlogPreviewToken } from '@/lib/server/admin/auth';
+import { fetchPublicPost } from '@/lib/server/tidb/catalog';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+
+import BlogPostArticle from '../blog-post-article';
+
+interface BlogPostPreviewPageProps {
+  params: { slug: string };
+  searchParams: { token?: string | string[] };
+}
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Vista previa',
+  robots: { index: false, follow: false },
+};
+
+export default async function BlogPostPreviewPage({ params, searchParams }: BlogPostPreviewPageProps) {
+  const adminConfig = getAdminAuthConfig();
+  const token = typeof searchParams.token === 'string' ? searchParams.token : null;
+  if (!adminConfig || !token || !loadTiDbCredentials()) {
+    notFound();
+  }
+
+  const valid = await verifyBlogPreviewToken(token, params.slug, adminConfig);
+  if (!valid) {
+    console.warn('blog_preview_invalid_token', { slug: params.slug });
+    notFound();
+  }
+
+  const post = await fetchPublicPost(params.slug, { includeDrafts: true });
+  if (!post) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div className="preview-banner">
+        Vista previa{post.is_published ? '' : ' de borrador'}: este enlace caduca y no se indexa.
+      </div>
+      <BlogPostArticle post={post} />
+    </>
+  );
+}
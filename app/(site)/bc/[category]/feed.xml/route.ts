@@ -0,0 +1,11 @@
+import { buildBlogFeedResponse } from '@/lib/server/feeds';
+
+export const revalidate = 3600;
+
+export async function generateStaticParams() {
+  return [];
+}
+
+export async function GET(_request: Request, context: { params: { category: string } }) {
+  return buildBlogFeedResponse('rss', context.params.category);
+}
@@ -0,0 +1,105 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+import { buildCategoryBreadcrumbJsonLd, readStructuredDataSiteUrl } from '@/lib/server/structured-data';
+import { POST_SORTS, listPublicPosts, type PostSort } from '@/lib/server/tidb/catalog';
+import { fetchCategoryBySlug } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+
+import { Pagination, SortLinks, readPageParam, readSortParam, type CatalogSearchParams } from '../../catalog-controls';
+import JsonLdScript from '../../json-ld';
+import { formatPublishedAt } from '../../site-format';
+
+interface BlogCategoryPageProps {
+  params: { category: string };
+  searchParams: CatalogSearchParams;
+}
+
+const SORT_LABELS: Record<PostSort, string> = {
+  recent: 'Más recientes',
+  oldest: 'Más antiguos',
+  title: 'Título',
+};
+
+async function loadCategory(slug: string) {
+  if (!loadTiDbCredentials()) {
+    return null;
+  }
+  return fetchCategoryBySlug(slug);
+}
+
+export async function generateMetadata({ params, searchParams }: BlogCategoryPageProps): Promise<Metadata> {
+  const category = await loadCategory(params.category);
+  if (!category) {
+    return {};
+  }
+  const page = readPageParam(searchParams.page) ?? 1;
+  return {
+    title: page > 1 ? `Blog: ${category.name} — Página ${page}` : `Blog: ${category.name}`,
+    description: category.description ?? undefined,
+    alternates: { canonical: page > 1 ? `/bc/${category.slug}?page=${page}` : `/bc/${category.slug}` },
+  };
+}
+
+export default async function BlogCategoryPage({ params, searchParams }: BlogCategoryPageProps) {
+  const category = await loadCategory(params.category);
+  const requestedPage = readPageParam(searchParams.page);
+  if (!category || requestedPage === null) {
+    notFound();
+  }
+
+  const sort = readSortParam(searchParams.sort, POST_SORTS);
+  const result = await listPublicPosts({ category: category.slug, page: requestedPage, sort: sort ?? undefined });
+  if (requestedPage > result.page) {
+    notFound();
+  }
+
+  const basePath = `/bc/${category.slug}`;
+
+  return (
+    <div className="catalog-page">
+      <JsonLdScript data={buildCategoryBreadcrumbJsonLd(category, 'posts', readStructuredDataSiteUrl())} />
+      <header className="catalog-header">
+        <h1 className="product-title">{category.name}</h1>
+        {category.description && <p className="product-lead">{category.description}</p>}
+        <p className="catalog-count">{result.total} artículos</p>
+      </header>
+
+      <SortLinks basePath={basePath} labels={SORT_LABELS} active={sort ?? 'recent'} defaultSort="recent" />
+
+      {result.items.length === 0 ? (
+        <p className="catalog-empty">Todavía no hay artículos publicados en esta categoría.</p>
+      ) : (
+        <ul className="catalog-grid">
+          {result.items.map((post) => {
+            const title = post.title ?? post.slug;
+            const publishedAt = formatPublishedAt(post.published_at);
+            return (
+              <li key={post.slug} className="catalog-card">
+                <Link href={`/b/${post.slug}`} prefetch={false}>
+                  {post.hero_image_url && (
+                    <Image
+                      className="catalog-card-image"
+                      src={post.hero_image_url}
+                      alt={title}
+                      width={600}
+                      height={450}
+                      unoptimized
+                    />
+                  )}
+                  <h2 className="catalog-card-title">{title}</h2>
+                  {publishedAt && <p className="catalog-card-meta">{publishedAt}</p>}
+                  {post.short_summary && <p className="catalog-card-summary">{post.short_summary}</p>}
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Pagination basePath={basePath} page={result.page} pageCount={result.pageCount} sort={sort} />
+    </div>
+  );
+}
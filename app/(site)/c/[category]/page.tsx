@@ -0,0 +1,107 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+import { buildCategoryBreadcrumbJsonLd, readStructuredDataSiteUrl } from '@/lib/server/structured-data';
+import { PRODUCT_SORTS, listPublicProducts, type ProductSort } from '@/lib/server/tidb/catalog';
+import { fetchCategoryBySlug } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+
+import { Pagination, SortLinks, readPageParam, readSortParam, type CatalogSearchParams } from '../../catalog-controls';
+import JsonLdScript from '../../json-ld';
+import { formatProductPrice } from '../../site-format';
+
+interface ProductCategoryPageProps {
+  params: { category: string };
+  searchParams: CatalogSearchParams;
+}
+
+const SORT_LABELS: Record<ProductSort, string> = {
+  recent: 'Novedades',
+  name: 'Nombre',
+  price_asc: 'Precio ascendente',
+  price_desc: 'Precio descendente',
+};
+
+async function loadCategory(slug: string) {
+  if (!loadTiDbCredentials()) {
+    return null;
+  }
+  return fetchCategoryBySlug(slug);
+}
+
+export async function generateMetadata({ params, searchParams }: ProductCategoryPageProps): Promise<Metadata> {
+  const category = await loadCategory(params.category);
+  if (!category) {
+    return {};
+  }
+  const page = readPageParam(searchParams.page) ?? 1;
+  return {
+    title: page > 1 ? `${category.name} — Página ${page}` : category.name,
+    description: category.description ?? undefined,
+    alternates: { canonical: page > 1 ? `/c/${category.slug}?page=${page}` : `/c/${category.slug}` },
+  };
+}
+
+export default async function ProductCategoryPage({ params, searchParams }: ProductCategoryPageProps) {
+  const category = await loadCategory(params.category);
+  const requestedPage = readPageParam(searchParams.page);
+  if (!category || requestedPage === null) {
+    notFound();
+  }
+
+  const sort = readSortParam(searchParams.sort, PRODUCT_SORTS);
+  const result = await listPublicProducts({ category: category.slug, page: requestedPage, sort: sort ?? undefined });
+  if (requestedPage > result.page) {
+    notFound();
+  }
+
+  const basePath = `/c/${category.slug}`;
+
+  return (
+    <div className="catalog-page">
+      <JsonLdScript data={buildCategoryBreadcrumbJsonLd(category, 'products', readStructuredDataSiteUrl())} />
+      <header className="catalog-header">
+        <h1 className="product-title">{category.name}</h1>
+        {category.description && <p className="product-lead">{category.description}</p>}
+        <p className="catalog-count">{result.total} productos</p>
+      </header>
+
+      <SortLinks basePath={basePath} labels={SORT_LABELS} active={sort ?? 'recent'} defaultSort="recent" />
+
+      {result.items.length === 0 ? (
+        <p className="catalog-empty">Todavía no hay productos en esta categoría.</p>
+      ) : (
+        <ul className="catalog-grid">
+          {result.items.map((product) => {
+            const title = product.title_h1 ?? product.slug;
+            const price = formatProductPrice(product);
+            return (
+              <li key={product.slug} className="catalog-card">
+                <Link href={`/p/${product.slug}`} prefetch={false}>
+                  {product.hero_image_url && (
+                    <Image
+                      className="catalog-card-image"
+                      src={product.hero_image_url}
+                      alt={title}
+                      width={600}
+                      height={450}
+                      unoptimized
+                    />
+                  )}
+                  {product.badge_label && <span className="product-badge">{product.badge_label}</span>}
+                  <h2 className="catalog-card-title">{title}</h2>
+                  {product.short_summary && <p className="catalog-card-summary">{product.short_summary}</p>}
+                  {price && <p className="catalog-card-price">{price}</p>}
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Pagination basePath={basePath} page={result.page} pageCount={result.pageCount} sort={sort} />
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import Link from 'next/link';
+
+export interface CatalogSearchParams {
+  page?: string | string[];
+  sort?: string | string[];
+}
+
+export function readPageParam(value: CatalogSearchParams['page']): number | null {
+  if (value === undefined) {
+    return 1;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const page = Number.parseInt(value, 10);
+  return page >= 1 ? page : null;
+}
+
+export function readSortParam<S extends string>(
+  value: CatalogSearchParams['sort'],
+  sorts: Record<S, string>
+): S | null {
+  if (value === undefined) {
+    return null;
+  }
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(sorts, value) ? (value as S) : null;
+}
+
+function buildHref(basePath: string, page: number, sort: string | null) {
+  const params = new URLSearchParams();
+  if (sort) {
+    params.set('sort', sort);
+  }
+  if (page > 1) {
+    params.set('page', String(page));
+  }
+  const query = params.toString();
+  return query ? `${basePath}?${query}` : basePath;
+}
+
+export function SortLinks<S extends string>(props: {
+  basePath: string;
+  labels: Record<S, string>;
+  active: S;
+  defaultSort: S;
+}) {
+  const { basePath, labels, active, defaultSort } = props;
+  return (
+    <nav className="catalog-sort">
+      <span>Ordenar por:</span>
+      {(Object.entries(labels) as [S, string][]).map(([sort, label]) => (
+        <Link
+          key={sort}
+          href={buildHref(basePath, 1, sort === defaultSort ? null : sort)}
+          className={sort === active ? 'catalog-sort-active' : undefined}
+          prefetch={false}
+        >
+          {label}
+        </Link>
+      ))}
+    </nav>
+  );
+}
+
+export function Pagination(props: { basePath: string; page: number; pageCount: number; sort: string | null }) {
+  const { basePath, page, pageCount, sort } = props;
+  if (pageCount <= 1) {
+    return null;
+  }
+  return (
+    <nav className="catalog-pagination">
+      {page > 1 ? (
+        <Link href={buildHref(basePath, page - 1, sort)} rel="prev" prefetch={false}>
+          ← Anterior
+        </Link>
+      ) : (
+        <span />
+      )}
+      <span>
+        Página {page} de {pageCount}
+      </span>
+      {page < pageCount ? (
+        <Link href={buildHref(basePath, page + 1, sort)} rel="next" prefetch={false}>
+          Siguiente →
+        </Link>
+      ) : (
+        <span />
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,5 @@
+import { serializeJsonLd, type JsonLd } from '@/lib/server/structured-data';
+
+export default function JsonLdScript({ data }: { data: JsonLd }) {
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }} />;
+}
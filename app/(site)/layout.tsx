@@ -0,0 +1,19 @@
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+
+import './site.css';
+
+export default function SiteLayout({ children }: { children: ReactNode }) {
+  return (
+    <div className="site-page">
+      <header className="site-header">
+        <div className="site-shell">
+          <Link href="/" className="site-brand" prefetch={false}>
+            Virtual Product Pages
+          </Link>
+        </div>
+      </header>
+      <main className="site-shell site-main">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+import { buildProductJsonLd, readStructuredDataSiteUrl } from '@/lib/server/structured-data';
+import { fetchPublicProduct } from '@/lib/server/tidb/catalog';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+
+import JsonLdScript from '../../json-ld';
+import { formatProductPrice } from '../../site-format';
+
+interface ProductPageProps {
+  params: { slug: string };
+}
+
+export const revalidate = 3600;
+
+export async function generateStaticParams() {
+  return [];
+}
+
+async function loadProduct(slug: string) {
+  if (!loadTiDbCredentials()) {
+    return null;
+  }
+  return fetchPublicProduct(slug);
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const product = await loadProduct(params.slug);
+  if (!product) {
+    return {};
+  }
+  const title = product.seo_title ?? product.title_h1 ?? product.slug;
+  const description = product.seo_description ?? product.short_summary ?? undefined;
+  return {
+    title,
+    description,
+    alternates: { canonical: `/p/${product.slug}` },
+    openGraph: {
+      title,
+      description,
+      images: product.hero_image_url ? [product.hero_image_url] : undefined,
+    },
+  };
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const product = await loadProduct(params.slug);
+  if (!product) {
+    notFound();
+  }
+
+  const title = product.title_h1 ?? product.slug;
+  const price = formatProductPrice(product);
+
+  return (
+    <article className="product-page">
+      <JsonLdScript data={buildProductJsonLd(product, readStructuredDataSiteUrl())} />
+      {product.category_slug && (
+        <nav className="site-breadcrumbs">
+          <Link href={`/c/${product.category_slug}`} prefetch={false}>
+            {product.category_slug}
+          </Link>
+          <span>/</span>
+          <span>{title}</span>
+        </nav>
+      )}
+
+      <section className="product-hero">
+        {product.hero_image_url && (
+          <Image
+            className="product-hero-image"
+            src={product.hero_image_url}
+            alt={title}
+            width={1200}
+            height={900}
+            priority
+            unoptimized
+          />
+        )}
+        <div className="product-summary">
+          {product.badge_label && <span className="product-badge">{product.badge_label}</span>}
+          <h1 className="product-title">{title}</h1>
+          {product.short_summary && <p className="product-lead">{product.short_summary}</p>}
+          {price && <p className="product-price">{price}</p>}
+          {product.availability_label && <p className="product-availability">{product.availability_label}</p>}
+          <div className="product-actions">
+            {product.primary_cta_url && (
+              <a className="site-button" href={product.primary_cta_url} rel="nofollow noopener">
+                {product.primary_cta_label ?? 'Ver oferta'}
+              </a>
+            )}
+            {product.secondary_cta_url && (
+              <a className="site-button site-button-secondary" href={product.secondary_cta_url} rel="nofollow noopener">
+                {product.secondary_cta_label ?? 'Más información'}
+              </a>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {product.desc_html && (
+        <section className="rich-text" dangerouslySetInnerHTML={{ __html: product.desc_html }} />
+      )}
+
+      {product.gallery_image_urls.length > 0 && (
+        <section className="product-gallery">
+          {product.gallery_image_urls.map((url, index) => (
+            <Image
+              key={url}
+              className="product-gallery-image"
+              src={url}
+              alt={`${title} — ${index + 1}`}
+              width={600}
+              height={450}
+              unoptimized
+            />
+          ))}
+        </section>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,32 @@
+import type { PublicProduct } from '@/lib/server/tidb/catalog';
+
+export function formatProductPrice(
+  product: Pick<PublicProduct, 'price_display' | 'price_amount' | 'price_currency'>
+): string | null {
+  if (product.price_display) {
+    return product.price_display;
+  }
+  if (product.price_amount == null) {
+    return null;
+  }
+  const amount = Number(product.price_amount);
+  if (!Number.isFinite(amount)) {
+    return product.price_amount;
+  }
+  if (!product.price_currency) {
+    return amount.toLocaleString('es');
+  }
+  try {
+    return new Intl.NumberFormat('es', { style: 'currency', currency: product.price_currency }).format(amount);
+  } catch (_error) {
+    return `${amount.toLocaleString('es')} ${product.price_currency}`;
+  }
+}
+
+export function formatPublishedAt(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toLocaleDateString('es', { dateStyle: 'long' });
+}
@@ -0,0 +1,89 @@
+import { useCallback } from 'react';
+
+import type { HtmlStrippedReport } from '@/lib/server/html-sanitizer';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type ApiResponse<T extends Record<string, unknown>> = {
+  ok: boolean;
+  error_code?: string;
+  latency_ms?: number;
+  ray_ids?: string[];
+  details?: string;
+  field_errors?: Record<string, string>;
+} & T;
+
+export async function readJson<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    console.error('admin_panel_parse_error', {
+      status: response.status,
+      error: (error as Error)?.message,
+      snippet: text.slice(0, 120),
+    });
+    throw error;
+  }
+}
+
+export function useAdminApi(sessionToken: string | null) {
+  return useCallback(
+    async <T extends Record<string, unknown>>(
+      url: string,
+      method: HttpMethod,
+      body?: unknown
+    ): Promise<ApiResponse<T>> => {
+      const headers: Record<string, string> = { Accept: 'application/json' };
+      if (sessionToken) {
+        headers.Authorization = `Bearer ${sessionToken}`;
+      }
+      let requestBody: BodyInit | undefined;
+      if (method !== 'GET') {
+        headers['Content-Type'] = 'application/json';
+        requestBody = body !== undefined ? JSON.stringify(body) : JSON.stringify({});
+      }
+
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: requestBody,
+        credentials: 'include',
+      });
+      return readJson<ApiResponse<T>>(response);
+    },
+    [sessionToken]
+  );
+}
+
+export function formatTimestampLabel(value?: string | null): string {
+  if (!value) {
+    return '—';
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString();
+}
+
+export function formatJson(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch (_error) {
+    return String(value);
+  }
+}
+
+export function formatStrippedHtml(report?: Record<string, HtmlStrippedReport> | null): string[] {
+  return Object.entries(report ?? {}).map(([field, stripped]) => {
+    const items = [
+      ...Object.entries(stripped.tags).map(([tag, count]) => {
+        const label = tag === '#comment' ? 'comentario' : `<${tag}>`;
+        return `${label} ×${count}`;
+      }),
+      ...Object.entries(stripped.attributes).map(([attribute, count]) => `${attribute} ×${count}`),
+    ];
+    return `${field}: ${items.join(', ')}`;
+  });
+}
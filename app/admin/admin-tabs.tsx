@@ -11,11 +11,14 @@ interface TabConfig {
 
 const TABS: TabConfig[] = [
   { key: 'connectivity', label: 'Connectivity', href: '/admin' },
-  { key: 'publishing', label: 'Publishing' },
-  { key: 'categories', label: 'Categories' },
-  { key: 'edit-product', label: 'Edit Product' },
-  { key: 'edit-blog', label: 'Edit Blog' },
-  { key: 'seo', label: 'SEO' },
+  { key: 'publishing', label: 'Publishing', href: '/admin/publishing' },
+  { key: 'categories', label: 'Categories', href: '/admin/categories' },
+  { key: 'edit-product', label: 'Edit Product', href: '/admin/edit-product' },
+  { key: 'edit-blog', label: 'Edit Blog', href: '/admin/edit-blog' },
+  { key: 'bulk', label: 'Import / Export', href: '/admin/bulk' },
+  { key: 'history', label: 'History', href: '/admin/history' },
+  { key: 'seo', label: 'SEO', href: '/admin/seo' },
+  { key: 'redirects', label: 'Redirects', href: '/admin/redirects' },
   { key: 'assets', label: 'Assets' },
 ];
 
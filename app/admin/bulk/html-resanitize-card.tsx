@@ -0,0 +1,182 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useState } from 'react';
+
+import type { HtmlResanitizeEntry, HtmlResanitizeReport } from '@/lib/server/tidb/html-resanitize';
+
+import { formatStrippedHtml, formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface HtmlResanitizeCardProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+}
+
+type RunStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface RunState {
+  status: RunStatus;
+  timestamp?: string;
+  report?: HtmlResanitizeReport;
+  errorCode?: string;
+  details?: string;
+}
+
+const RESANITIZE_ENDPOINT = '/api/admin/html/resanitize';
+
+function getEditorHref(entry: HtmlResanitizeEntry): string {
+  const base = entry.entity_type === 'product' ? '/admin/edit-product' : '/admin/edit-blog';
+  return `${base}?slug=${encodeURIComponent(entry.slug)}`;
+}
+
+export default function HtmlResanitizeCard({ sessionToken, tidbConfigured }: HtmlResanitizeCardProps) {
+  const callEndpoint = useAdminApi(sessionToken);
+  const [runState, setRunState] = useState<RunState>({ status: 'idle' });
+
+  const run = useCallback(
+    async (dryRun: boolean) => {
+      if (!dryRun && !window.confirm('¿Reescribir el HTML guardado de los productos y artículos afectados?')) {
+        return;
+      }
+      setRunState({ status: 'loading' });
+      try {
+        const data = await callEndpoint<Partial<HtmlResanitizeReport>>(RESANITIZE_ENDPOINT, 'POST', {
+          dry_run: dryRun,
+        });
+        const timestamp = new Date().toISOString();
+        const report: HtmlResanitizeReport | undefined = data.scanned
+          ? {
+              dry_run: Boolean(data.dry_run),
+              scanned: data.scanned,
+              updated: data.updated ?? 0,
+              failed: data.failed ?? 0,
+              entries: data.entries ?? [],
+            }
+          : undefined;
+        if (!data.ok) {
+          console.warn('admin_html_resanitize_failure', { dryRun, errorCode: data.error_code });
+          setRunState({
+            status: 'error',
+            timestamp,
+            report,
+            errorCode: data.error_code ?? 'partial_failure',
+            details: typeof data.details === 'string' ? data.details : undefined,
+          });
+          return;
+        }
+        setRunState({ status: 'success', timestamp, report });
+      } catch (error) {
+        console.error('admin_html_resanitize_failed', { dryRun, error: (error as Error)?.message });
+        setRunState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: 'network_error',
+          details: (error as Error)?.message,
+        });
+      }
+    },
+    [callEndpoint]
+  );
+
+  const report = runState.report;
+  const busy = runState.status === 'loading';
+
+  return (
+    <section className="admin-card">
+      <div>
+        <h2 className="admin-card-title">Limpiar HTML guardado</h2>
+        <p className="admin-card-description">
+          Vuelve a pasar desc_html y content_html por la lista de etiquetas y atributos permitidos. Las filas guardadas
+          antes de activar la limpieza pueden contener scripts, estilos o atributos on*. Revisa primero la simulación;
+          al aplicar, cada cambio queda en el historial.
+        </p>
+      </div>
+
+      {!tidbConfigured && (
+        <div className="warning-block">Configura las variables de TiDB para limpiar el HTML guardado.</div>
+      )}
+
+      <div className="write-actions">
+        <button
+          type="button"
+          className="admin-button admin-button-secondary"
+          onClick={() => run(true)}
+          disabled={!tidbConfigured || busy}
+        >
+          {busy ? 'Analizando…' : 'Simular'}
+        </button>
+        <button type="button" className="admin-button" onClick={() => run(false)} disabled={!tidbConfigured || busy}>
+          Aplicar limpieza
+        </button>
+      </div>
+
+      {runState.status === 'error' && runState.errorCode && (
+        <div className="error-block">
+          No se pudo completar la limpieza. Código: {runState.errorCode}
+          {runState.details ? ` — ${runState.details}` : ''}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="metric-grid">
+            <div className="metric-block">
+              <span className="metric-label">Analizados</span>
+              <span className="metric-value">{report.scanned.product + report.scanned.post}</span>
+              <span className="metric-secondary">
+                {report.scanned.product} productos · {report.scanned.post} artículos
+              </span>
+            </div>
+            <div className="metric-block">
+              <span className="metric-label">{report.dry_run ? 'Por limpiar' : 'Actualizados'}</span>
+              <span className="metric-value">{report.dry_run ? report.entries.length : report.updated}</span>
+              <span className="metric-secondary">
+                {report.failed > 0 ? `${report.failed} con error · ` : ''}
+                {formatTimestampLabel(runState.timestamp)}
+              </span>
+            </div>
+          </div>
+
+          {report.entries.length === 0 ? (
+            <div className="success-block">Todo el HTML guardado cumple la lista de permitidos.</div>
+          ) : (
+            <div className="admin-table-wrapper">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Tipo</th>
+                    <th>Slug</th>
+                    <th>Eliminado</th>
+                    <th>Estado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.entries.map((entry) => (
+                    <tr key={`${entry.entity_type}:${entry.slug}`}>
+                      <td>{entry.entity_type === 'product' ? 'Producto' : 'Artículo'}</td>
+                      <td>
+                        <Link href={getEditorHref(entry)}>{entry.slug}</Link>
+                      </td>
+                      <td>{formatStrippedHtml({ [entry.field]: entry.stripped }).join('')}</td>
+                      <td>
+                        {entry.error ? (
+                          <span className="status-badge status-error" title={entry.error}>
+                            Error
+                          </span>
+                        ) : (
+                          <span className={`status-badge ${entry.updated ? 'status-success' : 'status-idle'}`}>
+                            {entry.updated ? 'Limpiado' : 'Pendiente'}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,32 @@
+import HtmlResanitizeCard from './html-resanitize-card';
+import ProductExportCard, { type ProductExportCardProps } from './product-export-card';
+import ProductImportCard from './product-import-card';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { listCategoryOptions } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+
+export default async function AdminBulkPage() {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+  const sessionToken = adminConfig ? await issueAdminSessionToken(adminConfig) : null;
+
+  let categories: ProductExportCardProps['categories'] = [];
+  if (tidbConfigured) {
+    try {
+      categories = await listCategoryOptions();
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_bulk_categories_load_error', { code: info.code, message: info.message });
+    }
+  }
+
+  return (
+    <div className="admin-grid">
+      <ProductImportCard sessionToken={sessionToken} tidbConfigured={tidbConfigured} />
+      <ProductExportCard tidbConfigured={tidbConfigured} categories={categories} />
+      <HtmlResanitizeCard sessionToken={sessionToken} tidbConfigured={tidbConfigured} />
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+import type { CategoryOption } from '@/lib/server/tidb/categories';
+import type { ProductExportFormat } from '@/lib/server/tidb/product-export';
+
+export interface ProductExportCardProps {
+  tidbConfigured: boolean;
+  categories: CategoryOption[];
+}
+
+const EXPORT_ENDPOINT = '/api/admin/export/products';
+
+export default function ProductExportCard({ tidbConfigured, categories }: ProductExportCardProps) {
+  const [format, setFormat] = useState<ProductExportFormat>('csv');
+  const [category, setCategory] = useState('');
+  const [updatedSince, setUpdatedSince] = useState('');
+  const [includeDeleted, setIncludeDeleted] = useState(false);
+
+  const href = useMemo(() => {
+    const params = new URLSearchParams({ format });
+    if (category) {
+      params.set('category', category);
+    }
+    if (updatedSince) {
+      params.set('updated_since', `${updatedSince}:00Z`);
+    }
+    if (includeDeleted) {
+      params.set('include_deleted', '1');
+    }
+    return `${EXPORT_ENDPOINT}?${params.toString()}`;
+  }, [category, format, includeDeleted, updatedSince]);
+
+  return (
+    <section className="admin-card">
+      <div>
+        <h2 className="admin-card-title">Exportar productos</h2>
+        <p className="admin-card-description">
+          Descarga los productos de TiDB ordenados por slug. En CSV, gallery_image_urls se separa con | para que el
+          archivo pueda volver a importarse; en NDJSON y JSON se exporta como array.
+        </p>
+      </div>
+
+      {!tidbConfigured && (
+        <div className="warning-block">Configura las variables de TiDB para habilitar la exportación.</div>
+      )}
+
+      <div className="write-grid">
+        <label className="admin-field">
+          <span className="admin-field-label">Formato</span>
+          <select
+            className="admin-input"
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ProductExportFormat)}
+          >
+            <option value="csv">CSV</option>
+            <option value="ndjson">NDJSON</option>
+            <option value="json">JSON</option>
+          </select>
+        </label>
+        <label className="admin-field">
+          <span className="admin-field-label">Categoría</span>
+          <select className="admin-input" value={category} onChange={(event) => setCategory(event.target.value)}>
+            <option value="">Todas</option>
+            {categories.map((option) => (
+              <option key={option.slug} value={option.slug}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="admin-field">
+          <span className="admin-field-label">Actualizados desde (UTC)</span>
+          <input
+            className="admin-input"
+            type="datetime-local"
+            value={updatedSince}
+            onChange={(event) => setUpdatedSince(event.target.value)}
+          />
+        </label>
+        <label className="admin-field admin-field-inline">
+          <input
+            type="checkbox"
+            checked={includeDeleted}
+            onChange={(event) => setIncludeDeleted(event.target.checked)}
+          />
+          <span className="admin-field-label">Incluir eliminados</span>
+        </label>
+      </div>
+
+      <div className="write-actions">
+        {tidbConfigured ? (
+          <a className="admin-button" href={href} download>
+            Descargar exportación
+          </a>
+        ) : (
+          <button type="button" className="admin-button" disabled>
+            Descargar exportación
+          </button>
+        )}
+        <span className="metric-secondary">{href}</span>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useCallback, useMemo, useState, type ChangeEvent } from 'react';
+
+import type {
+  ProductImportFormat,
+  ProductImportReport,
+  ProductImportRowReport,
+} from '@/lib/server/tidb/product-import';
+
+import { formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface ProductImportCardProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+}
+
+type ImportStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface ImportState {
+  status: ImportStatus;
+  timestamp?: string;
+  report?: ProductImportReport;
+  errorCode?: string;
+  details?: string;
+}
+
+const IMPORT_ENDPOINT = '/api/admin/import/products';
+
+const ACTION_LABELS: Record<ProductImportRowReport['action'], string> = {
+  create: 'Crear',
+  update: 'Actualizar',
+  unchanged: 'Sin cambios',
+  invalid: 'Inválida',
+};
+
+const STATUS_LABELS: Record<ProductImportRowReport['status'], string> = {
+  pending: 'Pendiente',
+  applied: 'Aplicada',
+  skipped: 'Omitida',
+  failed: 'Fallida',
+};
+
+function detectFormat(fileName: string): ProductImportFormat {
+  return /\.(ndjson|jsonl|json)$/i.test(fileName) ? 'ndjson' : 'csv';
+}
+
+function formatDiffValue(value: unknown): string {
+  if (value == null || value === '') {
+    return '∅';
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 157)}…` : text;
+}
+
+function getActionBadgeClass(row: ProductImportRowReport): string {
+  if (row.status === 'failed' || row.action === 'invalid') {
+    return 'status-error';
+  }
+  if (row.status === 'applied') {
+    return 'status-success';
+  }
+  if (row.action === 'create' || row.action === 'update') {
+    return 'status-warning';
+  }
+  return 'status-idle';
+}
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'invalid_import':
+      return 'El archivo no se pudo interpretar.';
+    case 'payload_too_large':
+      return 'El archivo supera el tamaño máximo de 5 MB.';
+    case 'invalid_payload':
+      return 'La solicitud de importación no es válida.';
+    case 'missing_env':
+      return 'Faltan las variables de entorno de TiDB.';
+    case 'timeout':
+      return 'TiDB no respondió a tiempo.';
+    case 'auth_failed':
+      return 'TiDB rechazó las credenciales configuradas.';
+    default:
+      return 'No se pudo completar la importación.';
+  }
+}
+
+export default function ProductImportCard({ sessionToken, tidbConfigured }: ProductImportCardProps) {
+  const callEndpoint = useAdminApi(sessionToken);
+
+  const [format, setFormat] = useState<ProductImportFormat>('csv');
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [batchSize, setBatchSize] = useState('100');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [previewedContent, setPreviewedContent] = useState<string | null>(null);
+  const [importState, setImportState] = useState<ImportState>({ status: 'idle' });
+
+  const report = importState.report;
+  const visibleRows = useMemo(() => {
+    if (!report) {
+      return [];
+    }
+    return showUnchanged ? report.rows : report.rows.filter((row) => row.action !== 'unchanged');
+  }, [report, showUnchanged]);
+
+  const handleFile = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    setFormat(detectFormat(file.name));
+    setContent(await file.text());
+    setPreviewedContent(null);
+    setImportState({ status: 'idle' });
+  }, []);
+
+  const runImport = useCallback(
+    async (dryRun: boolean) => {
+      if (!content.trim()) {
+        return;
+      }
+      if (!dryRun && !window.confirm('¿Aplicar la importación? Se escribirán las filas válidas en TiDB.')) {
+        return;
+      }
+
+      setImportState((prev) => ({ ...prev, status: 'loading' }));
+      try {
+        const data = await callEndpoint<Partial<ProductImportReport>>(IMPORT_ENDPOINT, 'POST', {
+          format,
+          content,
+          dry_run: dryRun,
+          batch_size: Number(batchSize) || undefined,
+        });
+        const timestamp = new Date().toISOString();
+
+        if (!data.ok || !data.rows) {
+          console.warn('admin_product_import_failure', { dryRun, errorCode: data.error_code });
+          setImportState({
+            status: 'error',
+            timestamp,
+            errorCode: data.error_code,
+            details: typeof data.details === 'string' ? data.details : undefined,
+          });
+          return;
+        }
+
+        const nextReport = data as unknown as ProductImportReport;
+        setPreviewedContent(dryRun ? content : null);
+        setImportState({ status: 'success', timestamp, report: nextReport });
+        console.info('admin_product_import', { dryRun, summary: nextReport.summary });
+      } catch (error) {
+        console.error('admin_product_import_failed', { dryRun, error: (error as Error)?.message });
+        setImportState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: 'network_error',
+          details: (error as Error)?.message,
+        });
+      }
+    },
+    [batchSize, callEndpoint, content, format]
+  );
+
+  const canApply =
+    previewedContent !== null &&
+    previewedContent === content &&
+    Boolean(report?.dry_run) &&
+    (report?.summary.create ?? 0) + (report?.summary.update ?? 0) > 0;
+
+  return (
+    <section className="admin-card">
+      <div>
+        <h2 className="admin-card-title">Importar productos</h2>
+        <p className="admin-card-description">
+          Sube un CSV con cabecera (la columna slug es obligatoria) o un NDJSON con un producto por línea. Las celdas
+          vacías no modifican el valor actual y gallery_image_urls admite un array JSON o URLs separadas por |.
+          Primero se simula la importación y, tras revisar las diferencias, se aplica por lotes.
+        </p>
+      </div>
+
+      {!tidbConfigured && (
+        <div className="warning-block">Configura las variables de TiDB para habilitar la importación.</div>
+      )}
+
+      <div className="write-grid">
+        <label className="admin-field">
+          <span className="admin-field-label">Archivo</span>
+          <input type="file" accept=".csv,.ndjson,.jsonl,.json,text/csv" onChange={handleFile} />
+          {fileName && <span className="admin-field-meta">{fileName}</span>}
+        </label>
+        <label className="admin-field">
+          <span className="admin-field-label">Formato</span>
+          <select
+            className="admin-input"
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ProductImportFormat)}
+          >
+            <option value="csv">CSV</option>
+            <option value="ndjson">NDJSON</option>
+          </select>
+        </label>
+        <label className="admin-field">
+          <span className="admin-field-label">Filas por lote</span>
+          <input
+            className="admin-input"
+            type="number"
+            min={1}
+            max={500}
+            value={batchSize}
+            onChange={(event) => setBatchSize(event.target.value)}
+          />
+        </label>
+        <label className="admin-field admin-field-full">
+          <span className="admin-field-label">Contenido</span>
+          <textarea
+            className="admin-textarea"
+            rows={8}
+            placeholder={'slug,title_h1,price_amount\nmi-producto,Mi producto,19.90'}
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="write-actions">
+        <button
+          type="button"
+          className="admin-button admin-button-secondary"
+          onClick={() => runImport(true)}
+          disabled={!tidbConfigured || !content.trim() || importState.status === 'loading'}
+        >
+          {importState.status === 'loading' ? 'Procesando…' : 'Simular importación'}
+        </button>
+        <button
+          type="button"
+          className="admin-button"
+          onClick={() => runImport(false)}
+          disabled={!canApply || importState.status === 'loading'}
+        >
+          Aplicar importación
+        </button>
+        {previewedContent !== null && previewedContent !== content && (
+          <span className="metric-secondary">El contenido cambió: vuelve a simular antes de aplicar.</span>
+        )}
+      </div>
+
+      {importState.status === 'error' && importState.errorCode && (
+        <div className="error-block">
+          {getErrorMessage(importState.errorCode)} Código: {importState.errorCode}
+          {importState.details ? ` — ${importState.details}` : ''}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className={report.summary.failed > 0 ? 'error-block' : 'success-block'}>
+            {report.dry_run ? 'Simulación' : 'Importación'} · {formatTimestampLabel(importState.timestamp)}
+            {` · Crear: ${report.summary.create} · Actualizar: ${report.summary.update}`}
+            {` · Sin cambios: ${report.summary.unchanged} · Inválidas: ${report.summary.invalid}`}
+            {report.dry_run
+              ? ''
+              : ` · Aplicadas: ${report.summary.applied} · Fallidas: ${report.summary.failed}` +
+                ` · Lotes: ${report.batches}`}
+          </div>
+
+          {report.unknown_columns.length > 0 && (
+            <div className="warning-block">Columnas ignoradas: {report.unknown_columns.join(', ')}</div>
+          )}
+
+          <label className="admin-field admin-field-inline">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(event) => setShowUnchanged(event.target.checked)}
+            />
+            <span className="admin-field-label">Mostrar filas sin cambios</span>
+          </label>
+
+          <div className="admin-table-wrapper">
+            <table className="admin-table">
+              <thead>
+                <tr>
+                  <th>Fila</th>
+                  <th>Slug</th>
+                  <th>Acción</th>
+                  <th>Diferencias</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row) => (
+                  <tr key={row.row}>
+                    <td>{row.row}</td>
+                    <td>{row.slug ?? '—'}</td>
+                    <td>
+                      <span className={`status-badge ${getActionBadgeClass(row)}`}>
+                        {ACTION_LABELS[row.action]} · {STATUS_LABELS[row.status]}
+                      </span>
+                    </td>
+                    <td>
+                      <div className="diff-list">
+                        {row.changes.map((change) => (
+                          <span key={change.field}>
+                            <span className="diff-field">{change.field}</span>:{' '}
+                            {row.action === 'update' && (
+                              <>
+                                <span className="diff-before">{formatDiffValue(change.before)}</span> →{' '}
+                              </>
+                            )}
+                            <span className="diff-after">{formatDiffValue(change.after)}</span>
+                          </span>
+                        ))}
+                        {row.field_errors &&
+                          Object.entries(row.field_errors).map(([field, message]) => (
+                            <span key={field} className="admin-field-error">
+                              {message}
+                            </span>
+                          ))}
+                        {row.error && <span className="admin-field-error">{row.error}</span>}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
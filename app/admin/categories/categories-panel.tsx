@@ -0,0 +1,456 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+
+import type { CategoryRecord } from '@/lib/server/tidb/categories';
+
+import { useAdminApi } from '../admin-client';
+
+export interface CategoriesPanelProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+  categories: CategoryRecord[];
+  loadError: { code: string; details?: string } | null;
+}
+
+type ActionStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface ActionState {
+  status: ActionStatus;
+  message?: string;
+  errorCode?: string;
+  details?: string;
+}
+
+interface EditState {
+  slug: string;
+  new_slug: string;
+  name: string;
+  description: string;
+}
+
+interface DeleteState {
+  slug: string;
+  reassignTo: string;
+  productCount?: number;
+  postCount?: number;
+}
+
+const CATEGORIES_ENDPOINT = '/api/admin/categories';
+
+const EMPTY_CREATE_FORM = { slug: '', name: '', description: '' };
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'category_exists':
+      return 'Ya existe una categoría con ese slug.';
+    case 'category_not_found':
+      return 'La categoría ya no existe.';
+    case 'category_in_use':
+      return 'La categoría tiene productos o artículos asignados.';
+    case 'invalid_reassign_target':
+      return 'La categoría de destino no existe.';
+    case 'invalid_payload':
+      return 'Revisa los campos marcados.';
+    default:
+      return 'No se pudo completar la operación.';
+  }
+}
+
+export default function CategoriesPanel(props: CategoriesPanelProps) {
+  const { sessionToken, tidbConfigured, loadError } = props;
+  const callEndpoint = useAdminApi(sessionToken);
+
+  const [categories, setCategories] = useState<CategoryRecord[]>(props.categories);
+  const [createForm, setCreateForm] = useState(EMPTY_CREATE_FORM);
+  const [createErrors, setCreateErrors] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [editErrors, setEditErrors] = useState<Record<string, string>>({});
+  const [deleting, setDeleting] = useState<DeleteState | null>(null);
+  const [actionState, setActionState] = useState<ActionState>({ status: 'idle' });
+
+  const reportFailure = useCallback((event: string, data: { error_code?: string; details?: string }) => {
+    console.warn(event, { errorCode: data.error_code });
+    setActionState({
+      status: 'error',
+      errorCode: data.error_code ?? 'unknown',
+      details: typeof data.details === 'string' ? data.details : undefined,
+    });
+  }, []);
+
+  const reportNetworkError = useCallback((event: string, error: unknown) => {
+    console.error(event, { error: (error as Error)?.message });
+    setActionState({ status: 'error', errorCode: 'network_error', details: (error as Error)?.message });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const data = await callEndpoint<{ categories?: CategoryRecord[] }>(CATEGORIES_ENDPOINT, 'GET');
+    if (data.ok && Array.isArray(data.categories)) {
+      setCategories(data.categories);
+    }
+  }, [callEndpoint]);
+
+  const submitCreate = useCallback(async () => {
+    setActionState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ category?: CategoryRecord }>(CATEGORIES_ENDPOINT, 'POST', createForm);
+      if (!data.ok) {
+        setCreateErrors(data.field_errors ?? {});
+        reportFailure('admin_category_create_failure', data);
+        return;
+      }
+      setCreateForm(EMPTY_CREATE_FORM);
+      setCreateErrors({});
+      await refresh();
+      setActionState({ status: 'success', message: `Categoría ${data.category?.slug ?? ''} creada.` });
+    } catch (error) {
+      reportNetworkError('admin_category_create_failed', error);
+    }
+  }, [callEndpoint, createForm, refresh, reportFailure, reportNetworkError]);
+
+  const submitEdit = useCallback(async () => {
+    if (!editing) {
+      return;
+    }
+    setActionState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ category?: CategoryRecord }>(
+        `${CATEGORIES_ENDPOINT}/${encodeURIComponent(editing.slug)}`,
+        'PUT',
+        {
+          name: editing.name,
+          description: editing.description,
+          new_slug: editing.new_slug,
+        }
+      );
+      if (!data.ok) {
+        setEditErrors(data.field_errors ?? {});
+        reportFailure('admin_category_update_failure', data);
+        return;
+      }
+      setEditing(null);
+      setEditErrors({});
+      await refresh();
+      setActionState({ status: 'success', message: `Categoría ${data.category?.slug ?? ''} actualizada.` });
+    } catch (error) {
+      reportNetworkError('admin_category_update_failed', error);
+    }
+  }, [callEndpoint, editing, refresh, reportFailure, reportNetworkError]);
+
+  const move = useCallback(
+    async (index: number, offset: -1 | 1) => {
+      const target = index + offset;
+      if (target < 0 || target >= categories.length) {
+        return;
+      }
+      const reordered = [...categories];
+      const [item] = reordered.splice(index, 1);
+      reordered.splice(target, 0, item);
+      setCategories(reordered);
+      setActionState({ status: 'loading' });
+      try {
+        const data = await callEndpoint<{ categories?: CategoryRecord[] }>(CATEGORIES_ENDPOINT, 'PATCH', {
+          order: reordered.map((category) => category.slug),
+        });
+        if (!data.ok) {
+          reportFailure('admin_category_reorder_failure', data);
+          await refresh();
+          return;
+        }
+        if (Array.isArray(data.categories)) {
+          setCategories(data.categories);
+        }
+        setActionState({ status: 'success', message: 'Orden actualizado.' });
+      } catch (error) {
+        reportNetworkError('admin_category_reorder_failed', error);
+      }
+    },
+    [callEndpoint, categories, refresh, reportFailure, reportNetworkError]
+  );
+
+  const submitDelete = useCallback(async () => {
+    if (!deleting) {
+      return;
+    }
+    setActionState({ status: 'loading' });
+    const query = deleting.reassignTo ? `?reassign_to=${encodeURIComponent(deleting.reassignTo)}` : '';
+    try {
+      const data = await callEndpoint<{
+        product_count?: number;
+        post_count?: number;
+        products_reassigned?: number;
+        posts_reassigned?: number;
+      }>(`${CATEGORIES_ENDPOINT}/${encodeURIComponent(deleting.slug)}${query}`, 'DELETE');
+      if (!data.ok) {
+        if (data.error_code === 'category_in_use') {
+          setDeleting((prev) =>
+            prev ? { ...prev, productCount: data.product_count, postCount: data.post_count } : prev
+          );
+        }
+        reportFailure('admin_category_delete_failure', data);
+        return;
+      }
+      setDeleting(null);
+      await refresh();
+      setActionState({
+        status: 'success',
+        message: `Categoría ${deleting.slug} eliminada · Productos reasignados: ${
+          data.products_reassigned ?? 0
+        } · Artículos reasignados: ${data.posts_reassigned ?? 0}`,
+      });
+    } catch (error) {
+      reportNetworkError('admin_category_delete_failed', error);
+    }
+  }, [callEndpoint, deleting, refresh, reportFailure, reportNetworkError]);
+
+  const busy = actionState.status === 'loading';
+
+  return (
+    <div className="admin-grid">
+      <section className="admin-card">
+        <div className="admin-card-header">
+          <div>
+            <h2 className="admin-card-title">Categorías</h2>
+            <p className="admin-card-description">
+              Crea, renombra, reordena o elimina categorías. Los cambios revalidan las páginas /c/ y /bc/
+              afectadas.
+            </p>
+          </div>
+        </div>
+
+        {!tidbConfigured && (
+          <div className="warning-block">Configura las variables de TiDB para gestionar categorías.</div>
+        )}
+
+        {loadError && (
+          <div className="error-block">
+            Código: {loadError.code}
+            {loadError.details ? ` — ${loadError.details}` : ''}
+          </div>
+        )}
+
+        {categories.length === 0 ? (
+          <p className="muted">No hay categorías registradas todavía.</p>
+        ) : (
+          <div className="activity-list">
+            {categories.map((category, index) => (
+              <div key={category.slug} className="activity-item">
+                {editing?.slug === category.slug ? (
+                  <div className="write-grid">
+                    <label className="admin-field">
+                      <span className="admin-field-label">slug</span>
+                      <input
+                        className={`admin-input${editErrors.new_slug ? ' admin-input-invalid' : ''}`}
+                        value={editing.new_slug}
+                        onChange={(event) => setEditing({ ...editing, new_slug: event.target.value })}
+                      />
+                      {editErrors.new_slug && <span className="admin-field-error">{editErrors.new_slug}</span>}
+                    </label>
+                    <label className="admin-field">
+                      <span className="admin-field-label">name</span>
+                      <input
+                        className={`admin-input${editErrors.name ? ' admin-input-invalid' : ''}`}
+                        value={editing.name}
+                        onChange={(event) => setEditing({ ...editing, name: event.target.value })}
+                      />
+                      {editErrors.name && <span className="admin-field-error">{editErrors.name}</span>}
+                    </label>
+                    <label className="admin-field admin-field-full">
+                      <span className="admin-field-label">description</span>
+                      <textarea
+                        className="admin-textarea"
+                        rows={2}
+                        value={editing.description}
+                        onChange={(event) => setEditing({ ...editing, description: event.target.value })}
+                      />
+                      {editErrors.description && (
+                        <span className="admin-field-error">{editErrors.description}</span>
+                      )}
+                    </label>
+                    <div className="button-row admin-field-full">
+                      <button type="button" className="admin-button" onClick={submitEdit} disabled={busy}>
+                        Guardar
+                      </button>
+                      <button
+                        type="button"
+                        className="admin-button admin-button-secondary"
+                        onClick={() => {
+                          setEditing(null);
+                          setEditErrors({});
+                        }}
+                        disabled={busy}
+                      >
+                        Cancelar
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="activity-headline">
+                      <span>
+                        {category.name} <span className="muted">· {category.slug}</span>
+                      </span>
+                      <span className="muted">#{category.sort_order}</span>
+                    </div>
+                    <div className="activity-meta">
+                      <span>Productos: {category.product_count}</span>
+                      <span>Artículos: {category.post_count}</span>
+                      {category.description && <span>{category.description}</span>}
+                    </div>
+                    <div className="button-row">
+                      <button
+                        type="button"
+                        className="admin-button admin-button-secondary admin-button-small"
+                        onClick={() => move(index, -1)}
+                        disabled={busy || index === 0}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="admin-button admin-button-secondary admin-button-small"
+                        onClick={() => move(index, 1)}
+                        disabled={busy || index === categories.length - 1}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        className="admin-button admin-button-secondary admin-button-small"
+                        onClick={() => {
+                          setEditing({
+                            slug: category.slug,
+                            new_slug: category.slug,
+                            name: category.name,
+                            description: category.description ?? '',
+                          });
+                          setEditErrors({});
+                        }}
+                        disabled={busy}
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        className="admin-button admin-button-danger admin-button-small"
+                        onClick={() => setDeleting({ slug: category.slug, reassignTo: '' })}
+                        disabled={busy}
+                      >
+                        Eliminar
+                      </button>
+                    </div>
+                  </>
+                )}
+
+                {deleting?.slug === category.slug && (
+                  <div className="warning-block">
+                    <p>
+                      ¿Eliminar {category.slug}?{' '}
+                      {category.product_count + category.post_count > 0
+                        ? `Tiene ${deleting.productCount ?? category.product_count} productos y ${
+                            deleting.postCount ?? category.post_count
+                          } artículos: elige una categoría de destino para reasignarlos.`
+                        : 'No tiene contenido asignado.'}
+                    </p>
+                    <div className="write-actions">
+                      <select
+                        className="admin-input"
+                        value={deleting.reassignTo}
+                        onChange={(event) => setDeleting({ ...deleting, reassignTo: event.target.value })}
+                      >
+                        <option value="">Sin reasignar</option>
+                        {categories
+                          .filter((option) => option.slug !== category.slug)
+                          .map((option) => (
+                            <option key={option.slug} value={option.slug}>
+                              {option.name}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        type="button"
+                        className="admin-button admin-button-danger"
+                        onClick={submitDelete}
+                        disabled={busy}
+                      >
+                        Confirmar eliminación
+                      </button>
+                      <button
+                        type="button"
+                        className="admin-button admin-button-secondary"
+                        onClick={() => setDeleting(null)}
+                        disabled={busy}
+                      >
+                        Cancelar
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {actionState.status === 'success' && actionState.message && (
+          <div className="success-block">{actionState.message}</div>
+        )}
+
+        {actionState.status === 'error' && actionState.errorCode && (
+          <div className="error-block">
+            {getErrorMessage(actionState.errorCode)} Código: {actionState.errorCode}
+            {actionState.details ? ` — ${actionState.details}` : ''}
+          </div>
+        )}
+      </section>
+
+      <section className="admin-card">
+        <div>
+          <h2 className="admin-card-title">Nueva categoría</h2>
+          <p className="admin-card-description">
+            El slug admite minúsculas, dígitos y guiones simples. Se añade al final del orden actual.
+          </p>
+        </div>
+        <div className="write-grid">
+          <label className="admin-field">
+            <span className="admin-field-label">slug</span>
+            <input
+              className={`admin-input${createErrors.slug ? ' admin-input-invalid' : ''}`}
+              placeholder="ej. valvulas-industriales"
+              value={createForm.slug}
+              onChange={(event) => setCreateForm((prev) => ({ ...prev, slug: event.target.value }))}
+            />
+            {createErrors.slug && <span className="admin-field-error">{createErrors.slug}</span>}
+          </label>
+          <label className="admin-field">
+            <span className="admin-field-label">name</span>
+            <input
+              className={`admin-input${createErrors.name ? ' admin-input-invalid' : ''}`}
+              placeholder="Válvulas industriales"
+              value={createForm.name}
+              onChange={(event) => setCreateForm((prev) => ({ ...prev, name: event.target.value }))}
+            />
+            {createErrors.name && <span className="admin-field-error">{createErrors.name}</span>}
+          </label>
+          <label className="admin-field admin-field-full">
+            <span className="admin-field-label">description</span>
+            <textarea
+              className="admin-textarea"
+              rows={2}
+              value={createForm.description}
+              onChange={(event) => setCreateForm((prev) => ({ ...prev, description: event.target.value }))}
+            />
+            {createErrors.description && <span className="admin-field-error">{createErrors.description}</span>}
+          </label>
+        </div>
+        <button
+          type="button"
+          className="admin-button"
+          onClick={submitCreate}
+          disabled={!tidbConfigured || busy || !createForm.slug.trim() || !createForm.name.trim()}
+        >
+          Crear categoría
+        </button>
+      </section>
+    </div>
+  );
+}
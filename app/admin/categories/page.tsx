@@ -0,0 +1,33 @@
+import CategoriesPanel, { type CategoriesPanelProps } from './categories-panel';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { listCategories } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+
+export default async function AdminCategoriesPage() {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+
+  let categories: CategoriesPanelProps['categories'] = [];
+  let loadError: CategoriesPanelProps['loadError'] = null;
+
+  if (tidbConfigured) {
+    try {
+      categories = await listCategories();
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_categories_load_error', { code: info.code, message: info.message });
+      loadError = { code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message };
+    }
+  }
+
+  const props: CategoriesPanelProps = {
+    sessionToken: adminConfig ? await issueAdminSessionToken(adminConfig) : null,
+    tidbConfigured,
+    categories,
+    loadError,
+  };
+
+  return <CategoriesPanel {...props} />;
+}
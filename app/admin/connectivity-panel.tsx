@@ -2,18 +2,27 @@
 
 import { useCallback, useMemo, useState } from 'react';
 
+import type { CloudflarePurgeMode } from '@/lib/server/cloudflare/purge';
+import type { PurgeHistoryPage, PurgeHistoryRecord } from '@/lib/server/tidb/purge-history';
+import type { PurgeQueueSummary } from '@/lib/server/tidb/purge-queue';
+
+import { formatJson, formatTimestampLabel, useAdminApi } from './admin-client';
+
 export interface ConnectivityPanelProps {
   sessionToken: string | null;
   cloudflare: {
     hasImagesCredentials: boolean;
     hasPurgeCredentials: boolean;
+    configError: string | null;
     includeProductUrls: boolean;
     enablePurgeOnPublish: boolean;
-    zoneIdLabel: string | null;
+    sites: Array<{ id: string; hostnames: string[]; urlPatterns: string[]; zoneIdLabel: string | null }>;
   };
   tidbConfigured: boolean;
   algoliaConfigured: boolean;
   algoliaIndexName?: string | null;
+  purgeHistory: PurgeHistoryPage | null;
+  purgeQueue: PurgeQueueSummary | null;
 }
 
 type ActionStatus = 'idle' | 'loading' | 'success' | 'error';
@@ -22,7 +31,11 @@ type CloudflareAction =
   | 'test'
   | 'purge-sitemaps'
   | 'purge-last-batch'
-  | 'purge-everything';
+  | 'purge-everything'
+  | 'purge-targets'
+  | 'queue-run'
+  | 'rerun'
+  | 'replay';
 
 interface CloudflareActivityEntry {
   id: string;
@@ -35,6 +48,25 @@ interface CloudflareActivityEntry {
   details?: string;
 }
 
+interface ZoneHealthEntry {
+  site: string;
+  ok: boolean;
+  status: number;
+  latency_ms: number;
+  zone_name: string | null;
+  zone_status: string | null;
+  unmatched_hostnames: string[];
+  ray_ids: string[];
+  error_code?: string;
+}
+
+interface ZoneHealthResult {
+  status: ActionStatus;
+  timestamp?: string;
+  zones: ZoneHealthEntry[];
+  errorCode?: string;
+}
+
 interface TidbResult {
   status: ActionStatus;
   timestamp?: string;
@@ -69,7 +101,10 @@ interface RevalidateResult {
   errorCode?: string;
 }
 
-const CLOUD_FLARE_ENDPOINTS: Record<CloudflareAction, { url: string; method: 'GET' | 'POST' }> = {
+const CLOUD_FLARE_ENDPOINTS: Record<
+  Exclude<CloudflareAction, 'rerun' | 'replay'>,
+  { url: string; method: 'GET' | 'POST' }
+> = {
   test: { url: '/api/admin/connectivity/cloudflare/test', method: 'GET' },
   'purge-sitemaps': {
     url: '/api/admin/connectivity/cloudflare/purge-sitemaps',
@@ -83,8 +118,26 @@ const CLOUD_FLARE_ENDPOINTS: Record<CloudflareAction, { url: string; method: 'GE
     url: '/api/admin/connectivity/cloudflare/purge-everything',
     method: 'POST',
   },
+  'purge-targets': {
+    url: '/api/admin/connectivity/cloudflare/purge',
+    method: 'POST',
+  },
+  'queue-run': {
+    url: '/api/admin/connectivity/cloudflare/queue/run',
+    method: 'POST',
+  },
 };
 
+const PURGE_TARGET_MODES: Array<{ value: CloudflarePurgeMode; label: string; placeholder: string }> = [
+  { value: 'files', label: 'URLs', placeholder: 'https://example.com/p/producto' },
+  { value: 'tags', label: 'Cache tags', placeholder: 'product:producto\ncategory:valvulas' },
+  { value: 'prefixes', label: 'Prefijos', placeholder: 'example.com/c/valvulas' },
+  { value: 'hosts', label: 'Hosts', placeholder: 'www.example.com' },
+];
+
+const PURGE_HISTORY_ENDPOINT = '/api/admin/connectivity/cloudflare/history';
+const PURGE_QUEUE_ENDPOINT = '/api/admin/connectivity/cloudflare/queue';
+const ZONES_ENDPOINT = { url: '/api/admin/connectivity/cloudflare/zones', method: 'GET' as const };
 const TIDB_ENDPOINT = { url: '/api/admin/connectivity/tidb', method: 'GET' as const };
 const TIDB_WRITE_ENDPOINT = {
   url: '/api/admin/connectivity/tidb/update',
@@ -130,17 +183,6 @@ function formatLatency(value?: number): string {
   return `${value} ms`;
 }
 
-function formatTimestampLabel(value?: string): string {
-  if (!value) {
-    return '—';
-  }
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) {
-    return value;
-  }
-  return date.toLocaleString();
-}
-
 function formatRayIds(rayIds: string[]): string {
   if (!rayIds || rayIds.length === 0) {
     return '—';
@@ -148,14 +190,6 @@ function formatRayIds(rayIds: string[]): string {
   return rayIds.join(', ');
 }
 
-function formatJson(value: unknown): string {
-  try {
-    return JSON.stringify(value, null, 2);
-  } catch (_error) {
-    return String(value);
-  }
-}
-
 function getCloudflareActionLabel(action: CloudflareAction): string {
   switch (action) {
     case 'test':
@@ -166,29 +200,43 @@ function getCloudflareActionLabel(action: CloudflareAction): string {
       return 'Purge Last Batch URLs';
     case 'purge-everything':
       return 'Purge Everything';
+    case 'purge-targets':
+      return 'Selective Purge';
+    case 'queue-run':
+      return 'Process Purge Queue';
+    case 'rerun':
+      return 'Re-run Purge';
+    case 'replay':
+      return 'Replay Dead Letters';
     default:
       return action;
   }
 }
 
-type ApiResponse<T extends Record<string, unknown>> = {
-  ok: boolean;
-  error_code?: string;
-  latency_ms?: number;
-  ray_ids?: string[];
-  details?: string;
-} & T;
-
-async function readJson<T>(response: Response): Promise<T> {
-  const text = await response.text();
-  try {
-    return JSON.parse(text) as T;
-  } catch (error) {
-    console.error('connectivity_panel_parse_error', {
-      error: (error as Error)?.message,
-      snippet: text.slice(0, 120),
-    });
-    throw error;
+function getPurgeTargetsLabel(entry: PurgeHistoryRecord): string {
+  switch (entry.mode) {
+    case 'tags':
+      return `${entry.urls.length} tags`;
+    case 'prefixes':
+      return `${entry.urls.length} prefijos`;
+    case 'hosts':
+      return `${entry.urls.length} hosts`;
+    default:
+      return `${entry.urls.length} URLs`;
+  }
+}
+
+function getPurgeHistoryLabel(entry: PurgeHistoryRecord): string {
+  const mode = entry.mode === 'purge_everything' ? 'Purge Everything' : `Purge ${getPurgeTargetsLabel(entry)}`;
+  switch (entry.source) {
+    case 'publish':
+      return `${mode} · publicación`;
+    case 'rerun':
+      return `${mode} · re-ejecución de #${entry.rerun_of ?? '?'}`;
+    case 'queue':
+      return `${mode} · cola`;
+    default:
+      return `${mode} · manual`;
   }
 }
 
@@ -198,16 +246,25 @@ export default function ConnectivityPanel(props: ConnectivityPanelProps) {
   const [cloudflareState, setCloudflareState] = useState<{
     status: ActionStatus;
     runningAction: CloudflareAction | null;
+    runningTargetId: string | null;
     lastResult: CloudflareActivityEntry | null;
-    activity: CloudflareActivityEntry[];
-    hasRecordedBatch: boolean;
   }>(() => ({
     status: 'idle',
     runningAction: null,
+    runningTargetId: null,
     lastResult: null,
-    activity: [],
-    hasRecordedBatch: false,
   }));
+  const [purgeHistory, setPurgeHistory] = useState<PurgeHistoryRecord[]>(props.purgeHistory?.entries ?? []);
+  const [purgeHistoryCursor, setPurgeHistoryCursor] = useState<string | null>(
+    props.purgeHistory?.next_cursor ?? null
+  );
+  const [purgeHistoryLoading, setPurgeHistoryLoading] = useState(false);
+  const [purgeQueue, setPurgeQueue] = useState<PurgeQueueSummary | null>(props.purgeQueue);
+  const [zoneHealth, setZoneHealth] = useState<ZoneHealthResult>({ status: 'idle', zones: [] });
+  const [purgeTargetsForm, setPurgeTargetsForm] = useState<{ mode: CloudflarePurgeMode; values: string }>({
+    mode: 'tags',
+    values: '',
+  });
 
   const [tidbWriteForm, setTidbWriteForm] = useState({
     slug: '',
@@ -232,48 +289,77 @@ export default function ConnectivityPanel(props: ConnectivityPanelProps) {
     );
   }, [tidbWriteForm]);
 
-  const callEndpoint = useCallback(
-    async <T extends Record<string, unknown>>(
-      url: string,
-      method: 'GET' | 'POST',
-      body?: unknown
-    ): Promise<ApiResponse<T>> => {
-      const headers: Record<string, string> = { Accept: 'application/json' };
-      if (sessionToken) {
-        headers.Authorization = `Bearer ${sessionToken}`;
+  const callEndpoint = useAdminApi(sessionToken);
+
+  const loadPurgeHistory = useCallback(
+    async (cursor: string | null) => {
+      if (!tidbConfigured) {
+        return;
       }
-      let requestBody: BodyInit | undefined;
-      if (method === 'POST') {
-        headers['Content-Type'] = 'application/json';
-        requestBody = body !== undefined ? JSON.stringify(body) : JSON.stringify({});
+      setPurgeHistoryLoading(true);
+      try {
+        const params = new URLSearchParams({ limit: '10' });
+        if (cursor) {
+          params.set('cursor', cursor);
+        }
+        const data = await callEndpoint<Partial<PurgeHistoryPage>>(
+          `${PURGE_HISTORY_ENDPOINT}?${params.toString()}`,
+          'GET'
+        );
+        if (!data.ok) {
+          console.warn('cloudflare_purge_history_load_failure', { errorCode: data.error_code });
+          return;
+        }
+        const entries = data.entries ?? [];
+        setPurgeHistory((prev) => (cursor ? [...prev, ...entries] : entries));
+        setPurgeHistoryCursor(data.next_cursor ?? null);
+      } catch (error) {
+        console.error('cloudflare_purge_history_load_failed', { error: (error as Error)?.message });
+      } finally {
+        setPurgeHistoryLoading(false);
       }
-
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: requestBody,
-        credentials: 'include',
-      });
-      const json = await readJson<ApiResponse<T>>(response);
-      return json;
     },
-    [sessionToken]
+    [callEndpoint, tidbConfigured]
   );
 
+  const loadPurgeQueue = useCallback(async () => {
+    if (!tidbConfigured) {
+      return;
+    }
+    try {
+      const data = await callEndpoint<Partial<PurgeQueueSummary>>(PURGE_QUEUE_ENDPOINT, 'GET');
+      if (!data.ok) {
+        console.warn('cloudflare_purge_queue_load_failure', { errorCode: data.error_code });
+        return;
+      }
+      setPurgeQueue({
+        pending: data.pending ?? 0,
+        dead: data.dead ?? 0,
+        next_attempt_at: data.next_attempt_at ?? null,
+        dead_letters: data.dead_letters ?? [],
+      });
+    } catch (error) {
+      console.error('cloudflare_purge_queue_load_failed', { error: (error as Error)?.message });
+    }
+  }, [callEndpoint, tidbConfigured]);
+
   const runCloudflareAction = useCallback(
-    async (action: CloudflareAction) => {
-      const endpoint = CLOUD_FLARE_ENDPOINTS[action];
+    async (action: CloudflareAction, targetId: string | null = null, body?: unknown) => {
+      const endpoint =
+        action === 'rerun'
+          ? { url: `${PURGE_HISTORY_ENDPOINT}/${targetId}/rerun`, method: 'POST' as const }
+          : action === 'replay'
+            ? { url: `${PURGE_QUEUE_ENDPOINT}/dead-letters/${targetId}/replay`, method: 'POST' as const }
+            : CLOUD_FLARE_ENDPOINTS[action];
       setCloudflareState((prev) => ({
         ...prev,
         status: 'loading',
         runningAction: action,
+        runningTargetId: targetId,
       }));
 
       try {
-        const data = await callEndpoint<Record<string, unknown>>(
-          endpoint.url,
-          endpoint.method
-        );
+        const data = await callEndpoint<Record<string, unknown>>(endpoint.url, endpoint.method, body);
         const timestamp = new Date().toISOString();
         const entry: CloudflareActivityEntry = {
           id: `${timestamp}-${action}`,
@@ -288,28 +374,19 @@ export default function ConnectivityPanel(props: ConnectivityPanelProps) {
 
         console[data.ok ? 'info' : 'warn']('cloudflare_admin_action', {
           action,
+          targetId,
           ok: data.ok,
           errorCode: data.error_code,
           latencyMs: data.latency_ms,
           rayIds: entry.rayIds,
         });
 
-        setCloudflareState((prev) => ({
+        setCloudflareState({
           status: data.ok ? 'success' : 'error',
           runningAction: null,
+          runningTargetId: null,
           lastResult: entry,
-          activity: [entry, ...prev.activity].slice(0, 10),
-          hasRecordedBatch:
-            action === 'purge-sitemaps'
-              ? data.ok || prev.hasRecordedBatch
-              : action === 'purge-last-batch'
-              ? data.ok
-                ? true
-                : data.error_code === 'no_previous_batch'
-                ? false
-                : prev.hasRecordedBatch
-              : prev.hasRecordedBatch,
-        }));
+        });
       } catch (error) {
         const timestamp = new Date().toISOString();
         const entry: CloudflareActivityEntry = {
@@ -323,20 +400,64 @@ export default function ConnectivityPanel(props: ConnectivityPanelProps) {
         };
         console.error('cloudflare_admin_action_failed', {
           action,
+          targetId,
           error: (error as Error)?.message,
         });
-        setCloudflareState((prev) => ({
+        setCloudflareState({
           status: 'error',
           runningAction: null,
+          runningTargetId: null,
           lastResult: entry,
-          activity: [entry, ...prev.activity].slice(0, 10),
-          hasRecordedBatch: prev.hasRecordedBatch,
-        }));
+        });
+      }
+
+      if (action !== 'test') {
+        await Promise.all([loadPurgeHistory(null), loadPurgeQueue()]);
       }
     },
-    [callEndpoint]
+    [callEndpoint, loadPurgeHistory, loadPurgeQueue]
   );
 
+  const hasRecordedBatch = useMemo(
+    () => purgeHistory.some((entry) => entry.mode === 'files' && entry.urls.length > 0),
+    [purgeHistory]
+  );
+
+  const purgeTargetValues = useMemo(
+    () =>
+      purgeTargetsForm.values
+        .split('\n')
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0),
+    [purgeTargetsForm.values]
+  );
+
+  const checkZones = useCallback(async () => {
+    setZoneHealth((prev) => ({ ...prev, status: 'loading' }));
+    try {
+      const data = await callEndpoint<{ zones?: ZoneHealthEntry[] }>(ZONES_ENDPOINT.url, ZONES_ENDPOINT.method);
+      setZoneHealth({
+        status: data.ok ? 'success' : 'error',
+        timestamp: new Date().toISOString(),
+        zones: data.zones ?? [],
+        errorCode: data.ok ? undefined : data.error_code,
+      });
+      console[data.ok ? 'info' : 'warn']('cloudflare_zone_health_action', {
+        ok: data.ok,
+        errorCode: data.error_code,
+        zones: (data.zones ?? []).map((zone) => ({ site: zone.site, ok: zone.ok })),
+      });
+    } catch (error) {
+      console.error('cloudflare_zone_health_action_failed', { error: (error as Error)?.message });
+      setZoneHealth({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        zones: [],
+        errorCode: 'network_error',
+      });
+    }
+  }, [callEndpoint]);
+
   const updateTidbWriteField = useCallback(
     (field: keyof typeof tidbWriteForm, value: string) => {
       setTidbWriteForm((prev) => ({ ...prev, [field]: value }));
@@ -521,8 +642,10 @@ export default function ConnectivityPanel(props: ConnectivityPanelProps) {
 
         <div className="metric-grid">
           <div className="metric-block">
-            <span className="metric-label">Zone ID</span>
-            <span className="metric-value">{cloudflare.zoneIdLabel ?? '—'}</span>
+            <span className="metric-label">Zonas</span>
+            <span className="metric-value">
+              {cloudflare.sites.length === 1 ? cloudflare.sites[0].zoneIdLabel ?? '—' : cloudflare.sites.length}
+            </span>
             <span className="metric-secondary">
               Autopurge {cloudflare.enablePurgeOnPublish ? 'habilitado' : 'deshabilitado'} · Productos{' '}
               {cloudflare.includeProductUrls ? 'incluidos' : 'omitidos'}
@@ -583,7 +706,7 @@ export default function ConnectivityPanel(props: ConnectivityPanelProps) {
             disabled={
               !cloudflare.hasPurgeCredentials ||
               Boolean(cloudflareState.runningAction) ||
-              !cloudflareState.hasRecordedBatch
+              !hasRecordedBatch
             }
           >
             {cloudflareState.runningAction === 'purge-last-batch'
@@ -604,38 +727,246 @@ export default function ConnectivityPanel(props: ConnectivityPanelProps) {
           </button>
         </div>
 
-        {!cloudflare.hasPurgeCredentials && (
+        <div className="write-grid">
+          <label className="admin-field">
+            <span className="admin-field-label">Purga selectiva</span>
+            <select
+              className="admin-input"
+              value={purgeTargetsForm.mode}
+              onChange={(event) =>
+                setPurgeTargetsForm((prev) => ({ ...prev, mode: event.target.value as CloudflarePurgeMode }))
+              }
+            >
+              {PURGE_TARGET_MODES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="admin-field admin-field-full">
+            <span className="admin-field-label">Valores (uno por línea)</span>
+            <textarea
+              className="admin-textarea"
+              rows={3}
+              placeholder={PURGE_TARGET_MODES.find((option) => option.value === purgeTargetsForm.mode)?.placeholder}
+              value={purgeTargetsForm.values}
+              onChange={(event) => setPurgeTargetsForm((prev) => ({ ...prev, values: event.target.value }))}
+            />
+          </label>
+        </div>
+
+        <div className="button-row">
+          <button
+            type="button"
+            className="admin-button"
+            onClick={() =>
+              runCloudflareAction('purge-targets', null, {
+                mode: purgeTargetsForm.mode,
+                values: purgeTargetValues,
+              })
+            }
+            disabled={
+              !cloudflare.hasPurgeCredentials ||
+              Boolean(cloudflareState.runningAction) ||
+              purgeTargetValues.length === 0
+            }
+          >
+            {cloudflareState.runningAction === 'purge-targets' ? 'Purging…' : 'Run Selective Purge'}
+          </button>
+        </div>
+
+        {cloudflare.configError && <div className="error-block">{cloudflare.configError}</div>}
+
+        {!cloudflare.hasPurgeCredentials && !cloudflare.configError && (
           <div className="warning-block">
-            Configura CLOUDFLARE_ZONE_ID y CLOUDFLARE_API_TOKEN para habilitar las purgas manuales.
+            Configura CLOUDFLARE_SITES (o CLOUDFLARE_ZONE_ID y CLOUDFLARE_API_TOKEN) para habilitar las purgas
+            manuales.
+          </div>
+        )}
+
+        {cloudflare.sites.length > 0 && (
+          <div>
+            <span className="metric-label">Sitios y zonas</span>
+            <div className="activity-list">
+              {cloudflare.sites.map((site) => {
+                const health = zoneHealth.zones.find((zone) => zone.site === site.id);
+                const healthStatus: ActionStatus = health ? (health.ok ? 'success' : 'error') : zoneHealth.status;
+                return (
+                  <div key={site.id} className="activity-item">
+                    <div className="activity-headline">
+                      <span>
+                        {site.id} · {site.zoneIdLabel ?? '—'}
+                      </span>
+                      <span className={getStatusClass(healthStatus)}>
+                        {health && !health.ok ? health.error_code ?? 'Error' : getStatusLabel(healthStatus)}
+                      </span>
+                    </div>
+                    <div className="activity-meta">
+                      <span>Hosts: {site.hostnames.length > 0 ? site.hostnames.join(', ') : '—'}</span>
+                      <span>Rutas: {site.urlPatterns.length > 0 ? site.urlPatterns.join(', ') : 'todas'}</span>
+                      {health && (
+                        <>
+                          <span>
+                            Zona: {health.zone_name ?? '—'} ({health.zone_status ?? 'desconocida'})
+                          </span>
+                          <span>Latencia: {formatLatency(health.latency_ms)}</span>
+                          <span>Ray IDs: {formatRayIds(health.ray_ids)}</span>
+                        </>
+                      )}
+                    </div>
+                    {health && health.unmatched_hostnames.length > 0 && (
+                      <div className="activity-error">
+                        Hosts fuera de la zona: {health.unmatched_hostnames.join(', ')}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="button-row">
+              <button
+                type="button"
+                className="admin-button admin-button-secondary"
+                onClick={checkZones}
+                disabled={zoneHealth.status === 'loading'}
+              >
+                {zoneHealth.status === 'loading' ? 'Checking…' : 'Check Zones'}
+              </button>
+              {zoneHealth.timestamp && (
+                <span className="activity-meta">
+                  Última comprobación: {formatTimestampLabel(zoneHealth.timestamp)}
+                </span>
+              )}
+            </div>
           </div>
         )}
 
         <div>
-          <span className="metric-label">Actividad reciente</span>
-          {cloudflareState.activity.length === 0 ? (
-            <p className="muted">No hay ejecuciones registradas todavía.</p>
+          <span className="metric-label">Cola de purgas</span>
+          {!tidbConfigured || !purgeQueue ? (
+            <p className="muted">Configura TiDB para encolar las purgas de publicación y reintentarlas.</p>
+          ) : (
+            <>
+              <div className="activity-meta">
+                <span>Pendientes: {purgeQueue.pending}</span>
+                <span>Próximo intento: {formatTimestampLabel(purgeQueue.next_attempt_at)}</span>
+                <span className={getStatusClass(purgeQueue.dead > 0 ? 'error' : 'success')}>
+                  Fallidas: {purgeQueue.dead}
+                </span>
+              </div>
+              <div className="button-row">
+                <button
+                  type="button"
+                  className="admin-button admin-button-secondary"
+                  onClick={() => runCloudflareAction('queue-run')}
+                  disabled={!cloudflare.hasPurgeCredentials || Boolean(cloudflareState.runningAction)}
+                >
+                  {cloudflareState.runningAction === 'queue-run' ? 'Processing…' : 'Process Queue'}
+                </button>
+              </div>
+              {purgeQueue.dead_letters.length > 0 && (
+                <div className="activity-list">
+                  {purgeQueue.dead_letters.map((batch) => (
+                    <div key={batch.batch_id} className="activity-item">
+                      <div className="activity-headline">
+                        <span>
+                          {batch.targets.length} {batch.mode} · {batch.attempts} intentos
+                        </span>
+                        <span>{formatTimestampLabel(batch.failed_at)}</span>
+                      </div>
+                      {batch.last_error && <div className="activity-error">Error: {batch.last_error}</div>}
+                      <details>
+                        <summary className="activity-meta">Ver destinos</summary>
+                        <ul className="activity-meta">
+                          {batch.targets.map((target) => (
+                            <li key={target}>{target}</li>
+                          ))}
+                        </ul>
+                      </details>
+                      <div className="button-row">
+                        <button
+                          type="button"
+                          className="admin-button admin-button-secondary admin-button-small"
+                          onClick={() => runCloudflareAction('replay', batch.batch_id)}
+                          disabled={!cloudflare.hasPurgeCredentials || Boolean(cloudflareState.runningAction)}
+                        >
+                          {cloudflareState.runningTargetId === batch.batch_id ? 'Purging…' : 'Replay'}
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div>
+          <span className="metric-label">Historial de purgas</span>
+          {!tidbConfigured ? (
+            <p className="muted">Configura TiDB para conservar el historial de purgas entre despliegues.</p>
+          ) : purgeHistory.length === 0 ? (
+            <p className="muted">No hay purgas registradas todavía.</p>
           ) : (
             <div className="activity-list">
-              {cloudflareState.activity.map((entry) => (
+              {purgeHistory.map((entry) => (
                 <div key={entry.id} className="activity-item">
                   <div className="activity-headline">
-                    <span>{getCloudflareActionLabel(entry.action)}</span>
-                    <span>{formatTimestampLabel(entry.timestamp)}</span>
+                    <span>
+                      #{entry.id} · {getPurgeHistoryLabel(entry)}
+                    </span>
+                    <span>{formatTimestampLabel(entry.created_at)}</span>
                   </div>
                   <div className="activity-meta">
-                    <span>Latencia: {formatLatency(entry.latencyMs)}</span>
-                    <span>Ray IDs: {formatRayIds(entry.rayIds)}</span>
+                    <span className={getStatusClass(entry.status === 'success' ? 'success' : 'error')}>
+                      {entry.status === 'success' ? 'OK' : 'Error'}
+                      {entry.http_status ? ` · HTTP ${entry.http_status}` : ''}
+                    </span>
+                    <span>Latencia: {formatLatency(entry.latency_ms)}</span>
+                    <span>Intentos: {entry.attempts}</span>
+                    <span>Ray IDs: {formatRayIds(entry.ray_ids)}</span>
+                    <span>Actor: {entry.actor ?? '—'}</span>
                   </div>
-                  {!entry.ok && (
-                    <div className="activity-error">
-                      Error: {entry.errorCode ?? 'unknown'}{' '}
-                      {entry.details ? `— ${entry.details}` : ''}
-                    </div>
+                  {entry.urls.length > 0 && (
+                    <details>
+                      <summary className="activity-meta">Ver {getPurgeTargetsLabel(entry)}</summary>
+                      <ul className="activity-meta">
+                        {entry.urls.map((url) => (
+                          <li key={url}>{url}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                  {entry.status === 'error' && entry.error && (
+                    <div className="activity-error">Error: {entry.error}</div>
                   )}
+                  <div className="button-row">
+                    <button
+                      type="button"
+                      className="admin-button admin-button-secondary admin-button-small"
+                      onClick={() => runCloudflareAction('rerun', entry.id)}
+                      disabled={!cloudflare.hasPurgeCredentials || Boolean(cloudflareState.runningAction)}
+                    >
+                      {cloudflareState.runningTargetId === entry.id ? 'Purging…' : 'Re-ejecutar'}
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
           )}
+          {tidbConfigured && purgeHistoryCursor && (
+            <div className="button-row">
+              <button
+                type="button"
+                className="admin-button admin-button-secondary"
+                onClick={() => loadPurgeHistory(purgeHistoryCursor)}
+                disabled={purgeHistoryLoading}
+              >
+                {purgeHistoryLoading ? 'Cargando…' : 'Cargar más'}
+              </button>
+            </div>
+          )}
         </div>
       </section>
 
@@ -0,0 +1,878 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCallback, useMemo, useState } from 'react';
+
+import type { HtmlStrippedReport } from '@/lib/server/html-sanitizer';
+import type { CategoryOption } from '@/lib/server/tidb/categories';
+import type { BlogFieldDefinition, BlogPostSummary } from '@/lib/server/tidb/posts';
+
+import { formatStrippedHtml, formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface BlogEditorProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+  slug: string | null;
+  post: Record<string, unknown> | null;
+  posts: BlogPostSummary[];
+  categories: CategoryOption[];
+  loadError: { code: string; details?: string } | null;
+  fields: BlogFieldDefinition[];
+}
+
+type FieldName = BlogFieldDefinition['name'];
+type FormValues = Record<string, string>;
+type SaveStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface SaveState {
+  status: SaveStatus;
+  timestamp?: string;
+  rowsAffected?: number;
+  strippedHtml?: string[];
+  errorCode?: string;
+  details?: string;
+}
+
+interface PreviewState extends SaveState {
+  url?: string;
+  expiresAt?: string;
+}
+
+interface FieldGroup {
+  title: string;
+  description: string;
+  fields: FieldName[];
+}
+
+const POSTS_ENDPOINT = '/api/blog/posts';
+
+const FIELD_GROUPS: FieldGroup[] = [
+  {
+    title: 'Contenido',
+    description: 'Títulos, resumen y cuerpo HTML del artículo.',
+    fields: ['title', 'title_h1', 'short_summary', 'content_html'],
+  },
+  {
+    title: 'Publicación',
+    description: 'Categoría, fecha de publicación y programación (UTC) y visibilidad del artículo.',
+    fields: ['category_slug', 'published_at', 'scheduled_at', 'is_published'],
+  },
+  {
+    title: 'Llamadas a la acción',
+    description: 'Botones principal y secundario. Las URLs deben empezar con http:// o https://.',
+    fields: ['primary_cta_label', 'primary_cta_url', 'secondary_cta_label', 'secondary_cta_url'],
+  },
+  {
+    title: 'Imagen y SEO',
+    description: 'Imagen principal y etiquetas meta del artículo.',
+    fields: ['hero_image_url', 'seo_title', 'seo_description'],
+  },
+];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function toUtcInputValue(value: unknown): string {
+  if (value == null || value === '') {
+    return '';
+  }
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    return '';
+  }
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}T${pad(
+    date.getUTCHours()
+  )}:${pad(date.getUTCMinutes())}`;
+}
+
+function toFormValue(value: unknown, field: BlogFieldDefinition): string {
+  if (field.type === 'boolean') {
+    return Boolean(Number(value)) ? 'true' : 'false';
+  }
+  if (field.type === 'datetime') {
+    return toUtcInputValue(value);
+  }
+  return value == null ? '' : String(value);
+}
+
+function toPayloadValue(value: string, field: BlogFieldDefinition): unknown {
+  if (field.type === 'boolean') {
+    return value === 'true';
+  }
+  if (field.type === 'datetime') {
+    return value ? `${value}:00Z` : null;
+  }
+  if (field.name === 'category_slug') {
+    return value || null;
+  }
+  return value;
+}
+
+function buildFormValues(post: Record<string, unknown> | null, fields: BlogFieldDefinition[]): FormValues {
+  const values: FormValues = {};
+  for (const field of fields) {
+    values[field.name] = toFormValue(post?.[field.name], field);
+  }
+  return values;
+}
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'post_not_found':
+      return 'No existe ningún artículo con ese slug.';
+    case 'slug_locked':
+      return 'El slug no se cambia al guardar; usa «Cambiar slug».';
+    case 'invalid_category':
+      return 'La categoría seleccionada no existe.';
+    case 'slug_exists':
+      return 'Ya existe un artículo con ese slug.';
+    case 'invalid_payload':
+      return 'Revisa los campos marcados.';
+    case 'stale_write':
+      return 'Otra persona guardó este artículo después de que lo abrieras.';
+    case 'timeout':
+      return 'TiDB no respondió a tiempo.';
+    case 'auth_failed':
+      return 'TiDB rechazó las credenciales configuradas.';
+    default:
+      return 'No se pudo completar la operación.';
+  }
+}
+
+export default function BlogEditor(props: BlogEditorProps) {
+  const { sessionToken, tidbConfigured, slug, post, posts, categories, loadError, fields } = props;
+  const callEndpoint = useAdminApi(sessionToken);
+  const router = useRouter();
+
+  const [filter, setFilter] = useState('');
+  const [current, setCurrent] = useState<Record<string, unknown> | null>(post);
+  const [baseline, setBaseline] = useState<FormValues>(() => buildFormValues(post, fields));
+  const [form, setForm] = useState<FormValues>(() => buildFormValues(post, fields));
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [saveState, setSaveState] = useState<SaveState>({ status: 'idle' });
+  const [staleRecord, setStaleRecord] = useState<Record<string, unknown> | null>(null);
+  const [createForm, setCreateForm] = useState({ title: '', slug: '' });
+  const [createErrors, setCreateErrors] = useState<Record<string, string>>({});
+  const [createState, setCreateState] = useState<SaveState>({ status: 'idle' });
+  const [unpublishState, setUnpublishState] = useState<SaveState>({ status: 'idle' });
+  const [deleteState, setDeleteState] = useState<SaveState>({ status: 'idle' });
+  const [previewState, setPreviewState] = useState<PreviewState>({ status: 'idle' });
+  const [renameInput, setRenameInput] = useState('');
+  const [renameErrors, setRenameErrors] = useState<Record<string, string>>({});
+  const [renameState, setRenameState] = useState<SaveState>({ status: 'idle' });
+
+  const fieldsByName = useMemo(() => {
+    const map = new Map<FieldName, BlogFieldDefinition>();
+    for (const field of fields) {
+      map.set(field.name, field);
+    }
+    return map;
+  }, [fields]);
+
+  const filteredPosts = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) {
+      return posts;
+    }
+    return posts.filter(
+      (item) => item.slug.toLowerCase().includes(query) || (item.title ?? '').toLowerCase().includes(query)
+    );
+  }, [filter, posts]);
+
+  const changedFields = useMemo(
+    () => fields.filter((field) => form[field.name] !== baseline[field.name]).map((field) => field.name),
+    [baseline, fields, form]
+  );
+
+  const isPublished = Boolean(Number(current?.is_published));
+
+  const updateField = useCallback((name: FieldName, value: string) => {
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => {
+      if (!(name in prev)) {
+        return prev;
+      }
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }, []);
+
+  const resetForm = useCallback(() => {
+    setForm(baseline);
+    setFieldErrors({});
+    setSaveState({ status: 'idle' });
+  }, [baseline]);
+
+  const resolveStale = useCallback(
+    (keepChanges: boolean) => {
+      if (!staleRecord) {
+        return;
+      }
+      const nextValues = buildFormValues(staleRecord, fields);
+      setCurrent(staleRecord);
+      setBaseline(nextValues);
+      if (!keepChanges) {
+        setForm(nextValues);
+      }
+      setStaleRecord(null);
+      setFieldErrors({});
+      setSaveState({ status: 'idle' });
+    },
+    [fields, staleRecord]
+  );
+
+  const savePost = useCallback(async () => {
+    if (!slug || changedFields.length === 0) {
+      return;
+    }
+
+    const payload: Record<string, unknown> = { expected_updated_at: current?.last_tidb_update_at ?? null };
+    for (const name of changedFields) {
+      const field = fieldsByName.get(name);
+      if (field) {
+        payload[name] = toPayloadValue(form[name], field);
+      }
+    }
+
+    setSaveState({ status: 'loading' });
+
+    try {
+      const data = await callEndpoint<{
+        rows_affected?: number;
+        post?: Record<string, unknown>;
+        current?: Record<string, unknown>;
+        stripped_html?: Record<string, HtmlStrippedReport>;
+      }>(
+        `${POSTS_ENDPOINT}/${encodeURIComponent(slug)}`,
+        'PUT',
+        payload
+      );
+      const timestamp = new Date().toISOString();
+
+      if (!data.ok) {
+        console.warn('admin_blog_editor_save_failure', { slug, errorCode: data.error_code });
+        setFieldErrors(data.field_errors ?? {});
+        setStaleRecord(data.error_code === 'stale_write' && data.current ? data.current : null);
+        setSaveState({
+          status: 'error',
+          timestamp,
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+
+      const nextPost = data.post ?? current;
+      const nextValues = buildFormValues(nextPost, fields);
+      setCurrent(nextPost);
+      setBaseline(nextValues);
+      setForm(nextValues);
+      setFieldErrors({});
+      setStaleRecord(null);
+      setSaveState({
+        status: 'success',
+        timestamp,
+        rowsAffected: typeof data.rows_affected === 'number' ? data.rows_affected : undefined,
+        strippedHtml: formatStrippedHtml(data.stripped_html),
+      });
+      console.info('admin_blog_editor_save', { slug, rowsAffected: data.rows_affected });
+    } catch (error) {
+      console.error('admin_blog_editor_save_failed', { slug, error: (error as Error)?.message });
+      setSaveState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, changedFields, current, fields, fieldsByName, form, slug]);
+
+  const createPost = useCallback(async () => {
+    const title = createForm.title.trim();
+    if (!title) {
+      return;
+    }
+    const payload: Record<string, unknown> = { title };
+    if (createForm.slug.trim()) {
+      payload.slug = createForm.slug.trim();
+    }
+    setCreateState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ post?: Record<string, unknown> }>(POSTS_ENDPOINT, 'POST', payload);
+      if (!data.ok || !data.post) {
+        console.warn('admin_blog_editor_create_failure', { title, errorCode: data.error_code });
+        setCreateErrors(data.field_errors ?? {});
+        setCreateState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      const newSlug = String(data.post.slug);
+      console.info('admin_blog_editor_create', { slug: newSlug });
+      setCreateState({ status: 'success', timestamp: new Date().toISOString() });
+      router.push(`/admin/edit-blog?slug=${encodeURIComponent(newSlug)}`);
+      router.refresh();
+    } catch (error) {
+      console.error('admin_blog_editor_create_failed', { error: (error as Error)?.message });
+      setCreateState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, createForm.slug, createForm.title, router]);
+
+  const unpublishPost = useCallback(async () => {
+    if (!slug) {
+      return;
+    }
+    setUnpublishState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ post?: Record<string, unknown> }>(
+        `${POSTS_ENDPOINT}/${encodeURIComponent(slug)}/unpublish`,
+        'POST'
+      );
+      const timestamp = new Date().toISOString();
+      if (!data.ok) {
+        console.warn('admin_blog_editor_unpublish_failure', { slug, errorCode: data.error_code });
+        setUnpublishState({
+          status: 'error',
+          timestamp,
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      const nextPost = data.post ?? current;
+      const nextValues = buildFormValues(nextPost, fields);
+      setCurrent(nextPost);
+      setBaseline(nextValues);
+      setForm(nextValues);
+      setFieldErrors({});
+      setUnpublishState({ status: 'success', timestamp });
+      console.info('admin_blog_editor_unpublish', { slug });
+      router.refresh();
+    } catch (error) {
+      console.error('admin_blog_editor_unpublish_failed', { slug, error: (error as Error)?.message });
+      setUnpublishState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, current, fields, router, slug]);
+
+  const createPreviewLink = useCallback(async () => {
+    if (!slug) {
+      return;
+    }
+    setPreviewState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ url?: string; expires_at?: string }>(
+        `${POSTS_ENDPOINT}/${encodeURIComponent(slug)}/preview`,
+        'POST'
+      );
+      const timestamp = new Date().toISOString();
+      if (!data.ok || typeof data.url !== 'string') {
+        console.warn('admin_blog_editor_preview_failure', { slug, errorCode: data.error_code });
+        setPreviewState({
+          status: 'error',
+          timestamp,
+          errorCode: data.error_code ?? 'unknown',
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      console.info('admin_blog_editor_preview', { slug, expiresAt: data.expires_at });
+      setPreviewState({ status: 'success', timestamp, url: data.url, expiresAt: data.expires_at });
+    } catch (error) {
+      console.error('admin_blog_editor_preview_failed', { slug, error: (error as Error)?.message });
+      setPreviewState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, slug]);
+
+  const deletePost = useCallback(async () => {
+    if (!slug || !window.confirm(`¿Eliminar el artículo ${slug}? Esta acción no se puede deshacer.`)) {
+      return;
+    }
+    setDeleteState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<Record<string, unknown>>(
+        `${POSTS_ENDPOINT}/${encodeURIComponent(slug)}`,
+        'DELETE'
+      );
+      if (!data.ok) {
+        console.warn('admin_blog_editor_delete_failure', { slug, errorCode: data.error_code });
+        setDeleteState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      console.info('admin_blog_editor_delete', { slug });
+      setDeleteState({ status: 'success', timestamp: new Date().toISOString() });
+      router.push('/admin/edit-blog');
+      router.refresh();
+    } catch (error) {
+      console.error('admin_blog_editor_delete_failed', { slug, error: (error as Error)?.message });
+      setDeleteState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, router, slug]);
+
+  const renamePost = useCallback(async () => {
+    const newSlug = renameInput.trim();
+    if (!slug || !newSlug) {
+      return;
+    }
+    if (!window.confirm(`¿Cambiar el slug de ${slug} a ${newSlug}? /b/${slug} redirigirá con 301.`)) {
+      return;
+    }
+    setRenameState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ post?: Record<string, unknown> }>(
+        `${POSTS_ENDPOINT}/${encodeURIComponent(slug)}/rename`,
+        'POST',
+        { new_slug: newSlug, expected_updated_at: current?.last_tidb_update_at ?? null }
+      );
+      if (!data.ok) {
+        console.warn('admin_blog_editor_rename_failure', { slug, newSlug, errorCode: data.error_code });
+        setRenameErrors(data.field_errors ?? {});
+        setRenameState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      console.info('admin_blog_editor_rename', { slug, newSlug, rayIds: data.ray_ids });
+      setRenameState({ status: 'success', timestamp: new Date().toISOString() });
+      router.push(`/admin/edit-blog?slug=${encodeURIComponent(newSlug)}`);
+      router.refresh();
+    } catch (error) {
+      console.error('admin_blog_editor_rename_failed', { slug, error: (error as Error)?.message });
+      setRenameState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, current, renameInput, router, slug]);
+
+  const renderField = (name: FieldName) => {
+    const field = fieldsByName.get(name);
+    if (!field) {
+      return null;
+    }
+    const value = form[name] ?? '';
+    const error = fieldErrors[name];
+    const dirty = value !== baseline[name];
+    const label = (
+      <span className="admin-field-label">
+        {name}
+        {field.type === 'datetime' ? ' (UTC)' : ''}
+        {dirty && <span className="admin-field-dirty"> · modificado</span>}
+      </span>
+    );
+
+    if (field.type === 'boolean') {
+      return (
+        <label key={name} className="admin-field admin-field-inline">
+          <input
+            type="checkbox"
+            checked={value === 'true'}
+            onChange={(event) => updateField(name, event.target.checked ? 'true' : 'false')}
+          />
+          {label}
+          {error && <span className="admin-field-error">{error}</span>}
+        </label>
+      );
+    }
+
+    if (name === 'category_slug') {
+      const known = categories.some((category) => category.slug === value);
+      return (
+        <label key={name} className="admin-field">
+          {label}
+          <select
+            className={`admin-input${error ? ' admin-input-invalid' : ''}`}
+            value={value}
+            onChange={(event) => updateField(name, event.target.value)}
+          >
+            <option value="">Sin categoría</option>
+            {!known && value && <option value={value}>{value} (desconocida)</option>}
+            {categories.map((category) => (
+              <option key={category.slug} value={category.slug}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          {error && <span className="admin-field-error">{error}</span>}
+        </label>
+      );
+    }
+
+    const multiline = field.type === 'text' || field.type === 'html';
+    const length = value.trim().length;
+    const overLimit = field.maxLength !== null && length > field.maxLength;
+    const inputClass = error ? ' admin-input-invalid' : '';
+
+    return (
+      <label key={name} className={`admin-field${multiline ? ' admin-field-full' : ''}`}>
+        {label}
+        {multiline ? (
+          <textarea
+            className={`admin-textarea${inputClass}`}
+            rows={field.type === 'html' ? 16 : 3}
+            value={value}
+            onChange={(event) => updateField(name, event.target.value)}
+          />
+        ) : (
+          <input
+            className={`admin-input${inputClass}`}
+            type={field.type === 'datetime' ? 'datetime-local' : 'text'}
+            value={value}
+            onChange={(event) => updateField(name, event.target.value)}
+          />
+        )}
+        {field.maxLength !== null && (
+          <span className={`admin-field-meta${overLimit ? ' admin-field-meta-over' : ''}`}>
+            {length} / {field.maxLength}
+          </span>
+        )}
+        {error && <span className="admin-field-error">{error}</span>}
+      </label>
+    );
+  };
+
+  const hasClientErrors = fields.some(
+    (field) => field.maxLength !== null && (form[field.name] ?? '').trim().length > field.maxLength
+  );
+
+  return (
+    <div className="editor-layout">
+      <aside className="admin-card editor-sidebar">
+        <div>
+          <h2 className="admin-card-title">Artículos</h2>
+          <p className="admin-card-description">{posts.length} artículos en TiDB.</p>
+        </div>
+        <input
+          className="admin-input"
+          placeholder="Filtrar por slug o título"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+        />
+        <div className="editor-list">
+          {filteredPosts.length === 0 ? (
+            <p className="muted">No hay artículos que coincidan.</p>
+          ) : (
+            filteredPosts.map((item) => (
+              <Link
+                key={item.slug}
+                href={`/admin/edit-blog?slug=${encodeURIComponent(item.slug)}`}
+                className={`editor-list-item${item.slug === slug ? ' editor-list-item-active' : ''}`}
+                prefetch={false}
+              >
+                <span className="editor-list-title">{item.title ?? item.slug}</span>
+                <span className="editor-list-meta">
+                  {item.is_published ? 'Publicado' : 'Borrador'} · {item.category_slug ?? 'sin categoría'}
+                </span>
+              </Link>
+            ))
+          )}
+        </div>
+      </aside>
+
+      <div className="admin-grid">
+        {!tidbConfigured && (
+          <div className="warning-block">Configura las variables de TiDB para habilitar el editor de blog.</div>
+        )}
+
+        {loadError && (
+          <div className="error-block">
+            {getErrorMessage(loadError.code)} Código: {loadError.code}
+            {loadError.details ? ` — ${loadError.details}` : ''}
+          </div>
+        )}
+
+        <section className="admin-card">
+          <div>
+            <h2 className="admin-card-title">Nuevo artículo</h2>
+            <p className="admin-card-description">
+              El artículo se crea como borrador. Si no indicas un slug se genera a partir del título y se añade un
+              sufijo numérico cuando ya está en uso.
+            </p>
+          </div>
+          <div className="write-grid">
+            <label className="admin-field">
+              <span className="admin-field-label">title</span>
+              <input
+                className={`admin-input${createErrors.title ? ' admin-input-invalid' : ''}`}
+                placeholder="Título del artículo"
+                value={createForm.title}
+                onChange={(event) => setCreateForm((prev) => ({ ...prev, title: event.target.value }))}
+              />
+              {createErrors.title && <span className="admin-field-error">{createErrors.title}</span>}
+            </label>
+            <label className="admin-field">
+              <span className="admin-field-label">slug (opcional)</span>
+              <input
+                className={`admin-input${createErrors.slug ? ' admin-input-invalid' : ''}`}
+                placeholder="se-genera-del-titulo"
+                value={createForm.slug}
+                onChange={(event) => setCreateForm((prev) => ({ ...prev, slug: event.target.value }))}
+              />
+              {createErrors.slug && <span className="admin-field-error">{createErrors.slug}</span>}
+            </label>
+          </div>
+          <div className="write-actions">
+            <button
+              type="button"
+              className="admin-button"
+              onClick={createPost}
+              disabled={!tidbConfigured || !createForm.title.trim() || createState.status === 'loading'}
+            >
+              {createState.status === 'loading' ? 'Creando…' : 'Crear artículo'}
+            </button>
+          </div>
+          {createState.status === 'error' && createState.errorCode && (
+            <div className="error-block">
+              {getErrorMessage(createState.errorCode)} Código: {createState.errorCode}
+              {createState.details ? ` — ${createState.details}` : ''}
+            </div>
+          )}
+        </section>
+
+        {!slug && tidbConfigured && !loadError && (
+          <section className="admin-card">
+            <p className="muted">Selecciona un artículo de la lista para editarlo.</p>
+          </section>
+        )}
+
+        {slug && current && (
+          <>
+            <section className="admin-card">
+              <div className="admin-card-header">
+                <div>
+                  <h2 className="admin-card-title">{(current.title as string | null) ?? slug}</h2>
+                  <p className="admin-card-description">
+                    Última actualización:{' '}
+                    {formatTimestampLabel(current.last_tidb_update_at as string | undefined)} ·{' '}
+                    <Link href={`/admin/history?type=post&slug=${encodeURIComponent(slug)}`} prefetch={false}>
+                      Ver historial
+                    </Link>
+                  </p>
+                </div>
+                <span className={`status-badge ${isPublished ? 'status-success' : 'status-idle'}`}>
+                  {isPublished ? 'Publicado' : 'Borrador'}
+                </span>
+              </div>
+
+              <div className="editor-section">
+                <div>
+                  <h3 className="write-test-title">Slug</h3>
+                  <p className="write-test-description">
+                    Cambiar el slug crea una redirección 301 desde /b/{slug}, mueve el historial, actualiza los
+                    sitemaps y feeds y purga ambas URLs en Cloudflare.
+                  </p>
+                </div>
+                <div className="write-actions">
+                  <input
+                    className={`admin-input admin-input-grow${renameErrors.new_slug ? ' admin-input-invalid' : ''}`}
+                    placeholder="nuevo-slug"
+                    value={renameInput}
+                    onChange={(event) => setRenameInput(event.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="admin-button admin-button-secondary"
+                    onClick={renamePost}
+                    disabled={!renameInput.trim() || renameState.status === 'loading'}
+                  >
+                    {renameState.status === 'loading' ? 'Renombrando…' : 'Cambiar slug'}
+                  </button>
+                </div>
+                {renameErrors.new_slug && <span className="admin-field-error">{renameErrors.new_slug}</span>}
+                {renameState.status === 'error' && renameState.errorCode && (
+                  <div className="error-block">
+                    {getErrorMessage(renameState.errorCode)} Código: {renameState.errorCode}
+                    {renameState.details ? ` — ${renameState.details}` : ''}
+                  </div>
+                )}
+              </div>
+
+              {FIELD_GROUPS.map((group) => (
+                <div key={group.title} className="editor-section">
+                  <div>
+                    <h3 className="write-test-title">{group.title}</h3>
+                    <p className="write-test-description">{group.description}</p>
+                  </div>
+                  <div className="write-grid">{group.fields.map((name) => renderField(name))}</div>
+                </div>
+              ))}
+            </section>
+
+            <section className="admin-card editor-footer">
+              <div className="write-actions">
+                <button
+                  type="button"
+                  className="admin-button"
+                  onClick={savePost}
+                  disabled={changedFields.length === 0 || hasClientErrors || saveState.status === 'loading'}
+                >
+                  {saveState.status === 'loading' ? 'Guardando…' : 'Guardar cambios'}
+                </button>
+                <button
+                  type="button"
+                  className="admin-button admin-button-secondary"
+                  onClick={resetForm}
+                  disabled={changedFields.length === 0 || saveState.status === 'loading'}
+                >
+                  Descartar
+                </button>
+                <button
+                  type="button"
+                  className="admin-button admin-button-secondary"
+                  onClick={unpublishPost}
+                  disabled={!isPublished || unpublishState.status === 'loading'}
+                >
+                  {unpublishState.status === 'loading' ? 'Despublicando…' : 'Despublicar'}
+                </button>
+                <button
+                  type="button"
+                  className="admin-button admin-button-secondary"
+                  onClick={createPreviewLink}
+                  disabled={previewState.status === 'loading'}
+                >
+                  {previewState.status === 'loading' ? 'Generando…' : 'Enlace de vista previa'}
+                </button>
+                <button
+                  type="button"
+                  className="admin-button admin-button-danger"
+                  onClick={deletePost}
+                  disabled={deleteState.status === 'loading'}
+                >
+                  {deleteState.status === 'loading' ? 'Eliminando…' : 'Eliminar artículo'}
+                </button>
+                <span className="metric-secondary">
+                  {changedFields.length === 0
+                    ? 'Sin cambios pendientes'
+                    : `Campos modificados: ${changedFields.join(', ')}`}
+                </span>
+              </div>
+
+              {saveState.status === 'success' && (
+                <div className="success-block">
+                  Artículo guardado · {formatTimestampLabel(saveState.timestamp)}
+                  {typeof saveState.rowsAffected === 'number'
+                    ? ` · Filas afectadas: ${saveState.rowsAffected}`
+                    : ''}
+                </div>
+              )}
+
+              {saveState.status === 'success' && saveState.strippedHtml && saveState.strippedHtml.length > 0 && (
+                <div className="warning-block">
+                  El HTML se limpió al guardar; se eliminaron etiquetas o atributos no permitidos.
+                  <ul>
+                    {saveState.strippedHtml.map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {saveState.status === 'error' && saveState.errorCode && (
+                <div className="error-block">
+                  {getErrorMessage(saveState.errorCode)} Código: {saveState.errorCode}
+                  {saveState.details ? ` — ${saveState.details}` : ''}
+                </div>
+              )}
+
+              {staleRecord && (
+                <div className="warning-block">
+                  Versión actual guardada el{' '}
+                  {formatTimestampLabel(staleRecord.last_tidb_update_at as string | undefined)}.
+                  Revisa sus valores antes de volver a guardar.
+                  <div className="write-actions">
+                    <button
+                      type="button"
+                      className="admin-button admin-button-small"
+                      onClick={() => resolveStale(true)}
+                    >
+                      Mantener mis cambios sobre la versión actual
+                    </button>
+                    <button
+                      type="button"
+                      className="admin-button admin-button-small admin-button-secondary"
+                      onClick={() => resolveStale(false)}
+                    >
+                      Descartar mis cambios
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {unpublishState.status === 'success' && (
+                <div className="success-block">
+                  Artículo despublicado · {formatTimestampLabel(unpublishState.timestamp)}
+                </div>
+              )}
+
+              {unpublishState.status === 'error' && unpublishState.errorCode && (
+                <div className="error-block">
+                  {getErrorMessage(unpublishState.errorCode)} Código: {unpublishState.errorCode}
+                  {unpublishState.details ? ` — ${unpublishState.details}` : ''}
+                </div>
+              )}
+
+              {previewState.status === 'success' && previewState.url && (
+                <div className="success-block">
+                  <a href={previewState.url} target="_blank" rel="noreferrer">
+                    Abrir vista previa
+                  </a>{' '}
+                  · Caduca: {formatTimestampLabel(previewState.expiresAt)}. Muestra la versión guardada, no los
+                  cambios pendientes.
+                </div>
+              )}
+
+              {previewState.status === 'error' && previewState.errorCode && (
+                <div className="error-block">
+                  {getErrorMessage(previewState.errorCode)} Código: {previewState.errorCode}
+                  {previewState.details ? ` — ${previewState.details}` : ''}
+                </div>
+              )}
+
+              {deleteState.status === 'error' && deleteState.errorCode && (
+                <div className="error-block">
+                  {getErrorMessage(deleteState.errorCode)} Código: {deleteState.errorCode}
+                  {deleteState.details ? ` — ${deleteState.details}` : ''}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import BlogEditor, { type BlogEditorProps } from './blog-editor';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { listCategoryOptions } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { fetchBlogPostBySlug, getBlogFieldDefinitions, listBlogPosts } from '@/lib/server/tidb/posts';
+
+interface AdminEditBlogPageProps {
+  searchParams: { slug?: string | string[] };
+}
+
+export default async function AdminEditBlogPage({ searchParams }: AdminEditBlogPageProps) {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+  const slug = typeof searchParams.slug === 'string' ? searchParams.slug.trim() : '';
+
+  let posts: BlogEditorProps['posts'] = [];
+  let categories: BlogEditorProps['categories'] = [];
+  let post: Record<string, unknown> | null = null;
+  let loadError: BlogEditorProps['loadError'] = null;
+
+  if (tidbConfigured) {
+    try {
+      [posts, categories, post] = await Promise.all([
+        listBlogPosts(),
+        listCategoryOptions(),
+        slug ? fetchBlogPostBySlug(slug) : Promise.resolve(null),
+      ]);
+      if (slug && !post) {
+        loadError = { code: 'post_not_found' };
+      }
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_edit_blog_load_error', {
+        slug,
+        code: info.code,
+        message: info.message,
+      });
+      loadError = { code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message };
+    }
+  }
+
+  const props: BlogEditorProps = {
+    sessionToken: adminConfig ? await issueAdminSessionToken(adminConfig) : null,
+    tidbConfigured,
+    slug: slug || null,
+    post,
+    posts,
+    categories,
+    loadError,
+    fields: getBlogFieldDefinitions(),
+  };
+
+  return <BlogEditor key={slug} {...props} />;
+}
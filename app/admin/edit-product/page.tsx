@@ -0,0 +1,47 @@
+import ProductEditor, { type ProductEditorProps } from './product-editor';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { fetchProductBySlug, getProductFieldDefinitions } from '@/lib/server/tidb/products';
+
+interface AdminEditProductPageProps {
+  searchParams: { slug?: string | string[] };
+}
+
+export default async function AdminEditProductPage({ searchParams }: AdminEditProductPageProps) {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+  const slug = typeof searchParams.slug === 'string' ? searchParams.slug.trim() : '';
+
+  let product: Record<string, unknown> | null = null;
+  let loadError: ProductEditorProps['loadError'] = null;
+
+  if (slug && tidbConfigured) {
+    try {
+      product = await fetchProductBySlug(slug);
+      if (!product) {
+        loadError = { code: 'product_not_found' };
+      }
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_edit_product_load_error', {
+        slug,
+        code: info.code,
+        message: info.message,
+      });
+      loadError = { code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message };
+    }
+  }
+
+  const props: ProductEditorProps = {
+    sessionToken: adminConfig ? await issueAdminSessionToken(adminConfig) : null,
+    tidbConfigured,
+    slug: slug || null,
+    product,
+    loadError,
+    fields: getProductFieldDefinitions(),
+  };
+
+  return <ProductEditor key={slug} {...props} />;
+}
@@ -0,0 +1,711 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCallback, useMemo, useState } from 'react';
+
+import type { HtmlStrippedReport } from '@/lib/server/html-sanitizer';
+import type { ProductFieldDefinition } from '@/lib/server/tidb/products';
+
+import { formatStrippedHtml, formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface ProductEditorProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+  slug: string | null;
+  product: Record<string, unknown> | null;
+  loadError: { code: string; details?: string } | null;
+  fields: ProductFieldDefinition[];
+}
+
+type FieldName = ProductFieldDefinition['name'];
+type FormValues = Record<string, string>;
+type SaveStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface SaveState {
+  status: SaveStatus;
+  timestamp?: string;
+  rowsAffected?: number;
+  strippedHtml?: string[];
+  errorCode?: string;
+  details?: string;
+}
+
+interface FieldGroup {
+  title: string;
+  description: string;
+  fields: FieldName[];
+}
+
+const PRODUCT_ENDPOINT = '/api/admin/products';
+
+const FIELD_GROUPS: FieldGroup[] = [
+  {
+    title: 'Contenido',
+    description: 'Título principal, resumen y descripción HTML de la página del producto.',
+    fields: ['title_h1', 'short_summary', 'desc_html'],
+  },
+  {
+    title: 'Llamadas a la acción',
+    description: 'Botones principal y secundario. Las URLs deben empezar con http:// o https://.',
+    fields: ['primary_cta_label', 'primary_cta_url', 'secondary_cta_label', 'secondary_cta_url'],
+  },
+  {
+    title: 'Precio',
+    description: 'Texto visible del precio junto con el importe numérico y la moneda.',
+    fields: ['price_display', 'price_amount', 'price_currency'],
+  },
+  {
+    title: 'Imágenes',
+    description: 'Imagen principal y galería (una URL por línea).',
+    fields: ['hero_image_url', 'gallery_image_urls'],
+  },
+  {
+    title: 'SEO',
+    description: 'Título y descripción usados en las etiquetas meta.',
+    fields: ['seo_title', 'seo_description'],
+  },
+  {
+    title: 'Clasificación y disponibilidad',
+    description: 'Categoría, badge destacado y texto de disponibilidad.',
+    fields: ['category_slug', 'badge_label', 'availability_label'],
+  },
+];
+
+const TEXTAREA_ROWS: Partial<Record<FieldName, number>> = {
+  desc_html: 12,
+  gallery_image_urls: 4,
+};
+
+function toFormValue(value: unknown, field: ProductFieldDefinition): string {
+  if (value == null) {
+    return '';
+  }
+  if (field.type === 'json') {
+    let parsed = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch (_error) {
+        return value;
+      }
+    }
+    return Array.isArray(parsed) ? parsed.map((item) => String(item)).join('\n') : '';
+  }
+  return String(value);
+}
+
+function toPayloadValue(value: string, field: ProductFieldDefinition): unknown {
+  if (field.type === 'json') {
+    return value
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+  }
+  if (field.type === 'number') {
+    const trimmed = value.trim();
+    return trimmed.length === 0 ? null : trimmed;
+  }
+  return value;
+}
+
+function buildFormValues(
+  product: Record<string, unknown> | null,
+  fields: ProductFieldDefinition[]
+): FormValues {
+  const values: FormValues = {};
+  for (const field of fields) {
+    values[field.name] = toFormValue(product?.[field.name], field);
+  }
+  return values;
+}
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'product_not_found':
+      return 'No existe ningún producto con ese slug.';
+    case 'slug_exists':
+      return 'Ya existe un producto (activo o eliminado) con ese slug.';
+    case 'invalid_category':
+      return 'La categoría indicada no existe.';
+    case 'invalid_payload':
+      return 'Revisa los campos marcados.';
+    case 'stale_write':
+      return 'Otra persona guardó este producto después de que lo abrieras.';
+    case 'timeout':
+      return 'TiDB no respondió a tiempo.';
+    case 'auth_failed':
+      return 'TiDB rechazó las credenciales configuradas.';
+    default:
+      return 'No se pudo completar la operación.';
+  }
+}
+
+export default function ProductEditor(props: ProductEditorProps) {
+  const { sessionToken, tidbConfigured, slug, product, loadError, fields } = props;
+  const router = useRouter();
+  const callEndpoint = useAdminApi(sessionToken);
+
+  const [slugInput, setSlugInput] = useState(slug ?? '');
+  const [current, setCurrent] = useState<Record<string, unknown> | null>(product);
+  const [baseline, setBaseline] = useState<FormValues>(() => buildFormValues(product, fields));
+  const [form, setForm] = useState<FormValues>(() => buildFormValues(product, fields));
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [saveState, setSaveState] = useState<SaveState>({ status: 'idle' });
+  const [staleRecord, setStaleRecord] = useState<Record<string, unknown> | null>(null);
+  const [createForm, setCreateForm] = useState({ slug: '', title_h1: '' });
+  const [createErrors, setCreateErrors] = useState<Record<string, string>>({});
+  const [createState, setCreateState] = useState<SaveState>({ status: 'idle' });
+  const [deleteState, setDeleteState] = useState<SaveState>({ status: 'idle' });
+  const [renameInput, setRenameInput] = useState('');
+  const [renameErrors, setRenameErrors] = useState<Record<string, string>>({});
+  const [renameState, setRenameState] = useState<SaveState>({ status: 'idle' });
+
+  const fieldsByName = useMemo(() => {
+    const map = new Map<FieldName, ProductFieldDefinition>();
+    for (const field of fields) {
+      map.set(field.name, field);
+    }
+    return map;
+  }, [fields]);
+
+  const changedFields = useMemo(
+    () => fields.filter((field) => form[field.name] !== baseline[field.name]).map((field) => field.name),
+    [baseline, fields, form]
+  );
+
+  const loadSlug = useCallback(() => {
+    const trimmed = slugInput.trim();
+    if (!trimmed) {
+      return;
+    }
+    router.push(`/admin/edit-product?slug=${encodeURIComponent(trimmed)}`);
+  }, [router, slugInput]);
+
+  const updateField = useCallback((name: FieldName, value: string) => {
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => {
+      if (!(name in prev)) {
+        return prev;
+      }
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }, []);
+
+  const resetForm = useCallback(() => {
+    setForm(baseline);
+    setFieldErrors({});
+    setSaveState({ status: 'idle' });
+  }, [baseline]);
+
+  const resolveStale = useCallback(
+    (keepChanges: boolean) => {
+      if (!staleRecord) {
+        return;
+      }
+      const nextValues = buildFormValues(staleRecord, fields);
+      setCurrent(staleRecord);
+      setBaseline(nextValues);
+      if (!keepChanges) {
+        setForm(nextValues);
+      }
+      setStaleRecord(null);
+      setFieldErrors({});
+      setSaveState({ status: 'idle' });
+    },
+    [fields, staleRecord]
+  );
+
+  const saveProduct = useCallback(async () => {
+    if (!slug || changedFields.length === 0) {
+      return;
+    }
+
+    const payload: Record<string, unknown> = { slug, expected_updated_at: current?.last_tidb_update_at ?? null };
+    for (const name of changedFields) {
+      const field = fieldsByName.get(name);
+      if (field) {
+        payload[name] = toPayloadValue(form[name], field);
+      }
+    }
+
+    setSaveState({ status: 'loading' });
+
+    try {
+      const data = await callEndpoint<{
+        rows_affected?: number;
+        product?: Record<string, unknown>;
+        current?: Record<string, unknown>;
+        stripped_html?: Record<string, HtmlStrippedReport>;
+      }>(
+        PRODUCT_ENDPOINT,
+        'POST',
+        payload
+      );
+      const timestamp = new Date().toISOString();
+
+      if (!data.ok) {
+        console.warn('admin_product_editor_save_failure', { slug, errorCode: data.error_code });
+        setFieldErrors(data.field_errors ?? {});
+        setStaleRecord(data.error_code === 'stale_write' && data.current ? data.current : null);
+        setSaveState({
+          status: 'error',
+          timestamp,
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+
+      const nextProduct = data.product ?? current;
+      const nextValues = buildFormValues(nextProduct, fields);
+      setCurrent(nextProduct);
+      setBaseline(nextValues);
+      setForm(nextValues);
+      setFieldErrors({});
+      setStaleRecord(null);
+      setSaveState({
+        status: 'success',
+        timestamp,
+        rowsAffected: typeof data.rows_affected === 'number' ? data.rows_affected : undefined,
+        strippedHtml: formatStrippedHtml(data.stripped_html),
+      });
+      console.info('admin_product_editor_save', { slug, rowsAffected: data.rows_affected });
+    } catch (error) {
+      console.error('admin_product_editor_save_failed', { slug, error: (error as Error)?.message });
+      setSaveState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, changedFields, current, fields, fieldsByName, form, slug]);
+
+  const createProduct = useCallback(async () => {
+    const newSlug = createForm.slug.trim();
+    if (!newSlug) {
+      return;
+    }
+    setCreateState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ product?: Record<string, unknown> }>(
+        `${PRODUCT_ENDPOINT}/${encodeURIComponent(newSlug)}`,
+        'POST',
+        { title_h1: createForm.title_h1 }
+      );
+      if (!data.ok) {
+        console.warn('admin_product_editor_create_failure', { slug: newSlug, errorCode: data.error_code });
+        setCreateErrors(data.field_errors ?? {});
+        setCreateState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      console.info('admin_product_editor_create', { slug: newSlug });
+      setCreateState({ status: 'success', timestamp: new Date().toISOString() });
+      router.push(`/admin/edit-product?slug=${encodeURIComponent(newSlug)}`);
+    } catch (error) {
+      console.error('admin_product_editor_create_failed', { error: (error as Error)?.message });
+      setCreateState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, createForm.slug, createForm.title_h1, router]);
+
+  const deleteProduct = useCallback(async () => {
+    if (!slug || !window.confirm(`¿Eliminar el producto ${slug}? Se marcará como eliminado.`)) {
+      return;
+    }
+    setDeleteState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<Record<string, unknown>>(
+        `${PRODUCT_ENDPOINT}/${encodeURIComponent(slug)}`,
+        'DELETE'
+      );
+      const timestamp = new Date().toISOString();
+      if (!data.ok) {
+        console.warn('admin_product_editor_delete_failure', { slug, errorCode: data.error_code });
+        setDeleteState({
+          status: 'error',
+          timestamp,
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      console.info('admin_product_editor_delete', { slug });
+      setCurrent((prev) => (prev ? { ...prev, deleted_at: timestamp } : prev));
+      setDeleteState({ status: 'success', timestamp });
+    } catch (error) {
+      console.error('admin_product_editor_delete_failed', { slug, error: (error as Error)?.message });
+      setDeleteState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, slug]);
+
+  const renameProduct = useCallback(async () => {
+    const newSlug = renameInput.trim();
+    if (!slug || !newSlug) {
+      return;
+    }
+    if (!window.confirm(`¿Cambiar el slug de ${slug} a ${newSlug}? /p/${slug} redirigirá con 301.`)) {
+      return;
+    }
+    setRenameState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ product?: Record<string, unknown> }>(
+        `${PRODUCT_ENDPOINT}/${encodeURIComponent(slug)}/rename`,
+        'POST',
+        { new_slug: newSlug, expected_updated_at: current?.last_tidb_update_at ?? null }
+      );
+      if (!data.ok) {
+        console.warn('admin_product_editor_rename_failure', { slug, newSlug, errorCode: data.error_code });
+        setRenameErrors(data.field_errors ?? {});
+        setRenameState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      console.info('admin_product_editor_rename', { slug, newSlug, rayIds: data.ray_ids });
+      setRenameState({ status: 'success', timestamp: new Date().toISOString() });
+      router.push(`/admin/edit-product?slug=${encodeURIComponent(newSlug)}`);
+    } catch (error) {
+      console.error('admin_product_editor_rename_failed', { slug, error: (error as Error)?.message });
+      setRenameState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, current, renameInput, router, slug]);
+
+  const isDeleted = Boolean(current?.deleted_at);
+
+  const renderField = (name: FieldName) => {
+    const field = fieldsByName.get(name);
+    if (!field) {
+      return null;
+    }
+    const value = form[name] ?? '';
+    const error = fieldErrors[name];
+    const length = value.trim().length;
+    const overLimit = field.maxLength !== null && length > field.maxLength;
+    const multiline = field.type === 'text' || field.type === 'json';
+    const className = `admin-field${multiline ? ' admin-field-full' : ''}`;
+
+    return (
+      <label key={name} className={className}>
+        <span className="admin-field-label">
+          {name}
+          {form[name] !== baseline[name] && <span className="admin-field-dirty"> · modificado</span>}
+        </span>
+        {multiline ? (
+          <textarea
+            className={`admin-textarea${error ? ' admin-input-invalid' : ''}`}
+            rows={TEXTAREA_ROWS[name] ?? 3}
+            value={value}
+            onChange={(event) => updateField(name, event.target.value)}
+          />
+        ) : (
+          <input
+            className={`admin-input${error ? ' admin-input-invalid' : ''}`}
+            inputMode={field.type === 'number' ? 'decimal' : undefined}
+            value={value}
+            onChange={(event) => updateField(name, event.target.value)}
+          />
+        )}
+        {field.maxLength !== null && (
+          <span className={`admin-field-meta${overLimit ? ' admin-field-meta-over' : ''}`}>
+            {length} / {field.maxLength}
+          </span>
+        )}
+        {error && <span className="admin-field-error">{error}</span>}
+      </label>
+    );
+  };
+
+  const hasClientErrors = fields.some(
+    (field) => field.maxLength !== null && (form[field.name] ?? '').trim().length > field.maxLength
+  );
+
+  return (
+    <div className="admin-grid">
+      <section className="admin-card">
+        <div className="admin-card-header">
+          <div>
+            <h2 className="admin-card-title">Editar producto</h2>
+            <p className="admin-card-description">
+              Carga un producto por su slug, modifica cualquier campo y guarda los cambios en TiDB.
+            </p>
+          </div>
+        </div>
+
+        <form
+          className="write-actions"
+          onSubmit={(event) => {
+            event.preventDefault();
+            loadSlug();
+          }}
+        >
+          <input
+            className="admin-input admin-input-grow"
+            placeholder="slug-del-producto"
+            value={slugInput}
+            onChange={(event) => setSlugInput(event.target.value)}
+          />
+          <button type="submit" className="admin-button" disabled={!tidbConfigured || !slugInput.trim()}>
+            Cargar producto
+          </button>
+        </form>
+
+        {!tidbConfigured && (
+          <div className="warning-block">
+            Configura las variables de TiDB para habilitar el editor de productos.
+          </div>
+        )}
+
+        {loadError && (
+          <div className="error-block">
+            {getErrorMessage(loadError.code)} Código: {loadError.code}
+            {loadError.details ? ` — ${loadError.details}` : ''}
+          </div>
+        )}
+      </section>
+
+      <section className="admin-card">
+        <div>
+          <h2 className="admin-card-title">Nuevo producto</h2>
+          <p className="admin-card-description">
+            El slug admite minúsculas, dígitos y guiones simples y no puede coincidir con otro producto,
+            aunque esté eliminado.
+          </p>
+        </div>
+        <div className="write-grid">
+          <label className="admin-field">
+            <span className="admin-field-label">slug</span>
+            <input
+              className={`admin-input${createErrors.slug ? ' admin-input-invalid' : ''}`}
+              placeholder="nuevo-producto"
+              value={createForm.slug}
+              onChange={(event) => setCreateForm((prev) => ({ ...prev, slug: event.target.value }))}
+            />
+            {createErrors.slug && <span className="admin-field-error">{createErrors.slug}</span>}
+          </label>
+          <label className="admin-field">
+            <span className="admin-field-label">title_h1</span>
+            <input
+              className={`admin-input${createErrors.title_h1 ? ' admin-input-invalid' : ''}`}
+              placeholder="Título principal"
+              value={createForm.title_h1}
+              onChange={(event) => setCreateForm((prev) => ({ ...prev, title_h1: event.target.value }))}
+            />
+            {createErrors.title_h1 && <span className="admin-field-error">{createErrors.title_h1}</span>}
+          </label>
+        </div>
+        <div className="write-actions">
+          <button
+            type="button"
+            className="admin-button"
+            onClick={createProduct}
+            disabled={!tidbConfigured || !createForm.slug.trim() || createState.status === 'loading'}
+          >
+            {createState.status === 'loading' ? 'Creando…' : 'Crear producto'}
+          </button>
+        </div>
+        {createState.status === 'error' && createState.errorCode && (
+          <div className="error-block">
+            {getErrorMessage(createState.errorCode)} Código: {createState.errorCode}
+            {createState.details ? ` — ${createState.details}` : ''}
+          </div>
+        )}
+      </section>
+
+      {slug && current && (
+        <>
+          <section className="admin-card">
+            <div className="admin-card-header">
+              <div>
+                <h2 className="admin-card-title">{slug}</h2>
+                <p className="admin-card-description">
+                  Última actualización:{' '}
+                  {formatTimestampLabel(current.last_tidb_update_at as string | undefined)} ·{' '}
+                  <Link href={`/admin/history?type=product&slug=${encodeURIComponent(slug)}`} prefetch={false}>
+                    Ver historial
+                  </Link>
+                </p>
+              </div>
+              <span className={`status-badge ${isDeleted ? 'status-error' : 'status-success'}`}>
+                {isDeleted ? 'Eliminado' : 'Activo'}
+              </span>
+            </div>
+
+            {isDeleted && (
+              <div className="warning-block">
+                Este producto está eliminado desde {formatTimestampLabel(current.deleted_at as string)} y ya no
+                se publica.
+              </div>
+            )}
+
+            <div className="editor-section">
+              <div>
+                <h3 className="write-test-title">Slug</h3>
+                <p className="write-test-description">
+                  Cambiar el slug crea una redirección 301 desde /p/{slug}, mueve el historial, actualiza los sitemaps
+                  y purga ambas URLs en Cloudflare.
+                </p>
+              </div>
+              <div className="write-actions">
+                <input
+                  className={`admin-input admin-input-grow${renameErrors.new_slug ? ' admin-input-invalid' : ''}`}
+                  placeholder="nuevo-slug"
+                  value={renameInput}
+                  onChange={(event) => setRenameInput(event.target.value)}
+                />
+                <button
+                  type="button"
+                  className="admin-button admin-button-secondary"
+                  onClick={renameProduct}
+                  disabled={isDeleted || !renameInput.trim() || renameState.status === 'loading'}
+                >
+                  {renameState.status === 'loading' ? 'Renombrando…' : 'Cambiar slug'}
+                </button>
+              </div>
+              {renameErrors.new_slug && <span className="admin-field-error">{renameErrors.new_slug}</span>}
+              {renameState.status === 'error' && renameState.errorCode && (
+                <div className="error-block">
+                  {getErrorMessage(renameState.errorCode)} Código: {renameState.errorCode}
+                  {renameState.details ? ` — ${renameState.details}` : ''}
+                </div>
+              )}
+            </div>
+
+            {FIELD_GROUPS.map((group) => (
+              <div key={group.title} className="editor-section">
+                <div>
+                  <h3 className="write-test-title">{group.title}</h3>
+                  <p className="write-test-description">{group.description}</p>
+                </div>
+                <div className="write-grid">{group.fields.map((name) => renderField(name))}</div>
+              </div>
+            ))}
+          </section>
+
+          <section className="admin-card editor-footer">
+            <div className="write-actions">
+              <button
+                type="button"
+                className="admin-button"
+                onClick={saveProduct}
+                disabled={changedFields.length === 0 || hasClientErrors || saveState.status === 'loading'}
+              >
+                {saveState.status === 'loading' ? 'Guardando…' : 'Guardar cambios'}
+              </button>
+              <button
+                type="button"
+                className="admin-button admin-button-secondary"
+                onClick={resetForm}
+                disabled={changedFields.length === 0 || saveState.status === 'loading'}
+              >
+                Descartar
+              </button>
+              <button
+                type="button"
+                className="admin-button admin-button-danger"
+                onClick={deleteProduct}
+                disabled={isDeleted || deleteState.status === 'loading'}
+              >
+                {deleteState.status === 'loading' ? 'Eliminando…' : 'Eliminar producto'}
+              </button>
+              <span className="metric-secondary">
+                {changedFields.length === 0
+                  ? 'Sin cambios pendientes'
+                  : `Campos modificados: ${changedFields.join(', ')}`}
+              </span>
+            </div>
+
+            {saveState.status === 'success' && (
+              <div className="success-block">
+                Producto guardado · {formatTimestampLabel(saveState.timestamp)}
+                {typeof saveState.rowsAffected === 'number'
+                  ? ` · Filas afectadas: ${saveState.rowsAffected}`
+                  : ''}
+              </div>
+            )}
+
+            {saveState.status === 'success' && saveState.strippedHtml && saveState.strippedHtml.length > 0 && (
+              <div className="warning-block">
+                El HTML se limpió al guardar; se eliminaron etiquetas o atributos no permitidos.
+                <ul>
+                  {saveState.strippedHtml.map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {saveState.status === 'error' && saveState.errorCode && (
+              <div className="error-block">
+                {getErrorMessage(saveState.errorCode)} Código: {saveState.errorCode}
+                {saveState.details ? ` — ${saveState.details}` : ''}
+              </div>
+            )}
+
+            {staleRecord && (
+              <div className="warning-block">
+                Versión actual guardada el{' '}
+                {formatTimestampLabel(staleRecord.last_tidb_update_at as string | undefined)}.
+                Revisa sus valores antes de volver a guardar.
+                <div className="write-actions">
+                  <button
+                    type="button"
+                    className="admin-button admin-button-small"
+                    onClick={() => resolveStale(true)}
+                  >
+                    Mantener mis cambios sobre la versión actual
+                  </button>
+                  <button
+                    type="button"
+                    className="admin-button admin-button-small admin-button-secondary"
+                    onClick={() => resolveStale(false)}
+                  >
+                    Descartar mis cambios
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {deleteState.status === 'success' && (
+              <div className="success-block">
+                Producto eliminado · {formatTimestampLabel(deleteState.timestamp)}
+              </div>
+            )}
+
+            {deleteState.status === 'error' && deleteState.errorCode && (
+              <div className="error-block">
+                {getErrorMessage(deleteState.errorCode)} Código: {deleteState.errorCode}
+                {deleteState.details ? ` — ${deleteState.details}` : ''}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
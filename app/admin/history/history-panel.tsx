@@ -0,0 +1,269 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCallback, useState, type FormEvent } from 'react';
+
+import type { RevisionAction, RevisionEntityType, RevisionRecord } from '@/lib/server/tidb/revisions';
+
+import { formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface HistoryPanelProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+  type: RevisionEntityType;
+  slug: string | null;
+  revisions: RevisionRecord[];
+  loadError: { code: string; details?: string } | null;
+}
+
+type RestoreStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface RestoreState {
+  status: RestoreStatus;
+  revisionId?: string;
+  timestamp?: string;
+  rowsAffected?: number;
+  errorCode?: string;
+  details?: string;
+}
+
+const RESTORABLE_ACTIONS: RevisionAction[] = ['update', 'publish', 'unpublish', 'import', 'restore'];
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: 'Creación',
+  update: 'Edición',
+  delete: 'Eliminación',
+  publish: 'Publicación',
+  unpublish: 'Despublicación',
+  import: 'Importación',
+  restore: 'Restauración',
+  rename: 'Cambio de slug',
+};
+
+function formatValue(value: unknown): string {
+  if (value == null || value === '') {
+    return '∅';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'revision_not_found':
+      return 'La revisión ya no existe.';
+    case 'revision_not_restorable':
+      return 'Esta revisión no tiene campos que puedan restaurarse.';
+    case 'product_not_found':
+      return 'El producto ya no existe.';
+    case 'post_not_found':
+      return 'El artículo ya no existe.';
+    case 'invalid_category':
+      return 'La categoría anterior ya no existe.';
+    case 'invalid_payload':
+      return 'Los valores anteriores no superan la validación actual.';
+    case 'timeout':
+      return 'TiDB no respondió a tiempo.';
+    case 'auth_failed':
+      return 'TiDB rechazó las credenciales configuradas.';
+    default:
+      return 'No se pudo completar la operación.';
+  }
+}
+
+function getEditorHref(type: RevisionEntityType, slug: string): string {
+  const base = type === 'product' ? '/admin/edit-product' : '/admin/edit-blog';
+  return `${base}?slug=${encodeURIComponent(slug)}`;
+}
+
+export default function HistoryPanel(props: HistoryPanelProps) {
+  const { sessionToken, tidbConfigured, type, slug, revisions, loadError } = props;
+  const callEndpoint = useAdminApi(sessionToken);
+  const router = useRouter();
+
+  const [typeInput, setTypeInput] = useState<RevisionEntityType>(type);
+  const [slugInput, setSlugInput] = useState(slug ?? '');
+  const [restoreState, setRestoreState] = useState<RestoreState>({ status: 'idle' });
+
+  const search = useCallback(
+    (event: FormEvent) => {
+      event.preventDefault();
+      const trimmed = slugInput.trim();
+      if (!trimmed) {
+        return;
+      }
+      router.push(`/admin/history?type=${typeInput}&slug=${encodeURIComponent(trimmed)}`);
+    },
+    [router, slugInput, typeInput]
+  );
+
+  const restore = useCallback(
+    async (revision: RevisionRecord) => {
+      if (!window.confirm(`¿Restaurar los valores anteriores a la revisión #${revision.id}?`)) {
+        return;
+      }
+      setRestoreState({ status: 'loading', revisionId: revision.id });
+      try {
+        const data = await callEndpoint<{ rows_affected?: number }>(
+          `/api/admin/revisions/${encodeURIComponent(revision.id)}/restore`,
+          'POST'
+        );
+        const timestamp = new Date().toISOString();
+        if (!data.ok) {
+          console.warn('admin_history_restore_failure', { id: revision.id, errorCode: data.error_code });
+          setRestoreState({
+            status: 'error',
+            revisionId: revision.id,
+            timestamp,
+            errorCode: data.error_code,
+            details: typeof data.details === 'string' ? data.details : undefined,
+          });
+          return;
+        }
+        console.info('admin_history_restore', { id: revision.id, rowsAffected: data.rows_affected });
+        setRestoreState({
+          status: 'success',
+          revisionId: revision.id,
+          timestamp,
+          rowsAffected: typeof data.rows_affected === 'number' ? data.rows_affected : undefined,
+        });
+        router.refresh();
+      } catch (error) {
+        console.error('admin_history_restore_failed', { id: revision.id, error: (error as Error)?.message });
+        setRestoreState({
+          status: 'error',
+          revisionId: revision.id,
+          timestamp: new Date().toISOString(),
+          errorCode: 'network_error',
+          details: (error as Error)?.message,
+        });
+      }
+    },
+    [callEndpoint, router]
+  );
+
+  return (
+    <div className="admin-grid">
+      <section className="admin-card">
+        <div>
+          <h2 className="admin-card-title">Historial de revisiones</h2>
+          <p className="admin-card-description">
+            Cada escritura sobre productos y artículos guarda los campos modificados con sus valores anteriores y
+            posteriores. Restaurar una revisión vuelve a escribir sus valores anteriores mediante la misma ruta de
+            actualización, generando una nueva revisión.
+          </p>
+        </div>
+        <form className="write-actions" onSubmit={search}>
+          <select
+            className="admin-input"
+            value={typeInput}
+            onChange={(event) => setTypeInput(event.target.value as RevisionEntityType)}
+          >
+            <option value="product">Producto</option>
+            <option value="post">Artículo</option>
+          </select>
+          <input
+            className="admin-input admin-input-grow"
+            placeholder="slug"
+            value={slugInput}
+            onChange={(event) => setSlugInput(event.target.value)}
+          />
+          <button type="submit" className="admin-button" disabled={!slugInput.trim()}>
+            Ver historial
+          </button>
+        </form>
+      </section>
+
+      {!tidbConfigured && (
+        <div className="warning-block">Configura las variables de TiDB para consultar el historial.</div>
+      )}
+
+      {loadError && (
+        <div className="error-block">
+          {getErrorMessage(loadError.code)} Código: {loadError.code}
+          {loadError.details ? ` — ${loadError.details}` : ''}
+        </div>
+      )}
+
+      {slug && !loadError && (
+        <section className="admin-card">
+          <div className="admin-card-header">
+            <div>
+              <h2 className="admin-card-title">{slug}</h2>
+              <p className="admin-card-description">
+                {revisions.length} revisiones · <Link href={getEditorHref(type, slug)}>Abrir en el editor</Link>
+              </p>
+            </div>
+          </div>
+
+          {restoreState.status === 'success' && (
+            <div className="success-block">
+              Revisión #{restoreState.revisionId} restaurada · {formatTimestampLabel(restoreState.timestamp)}
+              {typeof restoreState.rowsAffected === 'number' ? ` · Filas afectadas: ${restoreState.rowsAffected}` : ''}
+            </div>
+          )}
+
+          {restoreState.status === 'error' && restoreState.errorCode && (
+            <div className="error-block">
+              {getErrorMessage(restoreState.errorCode)} Código: {restoreState.errorCode}
+              {restoreState.details ? ` — ${restoreState.details}` : ''}
+            </div>
+          )}
+
+          {revisions.length === 0 ? (
+            <p className="muted">No hay revisiones registradas para este slug.</p>
+          ) : (
+            <ul className="activity-list">
+              {revisions.map((revision) => (
+                <li key={revision.id} className="activity-item">
+                  <div className="admin-card-header">
+                    <div className="activity-headline">
+                      <span className="status-badge status-idle">{ACTION_LABELS[revision.action]}</span>
+                      <span>#{revision.id}</span>
+                    </div>
+                    {RESTORABLE_ACTIONS.includes(revision.action) && (
+                      <button
+                        type="button"
+                        className="admin-button admin-button-small admin-button-secondary"
+                        onClick={() => restore(revision)}
+                        disabled={restoreState.status === 'loading'}
+                      >
+                        {restoreState.status === 'loading' && restoreState.revisionId === revision.id
+                          ? 'Restaurando…'
+                          : 'Restaurar valores anteriores'}
+                      </button>
+                    )}
+                  </div>
+                  <div className="activity-meta">
+                    {formatTimestampLabel(revision.created_at)} · {revision.author ?? 'desconocido'}
+                    {revision.restored_from ? ` · restaura #${revision.restored_from}` : ''}
+                  </div>
+                  <div className="admin-table-wrapper">
+                    <table className="admin-table">
+                      <thead>
+                        <tr>
+                          <th>Campo</th>
+                          <th>Antes</th>
+                          <th>Después</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {revision.changes.map((change) => (
+                          <tr key={change.field}>
+                            <td className="diff-field">{change.field}</td>
+                            <td className="diff-before">{formatValue(change.before)}</td>
+                            <td className="diff-after">{formatValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
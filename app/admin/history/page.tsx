@@ -0,0 +1,41 @@
+import HistoryPanel, { type HistoryPanelProps } from './history-panel';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { listRevisions, type RevisionEntityType } from '@/lib/server/tidb/revisions';
+
+interface AdminHistoryPageProps {
+  searchParams: { type?: string | string[]; slug?: string | string[] };
+}
+
+export default async function AdminHistoryPage({ searchParams }: AdminHistoryPageProps) {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+  const type: RevisionEntityType = searchParams.type === 'post' ? 'post' : 'product';
+  const slug = typeof searchParams.slug === 'string' ? searchParams.slug.trim() : '';
+
+  let revisions: HistoryPanelProps['revisions'] = [];
+  let loadError: HistoryPanelProps['loadError'] = null;
+
+  if (tidbConfigured && slug) {
+    try {
+      revisions = await listRevisions(type, slug, 100);
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_history_load_error', { type, slug, code: info.code, message: info.message });
+      loadError = { code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message };
+    }
+  }
+
+  const props: HistoryPanelProps = {
+    sessionToken: adminConfig ? await issueAdminSessionToken(adminConfig) : null,
+    tidbConfigured,
+    type,
+    slug: slug || null,
+    revisions,
+    loadError,
+  };
+
+  return <HistoryPanel key={`${type}:${slug}`} {...props} />;
+}
@@ -7,10 +7,15 @@ import {
   getCloudflareImagesConfig,
 } from '@/lib/server/cloudflare/images';
 import {
-  getCloudflarePurgeConfig,
+  getCloudflarePurgeConfigs,
+  type CloudflarePurgeConfig,
 } from '@/lib/server/cloudflare/purge';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
 import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
 import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { listPurgeHistory, type PurgeHistoryPage } from '@/lib/server/tidb/purge-history';
+import { fetchPurgeQueueSummary, type PurgeQueueSummary } from '@/lib/server/tidb/purge-queue';
 
 function obfuscateId(value: string | null | undefined): string | null {
   if (!value) {
@@ -23,24 +28,62 @@ function obfuscateId(value: string | null | undefined): string | null {
 }
 
 export default async function AdminConnectivityPage() {
-  const purgeConfig = getCloudflarePurgeConfig();
+  let purgeConfigs: CloudflarePurgeConfig[] = [];
+  let purgeConfigError: string | null = null;
+  try {
+    purgeConfigs = getCloudflarePurgeConfigs();
+  } catch (error) {
+    if (!(error instanceof InvalidCloudflareSitesError)) {
+      throw error;
+    }
+    purgeConfigError = error.message;
+  }
+  const [purgeConfig] = purgeConfigs;
   const imagesConfig = getCloudflareImagesConfig();
   const algoliaConfig = getAlgoliaConfig();
   const tidbConfig = loadTiDbCredentials();
   const adminConfig = getAdminAuthConfig();
 
+  let purgeHistory: PurgeHistoryPage | null = null;
+  if (tidbConfig) {
+    try {
+      purgeHistory = await listPurgeHistory({ limit: 10 });
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_purge_history_load_error', { code: info.code, message: info.message });
+    }
+  }
+
+  let purgeQueue: PurgeQueueSummary | null = null;
+  if (tidbConfig) {
+    try {
+      purgeQueue = await fetchPurgeQueueSummary();
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_purge_queue_load_error', { code: info.code, message: info.message });
+    }
+  }
+
   const props: ConnectivityPanelProps = {
     sessionToken: adminConfig ? await issueAdminSessionToken(adminConfig) : null,
     cloudflare: {
       hasImagesCredentials: Boolean(imagesConfig),
       hasPurgeCredentials: Boolean(purgeConfig),
+      configError: purgeConfigError,
       includeProductUrls: purgeConfig?.includeProductUrls ?? false,
       enablePurgeOnPublish: purgeConfig?.enablePurgeOnPublish ?? false,
-      zoneIdLabel: obfuscateId(purgeConfig?.zoneId ?? null),
+      sites: purgeConfigs.map((config) => ({
+        id: config.id,
+        hostnames: config.hostnames,
+        urlPatterns: config.urlPatterns,
+        zoneIdLabel: obfuscateId(config.zoneId),
+      })),
     },
     algoliaConfigured: Boolean(algoliaConfig),
     algoliaIndexName: algoliaConfig?.indexName ?? null,
     tidbConfigured: Boolean(tidbConfig),
+    purgeHistory,
+    purgeQueue,
   };
 
   return <ConnectivityPanel {...props} />;
@@ -0,0 +1,33 @@
+import PublishingPanel, { type PublishingPanelProps } from './publishing-panel';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { listScheduledPosts } from '@/lib/server/tidb/publishing';
+
+export default async function AdminPublishingPage() {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+
+  let scheduled: PublishingPanelProps['scheduled'] = [];
+  let loadError: PublishingPanelProps['loadError'] = null;
+
+  if (tidbConfigured) {
+    try {
+      scheduled = await listScheduledPosts();
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_publishing_load_error', { code: info.code, message: info.message });
+      loadError = { code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message };
+    }
+  }
+
+  const props: PublishingPanelProps = {
+    sessionToken: adminConfig ? await issueAdminSessionToken(adminConfig) : null,
+    tidbConfigured,
+    scheduled,
+    loadError,
+  };
+
+  return <PublishingPanel {...props} />;
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCallback, useState } from 'react';
+
+import type { PublishedPost, ScheduledPost } from '@/lib/server/tidb/publishing';
+
+import { formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface PublishingPanelProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+  scheduled: ScheduledPost[];
+  loadError: { code: string; details?: string } | null;
+}
+
+type RunStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface RunState {
+  status: RunStatus;
+  timestamp?: string;
+  published?: PublishedPost[];
+  rayIds?: string[];
+  errorCode?: string;
+  details?: string;
+}
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'missing_env':
+      return 'Faltan las variables de TiDB.';
+    case 'timeout':
+      return 'TiDB no respondió a tiempo.';
+    case 'auth_failed':
+      return 'TiDB rechazó las credenciales configuradas.';
+    default:
+      return 'No se pudo completar la publicación programada.';
+  }
+}
+
+function ScheduledTable({ posts }: { posts: ScheduledPost[] }) {
+  return (
+    <div className="admin-table-wrapper">
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Publicación</th>
+            <th>Título</th>
+            <th>Slug</th>
+            <th>Categoría</th>
+          </tr>
+        </thead>
+        <tbody>
+          {posts.map((post) => (
+            <tr key={post.slug}>
+              <td>{formatTimestampLabel(post.scheduled_at)}</td>
+              <td>{post.title ?? '—'}</td>
+              <td>
+                <Link href={`/admin/edit-blog?slug=${encodeURIComponent(post.slug)}`} prefetch={false}>
+                  {post.slug}
+                </Link>
+              </td>
+              <td>{post.category_slug ?? '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function PublishingPanel(props: PublishingPanelProps) {
+  const { sessionToken, tidbConfigured, scheduled, loadError } = props;
+  const callEndpoint = useAdminApi(sessionToken);
+  const router = useRouter();
+
+  const [runState, setRunState] = useState<RunState>({ status: 'idle' });
+
+  const due = scheduled.filter((post) => post.due);
+  const upcoming = scheduled.filter((post) => !post.due);
+
+  const runNow = useCallback(async () => {
+    setRunState({ status: 'loading' });
+    try {
+      const data = await callEndpoint<{ published?: PublishedPost[] }>('/api/admin/publishing/run', 'POST');
+      const timestamp = new Date().toISOString();
+      if (!data.ok) {
+        console.warn('admin_publishing_run_failure', { errorCode: data.error_code });
+        setRunState({
+          status: 'error',
+          timestamp,
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      const published = Array.isArray(data.published) ? data.published : [];
+      console.info('admin_publishing_run', { published: published.map((post) => post.slug) });
+      setRunState({ status: 'success', timestamp, published, rayIds: data.ray_ids ?? [] });
+      router.refresh();
+    } catch (error) {
+      console.error('admin_publishing_run_failed', { error: (error as Error)?.message });
+      setRunState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, router]);
+
+  return (
+    <div className="admin-grid">
+      <section className="admin-card">
+        <div className="admin-card-header">
+          <div>
+            <h2 className="admin-card-title">Publicación programada</h2>
+            <p className="admin-card-description">
+              Los borradores con fecha programada (scheduled_at) quedan en cola. Un cron que llama a
+              /api/admin/publishing/run publica los vencidos, revalida sus rutas y purga la caché de Cloudflare.
+            </p>
+          </div>
+          <button
+            type="button"
+            className="admin-button"
+            onClick={runNow}
+            disabled={!tidbConfigured || runState.status === 'loading'}
+          >
+            {runState.status === 'loading' ? 'Publicando…' : 'Publicar vencidos ahora'}
+          </button>
+        </div>
+
+        {runState.status === 'success' && runState.published && (
+          <div className="success-block">
+            {formatTimestampLabel(runState.timestamp)} · Publicados: {runState.published.length}
+            {runState.published.length > 0 ? ` (${runState.published.map((post) => post.slug).join(', ')})` : ''}
+            {runState.rayIds && runState.rayIds.length > 0 ? ` · Ray IDs: ${runState.rayIds.join(', ')}` : ''}
+          </div>
+        )}
+
+        {runState.status === 'error' && runState.errorCode && (
+          <div className="error-block">
+            {getErrorMessage(runState.errorCode)} Código: {runState.errorCode}
+            {runState.details ? ` — ${runState.details}` : ''}
+          </div>
+        )}
+      </section>
+
+      {!tidbConfigured && (
+        <div className="warning-block">Configura las variables de TiDB para consultar la programación.</div>
+      )}
+
+      {loadError && (
+        <div className="error-block">
+          {getErrorMessage(loadError.code)} Código: {loadError.code}
+          {loadError.details ? ` — ${loadError.details}` : ''}
+        </div>
+      )}
+
+      {due.length > 0 && (
+        <section className="admin-card">
+          <div>
+            <h2 className="admin-card-title">Pendientes de publicar</h2>
+            <p className="admin-card-description">
+              Su fecha ya pasó; se publicarán en la próxima ejecución del cron.
+            </p>
+          </div>
+          <ScheduledTable posts={due} />
+        </section>
+      )}
+
+      {tidbConfigured && !loadError && (
+        <section className="admin-card">
+          <div>
+            <h2 className="admin-card-title">Próximas publicaciones</h2>
+          </div>
+          {upcoming.length === 0 ? (
+            <p className="muted">No hay artículos programados.</p>
+          ) : (
+            <ScheduledTable posts={upcoming} />
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
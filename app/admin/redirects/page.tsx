@@ -0,0 +1,33 @@
+import RedirectsPanel, { type RedirectsPanelProps } from './redirects-panel';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { listRedirects } from '@/lib/server/tidb/redirects';
+
+export default async function AdminRedirectsPage() {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+
+  let redirects: RedirectsPanelProps['redirects'] = [];
+  let loadError: RedirectsPanelProps['loadError'] = null;
+
+  if (tidbConfigured) {
+    try {
+      redirects = await listRedirects();
+    } catch (error) {
+      const info = toDbErrorInfo(error);
+      console.error('admin_redirects_load_error', { code: info.code, message: info.message });
+      loadError = { code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message };
+    }
+  }
+
+  const props: RedirectsPanelProps = {
+    sessionToken: adminConfig ? await issueAdminSessionToken(adminConfig) : null,
+    tidbConfigured,
+    redirects,
+    loadError,
+  };
+
+  return <RedirectsPanel {...props} />;
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+
+import type { RedirectRecord } from '@/lib/server/tidb/redirects';
+
+import { formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface RedirectsPanelProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+  redirects: RedirectRecord[];
+  loadError: { code: string; details?: string } | null;
+}
+
+type ActionStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface ActionState {
+  status: ActionStatus;
+  message?: string;
+  errorCode?: string;
+  details?: string;
+  chain?: string[];
+}
+
+interface RedirectForm {
+  source_path: string;
+  target_path: string;
+  status_code: string;
+  expires_at: string;
+}
+
+const REDIRECTS_ENDPOINT = '/api/admin/redirects';
+
+const EMPTY_FORM: RedirectForm = { source_path: '', target_path: '', status_code: '301', expires_at: '' };
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'redirect_exists':
+      return 'Ya existe una redirección desde esa ruta.';
+    case 'redirect_not_found':
+      return 'La redirección ya no existe.';
+    case 'redirect_loop':
+      return 'La redirección crearía un bucle.';
+    case 'redirect_chain':
+      return 'La redirección crearía una cadena; apunta directamente al destino final.';
+    case 'invalid_payload':
+      return 'Revisa los campos marcados.';
+    default:
+      return 'No se pudo completar la operación.';
+  }
+}
+
+function toFormValue(value: string | null): string {
+  return value ? new Date(value).toISOString().slice(0, 16) : '';
+}
+
+export default function RedirectsPanel(props: RedirectsPanelProps) {
+  const { sessionToken, tidbConfigured, loadError } = props;
+  const callEndpoint = useAdminApi(sessionToken);
+
+  const [redirects, setRedirects] = useState<RedirectRecord[]>(props.redirects);
+  const [form, setForm] = useState<RedirectForm>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [actionState, setActionState] = useState<ActionState>({ status: 'idle' });
+
+  const refresh = useCallback(async () => {
+    const data = await callEndpoint<{ redirects?: RedirectRecord[] }>(REDIRECTS_ENDPOINT, 'GET');
+    if (data.ok && Array.isArray(data.redirects)) {
+      setRedirects(data.redirects);
+    }
+  }, [callEndpoint]);
+
+  const resetForm = useCallback(() => {
+    setForm(EMPTY_FORM);
+    setFormErrors({});
+    setEditingId(null);
+  }, []);
+
+  const submit = useCallback(async () => {
+    setActionState({ status: 'loading' });
+    const payload = {
+      source_path: form.source_path,
+      target_path: form.target_path,
+      status_code: Number(form.status_code),
+      expires_at: form.expires_at ? `${form.expires_at}:00Z` : null,
+    };
+    try {
+      const data = await callEndpoint<{ redirect?: RedirectRecord; flattened?: number; chain?: string[] }>(
+        editingId ? `${REDIRECTS_ENDPOINT}/${editingId}` : REDIRECTS_ENDPOINT,
+        editingId ? 'PUT' : 'POST',
+        payload
+      );
+      if (!data.ok) {
+        console.warn('admin_redirect_save_failure', { id: editingId, errorCode: data.error_code });
+        setFormErrors(data.field_errors ?? {});
+        setActionState({
+          status: 'error',
+          errorCode: data.error_code ?? 'unknown',
+          details: typeof data.details === 'string' ? data.details : undefined,
+          chain: data.chain,
+        });
+        return;
+      }
+      resetForm();
+      await refresh();
+      const flattened = data.flattened ?? 0;
+      setActionState({
+        status: 'success',
+        message: `Redirección ${data.redirect?.source_path ?? ''} guardada.${
+          flattened > 0 ? ` ${flattened} redirecciones anteriores ahora apuntan al destino final.` : ''
+        }`,
+      });
+    } catch (error) {
+      console.error('admin_redirect_save_failed', { error: (error as Error)?.message });
+      setActionState({ status: 'error', errorCode: 'network_error', details: (error as Error)?.message });
+    }
+  }, [callEndpoint, editingId, form, refresh, resetForm]);
+
+  const remove = useCallback(
+    async (redirect: RedirectRecord) => {
+      if (!window.confirm(`¿Eliminar la redirección desde ${redirect.source_path}?`)) {
+        return;
+      }
+      setActionState({ status: 'loading' });
+      try {
+        const data = await callEndpoint<Record<string, unknown>>(`${REDIRECTS_ENDPOINT}/${redirect.id}`, 'DELETE');
+        if (!data.ok) {
+          console.warn('admin_redirect_delete_failure', { id: redirect.id, errorCode: data.error_code });
+          setActionState({
+            status: 'error',
+            errorCode: data.error_code ?? 'unknown',
+            details: typeof data.details === 'string' ? data.details : undefined,
+          });
+          return;
+        }
+        if (editingId === redirect.id) {
+          resetForm();
+        }
+        await refresh();
+        setActionState({ status: 'success', message: `Redirección ${redirect.source_path} eliminada.` });
+      } catch (error) {
+        console.error('admin_redirect_delete_failed', { id: redirect.id, error: (error as Error)?.message });
+        setActionState({ status: 'error', errorCode: 'network_error', details: (error as Error)?.message });
+      }
+    },
+    [callEndpoint, editingId, refresh, resetForm]
+  );
+
+  const busy = actionState.status === 'loading';
+
+  return (
+    <div className="admin-grid">
+      <section className="admin-card">
+        <div>
+          <h2 className="admin-card-title">{editingId ? 'Editar redirección' : 'Nueva redirección'}</h2>
+          <p className="admin-card-description">
+            Crea URLs cortas o retira páginas antiguas. El origen es una ruta del sitio (sin /admin ni /api); el
+            destino puede ser otra ruta o una URL absoluta. Se rechazan los bucles y las cadenas, y las redirecciones
+            que apuntaban al origen pasan a apuntar al nuevo destino. El middleware aplica los cambios en menos de
+            un minuto.
+          </p>
+        </div>
+
+        {!tidbConfigured && (
+          <div className="warning-block">Configura las variables de TiDB para gestionar redirecciones.</div>
+        )}
+
+        <div className="write-grid">
+          <label className="admin-field">
+            <span className="admin-field-label">source_path</span>
+            <input
+              className={`admin-input${formErrors.source_path ? ' admin-input-invalid' : ''}`}
+              placeholder="/oferta"
+              value={form.source_path}
+              onChange={(event) => setForm((prev) => ({ ...prev, source_path: event.target.value }))}
+            />
+            {formErrors.source_path && <span className="admin-field-error">{formErrors.source_path}</span>}
+          </label>
+          <label className="admin-field">
+            <span className="admin-field-label">target_path</span>
+            <input
+              className={`admin-input${formErrors.target_path ? ' admin-input-invalid' : ''}`}
+              placeholder="/c/valvulas-industriales o https://…"
+              value={form.target_path}
+              onChange={(event) => setForm((prev) => ({ ...prev, target_path: event.target.value }))}
+            />
+            {formErrors.target_path && <span className="admin-field-error">{formErrors.target_path}</span>}
+          </label>
+          <label className="admin-field">
+            <span className="admin-field-label">status_code</span>
+            <select
+              className="admin-input"
+              value={form.status_code}
+              onChange={(event) => setForm((prev) => ({ ...prev, status_code: event.target.value }))}
+            >
+              <option value="301">301 · Permanente</option>
+              <option value="302">302 · Temporal</option>
+            </select>
+            {formErrors.status_code && <span className="admin-field-error">{formErrors.status_code}</span>}
+          </label>
+          <label className="admin-field">
+            <span className="admin-field-label">expires_at (UTC, opcional)</span>
+            <input
+              className={`admin-input${formErrors.expires_at ? ' admin-input-invalid' : ''}`}
+              type="datetime-local"
+              value={form.expires_at}
+              onChange={(event) => setForm((prev) => ({ ...prev, expires_at: event.target.value }))}
+            />
+            {formErrors.expires_at && <span className="admin-field-error">{formErrors.expires_at}</span>}
+          </label>
+        </div>
+
+        <div className="write-actions">
+          <button
+            type="button"
+            className="admin-button"
+            onClick={submit}
+            disabled={!tidbConfigured || busy || !form.source_path.trim() || !form.target_path.trim()}
+          >
+            {editingId ? 'Guardar redirección' : 'Crear redirección'}
+          </button>
+          {editingId && (
+            <button type="button" className="admin-button admin-button-secondary" onClick={resetForm} disabled={busy}>
+              Cancelar
+            </button>
+          )}
+        </div>
+
+        {actionState.status === 'success' && actionState.message && (
+          <div className="success-block">{actionState.message}</div>
+        )}
+
+        {actionState.status === 'error' && actionState.errorCode && (
+          <div className="error-block">
+            {getErrorMessage(actionState.errorCode)} Código: {actionState.errorCode}
+            {actionState.chain ? ` — ${actionState.chain.join(' → ')}` : ''}
+            {!actionState.chain && actionState.details ? ` — ${actionState.details}` : ''}
+          </div>
+        )}
+      </section>
+
+      <section className="admin-card">
+        <div>
+          <h2 className="admin-card-title">Redirecciones</h2>
+          <p className="admin-card-description">
+            Incluye las creadas al cambiar el slug de productos y artículos. Las caducadas se conservan pero ya no se
+            aplican.
+          </p>
+        </div>
+
+        {loadError && (
+          <div className="error-block">
+            Código: {loadError.code}
+            {loadError.details ? ` — ${loadError.details}` : ''}
+          </div>
+        )}
+
+        {redirects.length === 0 ? (
+          <p className="muted">No hay redirecciones registradas todavía.</p>
+        ) : (
+          <div className="admin-table-wrapper">
+            <table className="admin-table">
+              <thead>
+                <tr>
+                  <th>Origen</th>
+                  <th>Destino</th>
+                  <th>Código</th>
+                  <th>Caduca</th>
+                  <th>Estado</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {redirects.map((redirect) => (
+                  <tr key={redirect.id}>
+                    <td>
+                      <code>{redirect.source_path}</code>
+                    </td>
+                    <td>
+                      <code>{redirect.target_path}</code>
+                    </td>
+                    <td>{redirect.status_code}</td>
+                    <td>{redirect.expires_at ? formatTimestampLabel(redirect.expires_at) : '—'}</td>
+                    <td>
+                      <span className={`status-badge ${redirect.expired ? 'status-idle' : 'status-success'}`}>
+                        {redirect.expired ? 'Caducada' : 'Activa'}
+                      </span>
+                      {redirect.entity_type && <span className="muted"> · slug</span>}
+                    </td>
+                    <td>
+                      <div className="button-row">
+                        <button
+                          type="button"
+                          className="admin-button admin-button-secondary admin-button-small"
+                          onClick={() => {
+                            setEditingId(redirect.id);
+                            setForm({
+                              source_path: redirect.source_path,
+                              target_path: redirect.target_path,
+                              status_code: String(redirect.status_code),
+                              expires_at: toFormValue(redirect.expires_at),
+                            });
+                            setFormErrors({});
+                          }}
+                          disabled={busy}
+                        >
+                          Editar
+                        </button>
+                        <button
+                          type="button"
+                          className="admin-button admin-button-danger admin-button-small"
+                          onClick={() => remove(redirect)}
+                          disabled={busy}
+                        >
+                          Eliminar
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
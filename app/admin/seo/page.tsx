@@ -0,0 +1,18 @@
+import SeoAuditCard from './seo-audit-card';
+import StructuredDataCard from './structured-data-card';
+
+import { getAdminAuthConfig, issueAdminSessionToken } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+
+export default async function AdminSeoPage() {
+  const adminConfig = getAdminAuthConfig();
+  const tidbConfigured = Boolean(loadTiDbCredentials());
+  const sessionToken = adminConfig ? await issueAdminSessionToken(adminConfig) : null;
+
+  return (
+    <div className="admin-grid">
+      <SeoAuditCard sessionToken={sessionToken} tidbConfigured={tidbConfigured} />
+      <StructuredDataCard sessionToken={sessionToken} tidbConfigured={tidbConfigured} />
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useMemo, useState } from 'react';
+
+import type {
+  SeoAuditCode,
+  SeoAuditEntityType,
+  SeoAuditIssue,
+  SeoAuditReport,
+  SeoAuditSeverity,
+} from '@/lib/server/tidb/seo-audit';
+
+import { formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface SeoAuditCardProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+}
+
+type AuditStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface AuditState {
+  status: AuditStatus;
+  timestamp?: string;
+  report?: SeoAuditReport;
+  errorCode?: string;
+  details?: string;
+}
+
+const AUDIT_ENDPOINT = '/api/admin/seo/audit';
+
+const CODE_LABELS: Record<SeoAuditCode, string> = {
+  seo_title_missing: 'Sin seo_title',
+  seo_title_too_long: 'seo_title demasiado largo',
+  seo_description_missing: 'Sin seo_description',
+  seo_description_too_long: 'seo_description demasiado larga',
+  duplicate_title: 'Título duplicado',
+  hero_missing: 'Sin imagen principal',
+  cta_invalid_url: 'URL de CTA inválida',
+  cta_unreachable: 'URL de CTA rota',
+  content_empty: 'Contenido vacío',
+};
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'missing_env':
+      return 'Faltan las variables de TiDB.';
+    case 'timeout':
+      return 'TiDB no respondió a tiempo.';
+    case 'auth_failed':
+      return 'TiDB rechazó las credenciales configuradas.';
+    default:
+      return 'No se pudo ejecutar la auditoría SEO.';
+  }
+}
+
+function getEditorHref(issue: SeoAuditIssue): string {
+  const base = issue.entity_type === 'product' ? '/admin/edit-product' : '/admin/edit-blog';
+  return `${base}?slug=${encodeURIComponent(issue.slug)}`;
+}
+
+export default function SeoAuditCard({ sessionToken, tidbConfigured }: SeoAuditCardProps) {
+  const callEndpoint = useAdminApi(sessionToken);
+  const [checkLinks, setCheckLinks] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<SeoAuditEntityType | ''>('');
+  const [severityFilter, setSeverityFilter] = useState<SeoAuditSeverity | ''>('');
+  const [codeFilter, setCodeFilter] = useState<SeoAuditCode | ''>('');
+  const [auditState, setAuditState] = useState<AuditState>({ status: 'idle' });
+
+  const runAudit = useCallback(async () => {
+    setAuditState({ status: 'loading' });
+    try {
+      const params = new URLSearchParams({ format: 'json' });
+      if (checkLinks) {
+        params.set('check_links', '1');
+      }
+      const data = await callEndpoint<Partial<SeoAuditReport>>(`${AUDIT_ENDPOINT}?${params.toString()}`, 'GET');
+      const timestamp = new Date().toISOString();
+      if (!data.ok) {
+        console.warn('admin_seo_audit_failure', { errorCode: data.error_code });
+        setAuditState({
+          status: 'error',
+          timestamp,
+          errorCode: data.error_code,
+          details: typeof data.details === 'string' ? data.details : undefined,
+        });
+        return;
+      }
+      setAuditState({
+        status: 'success',
+        timestamp,
+        report: {
+          generated_at: data.generated_at ?? timestamp,
+          checked_links: Boolean(data.checked_links),
+          scanned: data.scanned ?? { product: 0, post: 0 },
+          summary: data.summary ?? {},
+          issues: data.issues ?? [],
+        },
+      });
+    } catch (error) {
+      console.error('admin_seo_audit_failed', { error: (error as Error)?.message });
+      setAuditState({
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        errorCode: 'network_error',
+        details: (error as Error)?.message,
+      });
+    }
+  }, [callEndpoint, checkLinks]);
+
+  const exportHref = useMemo(() => {
+    const params = new URLSearchParams({ format: 'csv' });
+    if (checkLinks) {
+      params.set('check_links', '1');
+    }
+    return `${AUDIT_ENDPOINT}?${params.toString()}`;
+  }, [checkLinks]);
+
+  const report = auditState.report;
+  const visibleIssues = useMemo(
+    () =>
+      (report?.issues ?? []).filter(
+        (issue) =>
+          (!typeFilter || issue.entity_type === typeFilter) &&
+          (!severityFilter || issue.severity === severityFilter) &&
+          (!codeFilter || issue.code === codeFilter)
+      ),
+    [codeFilter, report, severityFilter, typeFilter]
+  );
+
+  return (
+    <section className="admin-card">
+      <div>
+        <h2 className="admin-card-title">Auditoría SEO</h2>
+        <p className="admin-card-description">
+          Revisa todos los productos y artículos: seo_title y seo_description ausentes o demasiado largos, títulos
+          repetidos entre slugs, imágenes principales ausentes, URLs de CTA rotas y contenido vacío. La comprobación
+          HTTP de los CTA es opcional porque hace una petición por URL.
+        </p>
+      </div>
+
+      {!tidbConfigured && (
+        <div className="warning-block">Configura las variables de TiDB para ejecutar la auditoría.</div>
+      )}
+
+      <div className="write-actions">
+        <button
+          type="button"
+          className="admin-button"
+          onClick={runAudit}
+          disabled={!tidbConfigured || auditState.status === 'loading'}
+        >
+          {auditState.status === 'loading' ? 'Auditando…' : 'Ejecutar auditoría'}
+        </button>
+        <label className="admin-field admin-field-inline">
+          <input type="checkbox" checked={checkLinks} onChange={(event) => setCheckLinks(event.target.checked)} />
+          <span className="admin-field-label">Comprobar CTA por HTTP</span>
+        </label>
+        {tidbConfigured && (
+          <a className="admin-button admin-button-secondary" href={exportHref} download>
+            Exportar CSV
+          </a>
+        )}
+      </div>
+
+      {auditState.status === 'error' && auditState.errorCode && (
+        <div className="error-block">
+          {getErrorMessage(auditState.errorCode)} Código: {auditState.errorCode}
+          {auditState.details ? ` — ${auditState.details}` : ''}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="metric-grid">
+            <div className="metric-block">
+              <span className="metric-label">Analizados</span>
+              <span className="metric-value">{report.scanned.product + report.scanned.post}</span>
+              <span className="metric-secondary">
+                {report.scanned.product} productos · {report.scanned.post} artículos
+              </span>
+            </div>
+            <div className="metric-block">
+              <span className="metric-label">Incidencias</span>
+              <span className="metric-value">{report.issues.length}</span>
+              <span className="metric-secondary">{formatTimestampLabel(report.generated_at)}</span>
+            </div>
+          </div>
+
+          <div className="write-actions">
+            <select
+              className="admin-input"
+              value={typeFilter}
+              onChange={(event) => setTypeFilter(event.target.value as SeoAuditEntityType | '')}
+            >
+              <option value="">Productos y artículos</option>
+              <option value="product">Productos</option>
+              <option value="post">Artículos</option>
+            </select>
+            <select
+              className="admin-input"
+              value={severityFilter}
+              onChange={(event) => setSeverityFilter(event.target.value as SeoAuditSeverity | '')}
+            >
+              <option value="">Errores y avisos</option>
+              <option value="error">Errores</option>
+              <option value="warning">Avisos</option>
+            </select>
+            <select
+              className="admin-input"
+              value={codeFilter}
+              onChange={(event) => setCodeFilter(event.target.value as SeoAuditCode | '')}
+            >
+              <option value="">Todas las incidencias</option>
+              {(Object.keys(CODE_LABELS) as SeoAuditCode[]).map((code) => (
+                <option key={code} value={code}>
+                  {CODE_LABELS[code]} ({report.summary[code] ?? 0})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {visibleIssues.length === 0 ? (
+            <div className="success-block">No hay incidencias con estos filtros.</div>
+          ) : (
+            <div className="admin-table-wrapper">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Tipo</th>
+                    <th>Slug</th>
+                    <th>Incidencia</th>
+                    <th>Campo</th>
+                    <th>Detalle</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleIssues.map((issue, index) => (
+                    <tr key={`${issue.entity_type}:${issue.slug}:${issue.code}:${issue.field}:${index}`}>
+                      <td>{issue.entity_type === 'product' ? 'Producto' : 'Artículo'}</td>
+                      <td>
+                        <Link href={getEditorHref(issue)}>{issue.slug}</Link>
+                      </td>
+                      <td>
+                        <span
+                          className={`status-badge ${issue.severity === 'error' ? 'status-error' : 'status-warning'}`}
+                        >
+                          {CODE_LABELS[issue.code]}
+                        </span>
+                      </td>
+                      <td>
+                        <code>{issue.field}</code>
+                      </td>
+                      <td>{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
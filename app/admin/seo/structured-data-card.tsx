@@ -0,0 +1,162 @@
+'use client';
+
+import { useCallback, useState, type FormEvent } from 'react';
+
+import type { StructuredDataDocument, StructuredDataType } from '@/lib/server/structured-data';
+
+import { formatJson, formatTimestampLabel, useAdminApi } from '../admin-client';
+
+export interface StructuredDataCardProps {
+  sessionToken: string | null;
+  tidbConfigured: boolean;
+}
+
+type CheckStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface CheckState {
+  status: CheckStatus;
+  timestamp?: string;
+  documents?: StructuredDataDocument[];
+  errorCode?: string;
+  details?: string;
+}
+
+function getErrorMessage(code: string): string {
+  switch (code) {
+    case 'product_not_found':
+      return 'No hay un producto público con ese slug.';
+    case 'post_not_found':
+      return 'No hay un artículo con ese slug.';
+    case 'category_not_found':
+      return 'La categoría no existe.';
+    case 'timeout':
+      return 'TiDB no respondió a tiempo.';
+    case 'auth_failed':
+      return 'TiDB rechazó las credenciales configuradas.';
+    default:
+      return 'No se pudo validar los datos estructurados.';
+  }
+}
+
+export default function StructuredDataCard({ sessionToken, tidbConfigured }: StructuredDataCardProps) {
+  const callEndpoint = useAdminApi(sessionToken);
+  const [type, setType] = useState<StructuredDataType>('product');
+  const [slug, setSlug] = useState('');
+  const [checkState, setCheckState] = useState<CheckState>({ status: 'idle' });
+
+  const validate = useCallback(
+    async (event: FormEvent) => {
+      event.preventDefault();
+      const trimmed = slug.trim();
+      if (!trimmed) {
+        return;
+      }
+      setCheckState({ status: 'loading' });
+      try {
+        const params = new URLSearchParams({ type, slug: trimmed });
+        const data = await callEndpoint<{ documents?: StructuredDataDocument[] }>(
+          `/api/admin/seo/structured-data?${params.toString()}`,
+          'GET'
+        );
+        const timestamp = new Date().toISOString();
+        if (!data.ok) {
+          console.warn('admin_structured_data_failure', { type, slug: trimmed, errorCode: data.error_code });
+          setCheckState({
+            status: 'error',
+            timestamp,
+            errorCode: data.error_code,
+            details: typeof data.details === 'string' ? data.details : undefined,
+          });
+          return;
+        }
+        setCheckState({ status: 'success', timestamp, documents: data.documents ?? [] });
+      } catch (error) {
+        console.error('admin_structured_data_failed', { type, slug: trimmed, error: (error as Error)?.message });
+        setCheckState({
+          status: 'error',
+          timestamp: new Date().toISOString(),
+          errorCode: 'network_error',
+          details: (error as Error)?.message,
+        });
+      }
+    },
+    [callEndpoint, slug, type]
+  );
+
+  return (
+    <section className="admin-card">
+      <div>
+        <h2 className="admin-card-title">Validador de datos estructurados</h2>
+        <p className="admin-card-description">
+          Genera el JSON-LD que publica cada página (Product/Offer en /p, BlogPosting en /b y BreadcrumbList en /c y
+          /bc) y señala las propiedades obligatorias o recomendadas que faltan.
+        </p>
+      </div>
+
+      {!tidbConfigured && (
+        <div className="warning-block">Configura las variables de TiDB para validar datos estructurados.</div>
+      )}
+
+      <form className="write-actions" onSubmit={validate}>
+        <select
+          className="admin-input"
+          value={type}
+          onChange={(event) => setType(event.target.value as StructuredDataType)}
+        >
+          <option value="product">Producto</option>
+          <option value="post">Artículo</option>
+          <option value="category">Categoría</option>
+        </select>
+        <input
+          className="admin-input admin-input-grow"
+          placeholder="slug"
+          value={slug}
+          onChange={(event) => setSlug(event.target.value)}
+        />
+        <button
+          type="submit"
+          className="admin-button"
+          disabled={!tidbConfigured || !slug.trim() || checkState.status === 'loading'}
+        >
+          {checkState.status === 'loading' ? 'Validando…' : 'Validar'}
+        </button>
+      </form>
+
+      {checkState.status === 'error' && checkState.errorCode && (
+        <div className="error-block">
+          {getErrorMessage(checkState.errorCode)} Código: {checkState.errorCode}
+          {checkState.details ? ` — ${checkState.details}` : ''}
+        </div>
+      )}
+
+      {checkState.status === 'success' &&
+        checkState.documents?.map((document, index) => {
+          const errors = document.issues.filter((issue) => issue.severity === 'error');
+          return (
+            <div key={index} className="editor-section">
+              <div className="activity-headline">
+                <span className={`status-badge ${errors.length > 0 ? 'status-error' : 'status-success'}`}>
+                  {errors.length > 0 ? `${errors.length} errores` : 'Válido'}
+                </span>
+                <span>{String(document.json_ld['@type'])}</span>
+                <span className="muted">{formatTimestampLabel(checkState.timestamp)}</span>
+              </div>
+              {document.issues.length > 0 && (
+                <ul className="diff-list">
+                  {document.issues.map((issue) => (
+                    <li key={`${issue.severity}:${issue.property}:${issue.message}`}>
+                      <span className={issue.severity === 'error' ? 'diff-before' : 'status-warning'}>
+                        {issue.severity === 'error' ? 'Error' : 'Aviso'}
+                      </span>{' '}
+                      <code>{issue.property}</code> — {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <pre className="json-preview">{formatJson(document.json_ld)}</pre>
+            </div>
+          );
+        })}
+    </section>
+  );
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { categoryCacheTag, postCacheTag, productCacheTag } from '@/lib/cache-tags';
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { getCloudflarePurgeConfigs, type CloudflarePurgeConfig } from '@/lib/server/cloudflare/purge';
+import { enqueueCloudflarePurge } from '@/lib/server/cloudflare/purge-queue';
+import { failedPurgeSummary, summarizePurgeOutcome } from '@/lib/server/cloudflare/publish-purge';
+import {
+  CategoryExistsError,
+  CategoryInUseError,
+  CategoryNotFoundError,
+  deleteCategory,
+  updateCategory,
+} from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
+
+export async function PUT(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug' }, { status: 400 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_category_update_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await updateCategory(
+      slug,
+      {
+        name: payload.name as string | undefined,
+        description: payload.description as string | null | undefined,
+        sort_order: payload.sort_order as number | string | null | undefined,
+        new_slug: typeof payload.new_slug === 'string' ? payload.new_slug : undefined,
+      },
+      { author: resolveAdminActor(request) }
+    );
+    const purge = await purgeCategoryTags(request, [result.previousSlug, result.category.slug], result);
+    console.info('admin_category_update', { slug, nextSlug: result.category.slug });
+    return NextResponse.json({ ok: true, category: result.category, previous_slug: result.previousSlug, ...purge });
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CategoryNotFoundError) {
+      return NextResponse.json({ ok: false, error_code: 'category_not_found' }, { status: 404 });
+    }
+    if (error instanceof CategoryExistsError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'category_exists',
+          details: error.message,
+          field_errors: { new_slug: error.message },
+        },
+        { status: 409 }
+      );
+    }
+    return dbErrorResponse('admin_category_update_error', slug, error);
+  }
+}
+
+export async function DELETE(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug' }, { status: 400 });
+  }
+
+  const reassignTo = request.nextUrl.searchParams.get('reassign_to');
+
+  try {
+    const result = await deleteCategory(slug, { reassignTo, author: resolveAdminActor(request) });
+    const purge = await purgeCategoryTags(request, [result.slug, result.reassignedTo], result);
+    console.info('admin_category_delete', {
+      slug,
+      reassignedTo: result.reassignedTo,
+      productsReassigned: result.productsReassigned,
+      postsReassigned: result.postsReassigned,
+    });
+    return NextResponse.json({
+      ok: true,
+      slug: result.slug,
+      reassigned_to: result.reassignedTo,
+      products_reassigned: result.productsReassigned,
+      posts_reassigned: result.postsReassigned,
+      ...purge,
+    });
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CategoryNotFoundError) {
+      const code = error.slug === slug.trim() ? 'category_not_found' : 'invalid_reassign_target';
+      return NextResponse.json(
+        { ok: false, error_code: code, details: error.message },
+        { status: code === 'category_not_found' ? 404 : 400 }
+      );
+    }
+    if (error instanceof CategoryInUseError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'category_in_use',
+          product_count: error.productCount,
+          post_count: error.postCount,
+        },
+        { status: 409 }
+      );
+    }
+    return dbErrorResponse('admin_category_delete_error', slug, error);
+  }
+}
+
+async function purgeCategoryTags(
+  request: NextRequest,
+  slugs: Array<string | null | undefined>,
+  moved: { productSlugs: string[]; postSlugs: string[] }
+) {
+  let configs: CloudflarePurgeConfig[];
+  try {
+    configs = getCloudflarePurgeConfigs();
+  } catch (error) {
+    console.warn('admin_category_purge_failed', { error: (error as Error)?.message });
+    return failedPurgeSummary(error);
+  }
+  if (configs.length === 0) {
+    return summarizePurgeOutcome(null);
+  }
+  const tags = Array.from(
+    new Set([
+      ...slugs.filter((slug): slug is string => Boolean(slug)).map((slug) => categoryCacheTag(slug)),
+      ...moved.productSlugs.map((slug) => productCacheTag(slug)),
+      ...moved.postSlugs.map((slug) => postCacheTag(slug)),
+    ])
+  );
+  try {
+    const outcome = await enqueueCloudflarePurge('tags', tags, configs, {
+      actor: resolveAdminActor(request),
+      source: 'publish',
+    });
+    return summarizePurgeOutcome(outcome);
+  } catch (error) {
+    console.warn('admin_category_purge_failed', { tags, error: (error as Error)?.message });
+    return failedPurgeSummary(error);
+  }
+}
+
+function dbErrorResponse(event: string, slug: string, error: unknown) {
+  const info = toDbErrorInfo(error);
+  console.error(event, {
+    slug,
+    code: info.code,
+    message: info.message,
+    sqlState: info.sqlState,
+  });
+  const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+  return NextResponse.json(
+    { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+    { status }
+  );
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  CategoryExistsError,
+  CategoryNotFoundError,
+  createCategory,
+  listCategories,
+  reorderCategories,
+} from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
+
+export async function GET() {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  try {
+    const categories = await listCategories();
+    return NextResponse.json({ ok: true, categories });
+  } catch (error) {
+    return dbErrorResponse('admin_category_list_error', error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_category_create_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  try {
+    const category = await createCategory({
+      slug: payload.slug as string | undefined,
+      name: payload.name as string | undefined,
+      description: payload.description as string | null | undefined,
+      sort_order: payload.sort_order as number | string | null | undefined,
+    });
+    console.info('admin_category_create', { slug: category.slug });
+    return NextResponse.json({ ok: true, category }, { status: 201 });
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CategoryExistsError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'category_exists', details: error.message, field_errors: { slug: error.message } },
+        { status: 409 }
+      );
+    }
+    return dbErrorResponse('admin_category_create_error', error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_category_reorder_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  if (!Array.isArray(payload.order) || payload.order.some((slug) => typeof slug !== 'string')) {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: 'Field order must be an array of category slugs.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const categories = await reorderCategories(payload.order as string[]);
+    console.info('admin_category_reorder', { count: categories.length });
+    return NextResponse.json({ ok: true, categories });
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CategoryNotFoundError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'category_not_found', details: error.message },
+        { status: 404 }
+      );
+    }
+    return dbErrorResponse('admin_category_reorder_error', error);
+  }
+}
+
+function dbErrorResponse(event: string, error: unknown) {
+  const info = toDbErrorInfo(error);
+  console.error(event, {
+    code: info.code,
+    message: info.message,
+    sqlState: info.sqlState,
+  });
+  const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+  return NextResponse.json(
+    { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+    { status }
+  );
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import {
+  MissingCloudflarePurgeEnvError,
+  getCloudflarePurgeConfigs,
+  rerunCloudflarePurge,
+} from '@/lib/server/cloudflare/purge';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { PurgeHistoryNotFoundError, fetchPurgeHistoryEntry } from '@/lib/server/tidb/purge-history';
+
+export async function POST(request: NextRequest, context: { params: { id: string } }) {
+  const id = context.params.id;
+
+  try {
+    const configs = getCloudflarePurgeConfigs();
+    if (configs.length === 0 || !loadTiDbCredentials()) {
+      throw new MissingCloudflarePurgeEnvError();
+    }
+    if (!/^\d+$/.test(id)) {
+      throw new PurgeHistoryNotFoundError(id);
+    }
+
+    const entry = await fetchPurgeHistoryEntry(id);
+    if (entry.mode === 'files' && entry.urls.length === 0) {
+      return NextResponse.json({ ok: false, error_code: 'empty_batch', ray_ids: [] }, { status: 400 });
+    }
+
+    const results = await rerunCloudflarePurge(entry, configs, resolveAdminActor(request));
+    const rayIds = results.flatMap((result) => result.rayIds);
+    const latency = results.reduce((total, result) => total + result.latencyMs, 0);
+    const attempts = results.reduce((total, result) => total + result.attempts, 0);
+    const ok = results.every((result) => result.ok);
+
+    const logger = ok ? console.info : console.warn;
+    logger('cloudflare_purge_rerun', {
+      id,
+      mode: entry.mode,
+      ok,
+      latencyMs: latency,
+      attempts,
+      rayIds,
+    });
+
+    return NextResponse.json({
+      ok,
+      latency_ms: latency,
+      ray_ids: rayIds,
+      attempts,
+      rerun_of: id,
+      error_code: ok ? undefined : 'http_error',
+    });
+  } catch (error) {
+    if (error instanceof MissingCloudflarePurgeEnvError) {
+      return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+    }
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_config', details: error.message, ray_ids: [] },
+        { status: 503 }
+      );
+    }
+    if (error instanceof PurgeHistoryNotFoundError) {
+      return NextResponse.json({ ok: false, error_code: 'history_not_found', ray_ids: [] }, { status: 404 });
+    }
+
+    console.error('cloudflare_purge_rerun_error', {
+      id,
+      error: (error as Error)?.message,
+    });
+
+    return NextResponse.json({ ok: false, error_code: 'unexpected_error', ray_ids: [] }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { listPurgeHistory } from '@/lib/server/tidb/purge-history';
+
+export async function GET(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const limitParam = Number(params.get('limit') ?? 20);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.trunc(limitParam), 1), 100) : 20;
+  const cursor = params.get('cursor');
+  if (cursor && !/^\d+$/.test(cursor)) {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: 'Parameter cursor must be a history id.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const page = await listPurgeHistory({ limit, cursor });
+    return NextResponse.json({ ok: true, ...page }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('cloudflare_purge_history_list_error', {
+      cursor,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
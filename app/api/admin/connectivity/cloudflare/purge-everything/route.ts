@@ -1,33 +1,52 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
+import { resolveAdminActor } from '@/lib/server/admin/auth';
 import {
   MissingCloudflarePurgeEnvError,
   getCloudflarePurgeConfig,
+  getCloudflarePurgeConfigs,
   purgeCloudflareEverything,
+  type PurgeContext,
+  type PurgeResult,
 } from '@/lib/server/cloudflare/purge';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    const config = getCloudflarePurgeConfig();
-    if (!config) {
+    const payload = await request.json().catch(() => ({}));
+    const configs = getCloudflarePurgeConfigs();
+    if (configs.length === 0) {
       throw new MissingCloudflarePurgeEnvError();
     }
+    const site = typeof payload?.site === 'string' ? payload.site : null;
+    const siteConfig = site ? getCloudflarePurgeConfig(site) : null;
+    if (site && !siteConfig) {
+      return NextResponse.json({ ok: false, error_code: 'site_not_found', ray_ids: [] }, { status: 404 });
+    }
 
-    const result = await purgeCloudflareEverything(config);
+    const targetConfigs = siteConfig ? [siteConfig] : configs;
+    const context: PurgeContext = { actor: resolveAdminActor(request), source: 'manual' };
+    const results: PurgeResult[] = [];
+    for (const config of targetConfigs) {
+      results.push(await purgeCloudflareEverything(config, context));
+    }
+    const ok = results.every((result) => result.ok);
     const responseBody = {
-      ok: result.ok,
-      latency_ms: result.latencyMs,
-      ray_ids: result.rayIds,
-      attempts: result.attempts,
-      error_code: result.ok ? undefined : 'http_error',
+      ok,
+      sites: targetConfigs.map((config) => config.id),
+      latency_ms: results.reduce((total, result) => total + result.latencyMs, 0),
+      ray_ids: results.flatMap((result) => result.rayIds),
+      attempts: results.reduce((total, result) => total + result.attempts, 0),
+      error_code: ok ? undefined : 'http_error',
     } as const;
 
-    const logger = result.ok ? console.info : console.warn;
+    const logger = ok ? console.info : console.warn;
     logger('cloudflare_purge_everything_endpoint', {
-      ok: result.ok,
-      latencyMs: result.latencyMs,
-      attempts: result.attempts,
-      rayIds: result.rayIds,
+      ok,
+      sites: responseBody.sites,
+      latencyMs: responseBody.latency_ms,
+      attempts: responseBody.attempts,
+      rayIds: responseBody.ray_ids,
     });
 
     return NextResponse.json(responseBody);
@@ -39,6 +58,14 @@ export async function POST() {
         ray_ids: [],
       });
     }
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json({
+        ok: false,
+        error_code: 'invalid_config',
+        details: error.message,
+        ray_ids: [],
+      });
+    }
 
     console.error('cloudflare_purge_everything_endpoint_error', {
       error: (error as Error)?.message,
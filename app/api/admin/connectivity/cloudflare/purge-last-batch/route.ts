@@ -1,20 +1,23 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
+import { resolveAdminActor } from '@/lib/server/admin/auth';
 import {
   MissingCloudflarePurgeEnvError,
-  getCloudflarePurgeConfig,
-  purgeCloudflareUrls,
+  getCloudflarePurgeConfigs,
+  rerunCloudflarePurge,
 } from '@/lib/server/cloudflare/purge';
-import { getLastCloudflarePurgeBatch } from '@/lib/server/cloudflare/state';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { fetchLatestPurgeBatch } from '@/lib/server/tidb/purge-history';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    const config = getCloudflarePurgeConfig();
-    if (!config) {
+    const configs = getCloudflarePurgeConfigs();
+    if (configs.length === 0) {
       throw new MissingCloudflarePurgeEnvError();
     }
 
-    const batch = getLastCloudflarePurgeBatch();
+    const batch = loadTiDbCredentials() ? await fetchLatestPurgeBatch() : null;
     if (!batch || batch.urls.length === 0) {
       return NextResponse.json({
         ok: false,
@@ -23,7 +26,7 @@ export async function POST() {
       });
     }
 
-    const results = await purgeCloudflareUrls(batch.urls, config);
+    const results = await rerunCloudflarePurge(batch, configs, resolveAdminActor(request));
     const rayIds = results.flatMap((result) => result.rayIds);
     const latency = results.reduce((total, result) => total + result.latencyMs, 0);
     const attempts = results.reduce((total, result) => total + result.attempts, 0);
@@ -31,12 +34,14 @@ export async function POST() {
 
     if (ok) {
       console.info('cloudflare_purge_last_batch', {
+        batchId: batch.id,
         latencyMs: latency,
         attempts,
         rayIds,
       });
     } else {
       console.warn('cloudflare_purge_last_batch_error', {
+        batchId: batch.id,
         latencyMs: latency,
         attempts,
         rayIds,
@@ -48,6 +53,7 @@ export async function POST() {
       latency_ms: latency,
       ray_ids: rayIds,
       attempts,
+      rerun_of: batch.id,
       error_code: ok ? undefined : 'http_error',
     });
   } catch (error) {
@@ -58,6 +64,14 @@ export async function POST() {
         ray_ids: [],
       });
     }
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json({
+        ok: false,
+        error_code: 'invalid_config',
+        details: error.message,
+        ray_ids: [],
+      });
+    }
 
     console.error('cloudflare_purge_last_batch_unexpected', {
       error: (error as Error)?.message,
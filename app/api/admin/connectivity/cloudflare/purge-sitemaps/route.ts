@@ -1,24 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { resolveAdminActor } from '@/lib/server/admin/auth';
 import {
   MissingCloudflarePurgeEnvError,
   MissingSiteUrlError,
   buildProductUrls,
+  buildSitePurgeUrls,
   buildSitemapUrls,
-  getCloudflarePurgeConfig,
+  getCloudflarePurgeConfigs,
   purgeCloudflareUrls,
-  resolveSiteUrl,
+  routePurgeTargets,
+  type PurgeContext,
+  type PurgeResult,
 } from '@/lib/server/cloudflare/purge';
-import { recordCloudflarePurgeBatch } from '@/lib/server/cloudflare/state';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
+import { listChildSitemapPaths } from '@/lib/server/sitemap';
 
 export async function POST(request: NextRequest) {
   try {
-    const config = getCloudflarePurgeConfig();
-    if (!config) {
+    const configs = getCloudflarePurgeConfigs();
+    if (configs.length === 0) {
       throw new MissingCloudflarePurgeEnvError();
     }
 
-    const siteUrl = resolveSiteUrl(request);
     const payload = await request.json().catch(() => ({}));
     const slugs = Array.isArray(payload?.productSlugs)
       ? payload.productSlugs.filter((slug: unknown) => typeof slug === 'string')
@@ -27,28 +31,34 @@ export async function POST(request: NextRequest) {
       ? payload.urls.filter((url: unknown) => typeof url === 'string')
       : [];
 
-    const urlSet = new Set<string>([
-      ...buildSitemapUrls(siteUrl),
-      ...additional,
-    ]);
-
-    if (config.includeProductUrls) {
-      for (const url of buildProductUrls(siteUrl, slugs)) {
-        urlSet.add(url);
+    const additionalBySite = routePurgeTargets('files', additional, configs);
+    const sitemapPaths = await listChildSitemapPaths();
+    const context: PurgeContext = { actor: resolveAdminActor(request), source: 'manual' };
+    const results: PurgeResult[] = [];
+    for (const config of configs) {
+      const urls = new Set<string>(
+        buildSitePurgeUrls(
+          config,
+          (siteUrl) => [
+            ...buildSitemapUrls(siteUrl, sitemapPaths),
+            ...(config.includeProductUrls ? buildProductUrls(siteUrl, slugs) : []),
+          ],
+          request
+        )
+      );
+      for (const route of additionalBySite.filter((candidate) => candidate.config === config)) {
+        route.targets.forEach((url) => urls.add(url));
       }
+      results.push(...(await purgeCloudflareUrls(Array.from(urls), config, context)));
     }
 
-    const urls = Array.from(urlSet);
-    recordCloudflarePurgeBatch(urls);
-
-    const results = await purgeCloudflareUrls(urls, config);
-
     const rayIds = results.flatMap((result) => result.rayIds);
     const latency = results.reduce((acc, result) => acc + result.latencyMs, 0);
     const ok = results.every((result) => result.ok);
 
     const responseBody = {
       ok,
+      sites: configs.map((config) => config.id),
       ray_ids: rayIds,
       latency_ms: latency,
       attempts: results.reduce((acc, result) => acc + result.attempts, 0),
@@ -58,6 +68,7 @@ export async function POST(request: NextRequest) {
     const logMethod = ok ? console.info : console.warn;
     logMethod('cloudflare_purge_endpoint', {
       ok,
+      sites: responseBody.sites,
       latencyMs: latency,
       rayIds,
       attempts: responseBody.attempts,
@@ -72,6 +83,14 @@ export async function POST(request: NextRequest) {
         ray_ids: [],
       });
     }
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json({
+        ok: false,
+        error_code: 'invalid_config',
+        details: error.message,
+        ray_ids: [],
+      });
+    }
 
     if (error instanceof MissingSiteUrlError) {
       return NextResponse.json({
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import {
+  CLOUDFLARE_PURGE_MODES,
+  CloudflarePurgeMode,
+  InvalidPurgeTargetError,
+  MissingCloudflarePurgeEnvError,
+  getCloudflarePurgeConfig,
+  getCloudflarePurgeConfigs,
+  purgeCloudflareTargets,
+  routePurgeTargets,
+  type PurgeContext,
+  type PurgeResult,
+} from '@/lib/server/cloudflare/purge';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
+
+export async function POST(request: NextRequest) {
+  const payload = (await request.json().catch(() => null)) as {
+    mode?: unknown;
+    values?: unknown;
+    site?: unknown;
+  } | null;
+  const mode = payload?.mode;
+  const values = payload?.values;
+  const site = payload?.site;
+  if (
+    typeof mode !== 'string' ||
+    !CLOUDFLARE_PURGE_MODES.includes(mode as CloudflarePurgeMode) ||
+    !Array.isArray(values) ||
+    values.some((value) => typeof value !== 'string') ||
+    (site != null && typeof site !== 'string')
+  ) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error_code: 'invalid_payload',
+        details:
+          `Body must include mode (${CLOUDFLARE_PURGE_MODES.join(', ')}), ` +
+          'a values array of strings and an optional site id.',
+        ray_ids: [],
+      },
+      { status: 400 }
+    );
+  }
+
+  const purgeMode = mode as CloudflarePurgeMode;
+  try {
+    const configs = getCloudflarePurgeConfigs();
+    if (configs.length === 0) {
+      throw new MissingCloudflarePurgeEnvError();
+    }
+    const siteConfig = typeof site === 'string' ? getCloudflarePurgeConfig(site) : null;
+    if (typeof site === 'string' && !siteConfig) {
+      return NextResponse.json({ ok: false, error_code: 'site_not_found', ray_ids: [] }, { status: 404 });
+    }
+
+    const routes = routePurgeTargets(purgeMode, values as string[], siteConfig ? [siteConfig] : configs);
+    if (routes.length === 0) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: 'No purge targets provided.', ray_ids: [] },
+        { status: 400 }
+      );
+    }
+
+    const context: PurgeContext = { actor: resolveAdminActor(request), source: 'manual' };
+    const results: PurgeResult[] = [];
+    for (const route of routes) {
+      results.push(...(await purgeCloudflareTargets(purgeMode, route.targets, route.config, context)));
+    }
+    const targets = new Set(routes.flatMap((route) => route.targets));
+    const rayIds = results.flatMap((result) => result.rayIds);
+    const latency = results.reduce((total, result) => total + result.latencyMs, 0);
+    const attempts = results.reduce((total, result) => total + result.attempts, 0);
+    const ok = results.every((result) => result.ok);
+
+    const logger = ok ? console.info : console.warn;
+    logger('cloudflare_purge_targets', {
+      mode: purgeMode,
+      sites: routes.map((route) => route.config.id),
+      count: targets.size,
+      ok,
+      latencyMs: latency,
+      attempts,
+      rayIds,
+    });
+
+    return NextResponse.json({
+      ok,
+      mode: purgeMode,
+      purged: targets.size,
+      sites: routes.map((route) => route.config.id),
+      latency_ms: latency,
+      ray_ids: rayIds,
+      attempts,
+      error_code: ok ? undefined : 'http_error',
+    });
+  } catch (error) {
+    if (error instanceof MissingCloudflarePurgeEnvError) {
+      return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+    }
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_config', details: error.message, ray_ids: [] },
+        { status: 503 }
+      );
+    }
+    if (error instanceof InvalidPurgeTargetError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, ray_ids: [] },
+        { status: 400 }
+      );
+    }
+
+    console.error('cloudflare_purge_targets_unexpected', {
+      mode: purgeMode,
+      error: (error as Error)?.message,
+    });
+
+    return NextResponse.json({ ok: false, error_code: 'unexpected_error', ray_ids: [] }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { MissingCloudflarePurgeEnvError, getCloudflarePurgeConfigs } from '@/lib/server/cloudflare/purge';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
+import { drainCloudflarePurgeQueues } from '@/lib/server/cloudflare/purge-queue';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { PurgeDeadLetterNotFoundError, replayDeadLetterBatch } from '@/lib/server/tidb/purge-queue';
+
+export async function POST(request: NextRequest, context: { params: { id: string } }) {
+  const id = context.params.id;
+
+  try {
+    const configs = getCloudflarePurgeConfigs();
+    if (configs.length === 0 || !loadTiDbCredentials()) {
+      throw new MissingCloudflarePurgeEnvError();
+    }
+
+    const replayed = await replayDeadLetterBatch(id);
+    const drain = await drainCloudflarePurgeQueues(configs, { actor: resolveAdminActor(request) });
+    const ok = drain.results.every((result) => result.ok);
+
+    const logger = ok ? console.info : console.warn;
+    logger('cloudflare_purge_dead_letter_replay', {
+      batchId: id,
+      replayed,
+      purged: drain.purged,
+      deadLettered: drain.deadLettered,
+    });
+
+    return NextResponse.json({
+      ok,
+      replayed,
+      purged: drain.purged,
+      dead_lettered: drain.deadLettered,
+      rate_limited: drain.rateLimited,
+      latency_ms: drain.results.reduce((total, result) => total + result.latencyMs, 0),
+      ray_ids: drain.results.flatMap((result) => result.rayIds),
+      error_code: ok ? undefined : 'http_error',
+    });
+  } catch (error) {
+    if (error instanceof MissingCloudflarePurgeEnvError) {
+      return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+    }
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_config', details: error.message, ray_ids: [] },
+        { status: 503 }
+      );
+    }
+    if (error instanceof PurgeDeadLetterNotFoundError) {
+      return NextResponse.json({ ok: false, error_code: 'dead_letter_not_found', ray_ids: [] }, { status: 404 });
+    }
+
+    const info = toDbErrorInfo(error);
+    console.error('cloudflare_purge_dead_letter_replay_error', {
+      batchId: id,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, ray_ids: [], details: info.message },
+      { status }
+    );
+  }
+}
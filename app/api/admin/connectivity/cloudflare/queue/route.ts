@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { fetchPurgeQueueSummary } from '@/lib/server/tidb/purge-queue';
+
+export async function GET(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const limitParam = Number(request.nextUrl.searchParams.get('limit') ?? 10);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.trunc(limitParam), 1), 50) : 10;
+
+  try {
+    const summary = await fetchPurgeQueueSummary({ limit });
+    return NextResponse.json({ ok: true, ...summary }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('cloudflare_purge_queue_summary_error', {
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
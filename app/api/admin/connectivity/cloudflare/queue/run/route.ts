@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { MissingCloudflarePurgeEnvError, getCloudflarePurgeConfigs } from '@/lib/server/cloudflare/purge';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
+import { drainCloudflarePurgeQueues } from '@/lib/server/cloudflare/purge-queue';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+
+export async function GET(request: NextRequest) {
+  return runPurgeQueue(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runPurgeQueue(request);
+}
+
+async function runPurgeQueue(request: NextRequest) {
+  try {
+    const configs = getCloudflarePurgeConfigs();
+    if (configs.length === 0 || !loadTiDbCredentials()) {
+      throw new MissingCloudflarePurgeEnvError();
+    }
+
+    const drain = await drainCloudflarePurgeQueues(configs, { actor: resolveAdminActor(request) });
+    const ok = drain.results.every((result) => result.ok);
+
+    return NextResponse.json({
+      ok,
+      claimed: drain.claimed,
+      purged: drain.purged,
+      retried: drain.retried,
+      dead_lettered: drain.deadLettered,
+      rate_limited: drain.rateLimited,
+      latency_ms: drain.results.reduce((total, result) => total + result.latencyMs, 0),
+      ray_ids: drain.results.flatMap((result) => result.rayIds),
+      error_code: ok ? undefined : 'http_error',
+    });
+  } catch (error) {
+    if (error instanceof MissingCloudflarePurgeEnvError) {
+      return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+    }
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_config', details: error.message, ray_ids: [] },
+        { status: 503 }
+      );
+    }
+
+    const info = toDbErrorInfo(error);
+    console.error('cloudflare_purge_queue_run_error', {
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, ray_ids: [], details: info.message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+
+import {
+  checkCloudflareZone,
+  getCloudflarePurgeConfigs,
+  type CloudflarePurgeConfig,
+  type CloudflareZoneHealth,
+} from '@/lib/server/cloudflare/purge';
+import { InvalidCloudflareSitesError } from '@/lib/server/cloudflare/sites';
+
+export async function GET() {
+  let configs: CloudflarePurgeConfig[];
+  try {
+    configs = getCloudflarePurgeConfigs();
+  } catch (error) {
+    if (error instanceof InvalidCloudflareSitesError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_config', details: error.message, zones: [], ray_ids: [] },
+        { status: 503 }
+      );
+    }
+    throw error;
+  }
+  if (configs.length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env', zones: [], ray_ids: [] }, { status: 503 });
+  }
+
+  try {
+    const zones = await Promise.all(
+      configs.map(async (config) => {
+        const health = await checkCloudflareZone(config);
+        return {
+          site: config.id,
+          hostnames: config.hostnames,
+          ok: health.ok,
+          status: health.status,
+          latency_ms: health.latencyMs,
+          zone_name: health.zoneName,
+          zone_status: health.zoneStatus,
+          unmatched_hostnames: health.unmatchedHostnames,
+          ray_ids: health.rayIds,
+          error_code: health.ok ? undefined : describeZoneError(health),
+        };
+      })
+    );
+    const ok = zones.every((zone) => zone.ok);
+
+    return NextResponse.json(
+      {
+        ok,
+        zones,
+        latency_ms: Math.max(...zones.map((zone) => zone.latency_ms)),
+        ray_ids: zones.flatMap((zone) => zone.ray_ids),
+        error_code: ok ? undefined : 'zone_unhealthy',
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('cloudflare_zone_health_error', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'unexpected_error', zones: [], ray_ids: [] }, { status: 500 });
+  }
+}
+
+function describeZoneError(health: CloudflareZoneHealth): string {
+  if (health.status === 0) {
+    return 'request_failed';
+  }
+  if (health.status === 401 || health.status === 403) {
+    return 'auth_failed';
+  }
+  if (health.status >= 400) {
+    return 'http_error';
+  }
+  if (health.zoneStatus !== 'active') {
+    return 'zone_inactive';
+  }
+  return 'hostname_mismatch';
+}
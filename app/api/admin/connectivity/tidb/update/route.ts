@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeProductChange } from '@/lib/server/cloudflare/publish-purge';
 import { loadTiDbCredentials } from '@/lib/server/tidb/config';
 import { toDbErrorInfo } from '@/lib/server/tidb/errors';
 import type { ProductWritePayload } from '@/lib/server/tidb/products';
 import { updateProduct } from '@/lib/server/tidb/products';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
 
 const WRITE_FIELDS = ['title_h1', 'short_summary', 'desc_html'] as const;
 
@@ -43,7 +46,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const result = await updateProduct(updates);
+    const result = await updateProduct(updates, { author: resolveAdminActor(request) });
     if (!result.found) {
       return NextResponse.json({ ok: false, error_code: 'product_not_found', ray_ids: [] }, { status: 404 });
     }
@@ -54,6 +57,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const purge = await purgeProductChange(request, {
+      slugs: [updates.slug],
+      categories: [result.previousCategory, result.product.category_slug as string | null],
+    });
+
     console.info('tidb_write_test_success', {
       slug: slugValue.trim(),
       rowsAffected: result.rowsAffected,
@@ -61,11 +69,17 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       ok: true,
-      ray_ids: [],
       rows_affected: result.rowsAffected,
       product: result.product,
+      ...purge,
     });
   } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', ray_ids: [], details: error.message },
+        { status: 400 }
+      );
+    }
     const info = toDbErrorInfo(error);
     console.error('tidb_write_test_error', {
       slug: slugValue.trim(),
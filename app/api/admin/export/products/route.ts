@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import type { ProductExportFormat } from '@/lib/server/tidb/product-export';
+import { PRODUCT_EXPORT_CONTENT_TYPES, openProductExportStream } from '@/lib/server/tidb/product-export';
+
+const FORMAT_EXTENSIONS: Record<ProductExportFormat, string> = {
+  csv: 'csv',
+  ndjson: 'ndjson',
+  json: 'json',
+};
+
+export async function GET(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const format = (params.get('format') ?? 'csv') as ProductExportFormat;
+  if (!Object.prototype.hasOwnProperty.call(FORMAT_EXTENSIONS, format)) {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: 'Parameter format must be csv, ndjson or json.' },
+      { status: 400 }
+    );
+  }
+
+  const category = params.get('category')?.trim() || null;
+  const updatedSinceParam = params.get('updated_since')?.trim() || null;
+  let updatedSince: Date | null = null;
+  if (updatedSinceParam) {
+    updatedSince = new Date(updatedSinceParam);
+    if (Number.isNaN(updatedSince.getTime())) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: 'Parameter updated_since must be an ISO date.' },
+        { status: 400 }
+      );
+    }
+  }
+  const includeDeleted = params.get('include_deleted') === '1' || params.get('include_deleted') === 'true';
+
+  try {
+    const stream = await openProductExportStream(format, { category, updatedSince, includeDeleted });
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '').replace('T', '-');
+    const fileName = `products-${stamp}.${FORMAT_EXTENSIONS[format]}`;
+
+    console.info('admin_product_export', {
+      format,
+      category,
+      updatedSince: updatedSince?.toISOString() ?? null,
+      includeDeleted,
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': PRODUCT_EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('admin_product_export_error', {
+      format,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
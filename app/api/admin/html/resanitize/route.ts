@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeCatalogChange, summarizePurgeOutcome } from '@/lib/server/cloudflare/publish-purge';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { resanitizeStoredHtml } from '@/lib/server/tidb/html-resanitize';
+
+export async function POST(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  let payload: Record<string, unknown> = {};
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_html_resanitize_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  const dryRun = payload.dry_run !== false;
+
+  try {
+    const report = await resanitizeStoredHtml({ dryRun }, { author: resolveAdminActor(request) });
+    const sections = new Set(
+      report.entries
+        .filter((entry) => entry.updated)
+        .map((entry) => (entry.entity_type === 'product' ? ('products' as const) : ('posts' as const)))
+    );
+    const purge =
+      sections.size > 0 ? await purgeCatalogChange(request, Array.from(sections)) : summarizePurgeOutcome(null);
+    console.info('admin_html_resanitize', {
+      dryRun,
+      scanned: report.scanned,
+      matched: report.entries.length,
+      updated: report.updated,
+      failed: report.failed,
+    });
+    return NextResponse.json({ ok: report.failed === 0, ...report, ...purge });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('admin_html_resanitize_error', {
+      dryRun,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
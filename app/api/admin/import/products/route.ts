@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeCatalogChange, summarizePurgeOutcome } from '@/lib/server/cloudflare/publish-purge';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { ProductImportParseError, runProductImport } from '@/lib/server/tidb/product-import';
+
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_product_import_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  const format = payload.format;
+  if (format !== 'csv' && format !== 'ndjson') {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: 'Field format must be csv or ndjson.' },
+      { status: 400 }
+    );
+  }
+
+  const content = payload.content;
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: 'Field content is required.' },
+      { status: 400 }
+    );
+  }
+  if (content.length > MAX_CONTENT_LENGTH) {
+    return NextResponse.json({ ok: false, error_code: 'payload_too_large' }, { status: 413 });
+  }
+
+  const dryRun = payload.dry_run !== false;
+  const batchSize = typeof payload.batch_size === 'number' ? payload.batch_size : undefined;
+
+  try {
+    const report = await runProductImport({
+      format,
+      content,
+      dryRun,
+      batchSize,
+      author: resolveAdminActor(request),
+    });
+
+    const purge =
+      !dryRun && report.summary.applied > 0
+        ? await purgeCatalogChange(request, ['products'])
+        : summarizePurgeOutcome(null);
+
+    console.info('admin_product_import', {
+      dryRun,
+      format,
+      batches: report.batches,
+      summary: report.summary,
+    });
+
+    return NextResponse.json({ ok: true, ...report, ...purge });
+  } catch (error) {
+    if (error instanceof ProductImportParseError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_import', details: error.message },
+        { status: 400 }
+      );
+    }
+    const info = toDbErrorInfo(error);
+    console.error('admin_product_import_error', {
+      dryRun,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
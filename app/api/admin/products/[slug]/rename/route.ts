@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeProductChange } from '@/lib/server/cloudflare/publish-purge';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { ProductExistsError, renameProduct } from '@/lib/server/tidb/products';
+import { FieldValidationError, StaleWriteError, readExpectedUpdatedAt } from '@/lib/server/tidb/validation';
+
+export async function POST(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug', ray_ids: [] }, { status: 400 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_product_rename_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload', ray_ids: [] }, { status: 400 });
+  }
+
+  try {
+    const result = await renameProduct(slug, payload.new_slug, {
+      author: resolveAdminActor(request),
+      expectedUpdatedAt: readExpectedUpdatedAt(payload),
+    });
+    if (!result) {
+      return NextResponse.json({ ok: false, error_code: 'product_not_found', ray_ids: [] }, { status: 404 });
+    }
+
+    const purge = await purgeProductChange(request, {
+      slugs: [result.previousSlug, String(result.product.slug)],
+      categories: [result.category],
+    });
+
+    console.info('admin_product_rename', {
+      from: result.previousSlug,
+      to: result.product.slug,
+      category: result.category,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      product: result.product,
+      previous_slug: result.previousSlug,
+      redirect: result.redirect,
+      ...purge,
+    });
+  } catch (error) {
+    if (error instanceof StaleWriteError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'stale_write', ray_ids: [], details: error.message, current: error.current },
+        { status: 409 }
+      );
+    }
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'invalid_payload',
+          ray_ids: [],
+          details: error.message,
+          field_errors: error.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ProductExistsError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'slug_exists',
+          ray_ids: [],
+          deleted: error.deleted,
+          details: error.message,
+          field_errors: { new_slug: error.message },
+        },
+        { status: 409 }
+      );
+    }
+    const info = toDbErrorInfo(error);
+    console.error('admin_product_rename_error', {
+      slug,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, ray_ids: [], details: info.message },
+      { status }
+    );
+  }
+}
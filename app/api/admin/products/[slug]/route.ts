@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeProductChange } from '@/lib/server/cloudflare/publish-purge';
+import { reportStrippedHtml } from '@/lib/server/html-sanitizer';
+import { CategoryNotFoundError } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import type { ProductWritePayload } from '@/lib/server/tidb/products';
+import {
+  PRODUCT_WRITE_FIELDS,
+  ProductExistsError,
+  createProduct,
+  deleteProduct,
+} from '@/lib/server/tidb/products';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
+
+export async function POST(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_product_create_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload', ray_ids: [] }, { status: 400 });
+  }
+
+  const input: ProductWritePayload & Record<string, unknown> = { slug };
+  const inputRecord = input as Record<string, unknown>;
+  for (const field of PRODUCT_WRITE_FIELDS) {
+    if (field in payload) {
+      inputRecord[field] = payload[field];
+    }
+  }
+
+  try {
+    const result = await createProduct(input, { author: resolveAdminActor(request) });
+    const purge = await purgeProductChange(request, { slugs: [slug], categories: [result.category] });
+    const strippedHtml = reportStrippedHtml(payload, ['desc_html']);
+
+    console.info('admin_product_create', { slug, category: result.category, strippedHtml: Object.keys(strippedHtml) });
+
+    return NextResponse.json(
+      { ok: true, product: result.product, stripped_html: strippedHtml, ...purge },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'invalid_payload',
+          ray_ids: [],
+          details: error.message,
+          field_errors: error.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ProductExistsError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'slug_exists',
+          ray_ids: [],
+          deleted: error.deleted,
+          details: error.message,
+          field_errors: { slug: error.message },
+        },
+        { status: 409 }
+      );
+    }
+    if (error instanceof CategoryNotFoundError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'invalid_category',
+          ray_ids: [],
+          details: error.message,
+          field_errors: { category_slug: error.message },
+        },
+        { status: 400 }
+      );
+    }
+    return dbErrorResponse('admin_product_create_error', slug, error);
+  }
+}
+
+export async function DELETE(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug', ray_ids: [] }, { status: 400 });
+  }
+
+  try {
+    const result = await deleteProduct(slug, { author: resolveAdminActor(request) });
+    if (!result.found) {
+      return NextResponse.json({ ok: false, error_code: 'product_not_found', ray_ids: [] }, { status: 404 });
+    }
+
+    const purge = await purgeProductChange(request, { slugs: [slug.trim()], categories: [result.category] });
+
+    console.info('admin_product_delete', { slug, category: result.category });
+
+    return NextResponse.json({ ok: true, slug: slug.trim(), ...purge });
+  } catch (error) {
+    return dbErrorResponse('admin_product_delete_error', slug, error);
+  }
+}
+
+function dbErrorResponse(event: string, slug: string, error: unknown) {
+  const info = toDbErrorInfo(error);
+  console.error(event, {
+    slug,
+    code: info.code,
+    message: info.message,
+    sqlState: info.sqlState,
+  });
+  const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+  return NextResponse.json(
+    { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, ray_ids: [], details: info.message },
+    { status }
+  );
+}
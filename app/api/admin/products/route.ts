@@ -1,29 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeProductChange, summarizePurgeOutcome } from '@/lib/server/cloudflare/publish-purge';
+import { reportStrippedHtml } from '@/lib/server/html-sanitizer';
+import { CategoryNotFoundError } from '@/lib/server/tidb/categories';
 import { loadTiDbCredentials } from '@/lib/server/tidb/config';
 import { toDbErrorInfo } from '@/lib/server/tidb/errors';
 import type { ProductWritePayload } from '@/lib/server/tidb/products';
-import { updateProduct } from '@/lib/server/tidb/products';
-
-const ALLOWED_FIELDS: (keyof ProductWritePayload)[] = [
-  'title_h1',
-  'short_summary',
-  'desc_html',
-  'primary_cta_label',
-  'primary_cta_url',
-  'secondary_cta_label',
-  'secondary_cta_url',
-  'price_display',
-  'price_currency',
-  'price_amount',
-  'category_slug',
-  'hero_image_url',
-  'gallery_image_urls',
-  'seo_title',
-  'seo_description',
-  'badge_label',
-  'availability_label',
-];
+import { PRODUCT_WRITE_FIELDS, updateProduct } from '@/lib/server/tidb/products';
+import { FieldValidationError, StaleWriteError, readExpectedUpdatedAt } from '@/lib/server/tidb/validation';
 
 export async function POST(request: NextRequest) {
   const credentials = loadTiDbCredentials();
@@ -48,7 +33,7 @@ export async function POST(request: NextRequest) {
   const updatesRecord = updates as Record<string, unknown>;
   let touched = 0;
 
-  for (const field of ALLOWED_FIELDS) {
+  for (const field of PRODUCT_WRITE_FIELDS) {
     if (field in payload) {
       updatesRecord[field] = payload[field];
       touched += 1;
@@ -60,24 +45,67 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const result = await updateProduct(updates);
+    const result = await updateProduct(updates, {
+      author: resolveAdminActor(request),
+      expectedUpdatedAt: readExpectedUpdatedAt(payload),
+    });
     if (!result.found) {
       return NextResponse.json({ ok: false, error_code: 'product_not_found' }, { status: 404 });
     }
 
+    const strippedHtml = reportStrippedHtml(payload, ['desc_html']);
+
     if (result.rowsAffected === 0) {
-      return NextResponse.json({ ok: true, rows_affected: 0, product: result.product });
+      return NextResponse.json({
+        ok: true,
+        rows_affected: 0,
+        product: result.product,
+        stripped_html: strippedHtml,
+        ...summarizePurgeOutcome(null),
+      });
     }
 
+    const purge = await purgeProductChange(request, {
+      slugs: [updates.slug],
+      categories: [result.previousCategory, result.product.category_slug as string | null],
+    });
+
     console.info('admin_product_update', {
       slug: updates.slug,
       rowsAffected: result.rowsAffected,
+      strippedHtml: Object.keys(strippedHtml),
     });
 
-    return NextResponse.json({ ok: true, rows_affected: result.rowsAffected, product: result.product });
+    return NextResponse.json({
+      ok: true,
+      rows_affected: result.rowsAffected,
+      product: result.product,
+      stripped_html: strippedHtml,
+      ...purge,
+    });
   } catch (error) {
-    if (error instanceof Error && error.message && error.message.includes('Field')) {
-      return NextResponse.json({ ok: false, error_code: 'invalid_payload', details: error.message }, { status: 400 });
+    if (error instanceof StaleWriteError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'stale_write', details: error.message, current: error.current },
+        { status: 409 }
+      );
+    }
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CategoryNotFoundError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'invalid_category',
+          details: error.message,
+          field_errors: { category_slug: error.message },
+        },
+        { status: 400 }
+      );
     }
     const info = toDbErrorInfo(error);
     console.error('admin_product_update_error', {
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeBlogPostChange, summarizePurgeOutcome } from '@/lib/server/cloudflare/publish-purge';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { publishDuePosts } from '@/lib/server/tidb/publishing';
+
+export async function GET(request: NextRequest) {
+  return runScheduledPublishing(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runScheduledPublishing(request);
+}
+
+async function runScheduledPublishing(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+  }
+
+  try {
+    const published = await publishDuePosts({ author: resolveAdminActor(request) });
+    const purge =
+      published.length > 0
+        ? await purgeBlogPostChange(request, {
+            slugs: published.map((post) => post.slug),
+            categories: published.map((post) => post.category),
+          })
+        : summarizePurgeOutcome(null);
+
+    console.info('scheduled_publishing_run', { published: published.map((post) => post.slug) });
+
+    return NextResponse.json({ ok: true, published, ...purge });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('scheduled_publishing_error', {
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, ray_ids: [], details: info.message },
+      { status }
+    );
+  }
+}
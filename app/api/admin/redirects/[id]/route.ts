@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import {
+  RedirectChainError,
+  RedirectExistsError,
+  RedirectLoopError,
+  RedirectNotFoundError,
+  deleteRedirect,
+  updateRedirect,
+} from '@/lib/server/tidb/redirects';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
+
+export async function PUT(request: NextRequest, context: { params: { id: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const id = context.params.id;
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json({ ok: false, error_code: 'redirect_not_found' }, { status: 404 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_redirect_update_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await updateRedirect(id, payload, { author: resolveAdminActor(request) });
+    console.info('admin_redirect_update', {
+      id,
+      source: result.redirect.source_path,
+      target: result.redirect.target_path,
+      flattened: result.flattened,
+    });
+    return NextResponse.json({ ok: true, redirect: result.redirect, flattened: result.flattened });
+  } catch (error) {
+    if (error instanceof RedirectNotFoundError) {
+      return NextResponse.json({ ok: false, error_code: 'redirect_not_found' }, { status: 404 });
+    }
+    return redirectErrorResponse(error) ?? dbErrorResponse('admin_redirect_update_error', id, error);
+  }
+}
+
+export async function DELETE(request: NextRequest, context: { params: { id: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const id = context.params.id;
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json({ ok: false, error_code: 'redirect_not_found' }, { status: 404 });
+  }
+
+  try {
+    const redirect = await deleteRedirect(id);
+    if (!redirect) {
+      return NextResponse.json({ ok: false, error_code: 'redirect_not_found' }, { status: 404 });
+    }
+    console.info('admin_redirect_delete', { id, source: redirect.source_path, actor: resolveAdminActor(request) });
+    return NextResponse.json({ ok: true, redirect });
+  } catch (error) {
+    return dbErrorResponse('admin_redirect_delete_error', id, error);
+  }
+}
+
+function redirectErrorResponse(error: unknown) {
+  if (error instanceof FieldValidationError) {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof RedirectExistsError) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error_code: 'redirect_exists',
+        details: error.message,
+        field_errors: { source_path: error.message },
+      },
+      { status: 409 }
+    );
+  }
+  if (error instanceof RedirectLoopError || error instanceof RedirectChainError) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error_code: error instanceof RedirectLoopError ? 'redirect_loop' : 'redirect_chain',
+        details: error.message,
+        chain: error.chain,
+        field_errors: { target_path: error.message },
+      },
+      { status: 409 }
+    );
+  }
+  return null;
+}
+
+function dbErrorResponse(event: string, id: string, error: unknown) {
+  const info = toDbErrorInfo(error);
+  console.error(event, {
+    id,
+    code: info.code,
+    message: info.message,
+    sqlState: info.sqlState,
+  });
+  const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+  return NextResponse.json(
+    { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+    { status }
+  );
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import {
+  RedirectChainError,
+  RedirectExistsError,
+  RedirectLoopError,
+  createRedirect,
+  listRedirects,
+} from '@/lib/server/tidb/redirects';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
+
+export async function GET() {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  try {
+    const redirects = await listRedirects();
+    return NextResponse.json({ ok: true, redirects });
+  } catch (error) {
+    return dbErrorResponse('admin_redirect_list_error', error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('admin_redirect_create_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await createRedirect(payload, { author: resolveAdminActor(request) });
+    console.info('admin_redirect_create', {
+      id: result.redirect.id,
+      source: result.redirect.source_path,
+      target: result.redirect.target_path,
+      flattened: result.flattened,
+    });
+    return NextResponse.json({ ok: true, redirect: result.redirect, flattened: result.flattened }, { status: 201 });
+  } catch (error) {
+    return redirectErrorResponse(error) ?? dbErrorResponse('admin_redirect_create_error', error);
+  }
+}
+
+function redirectErrorResponse(error: unknown) {
+  if (error instanceof FieldValidationError) {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof RedirectExistsError) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error_code: 'redirect_exists',
+        details: error.message,
+        field_errors: { source_path: error.message },
+      },
+      { status: 409 }
+    );
+  }
+  if (error instanceof RedirectLoopError || error instanceof RedirectChainError) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error_code: error instanceof RedirectLoopError ? 'redirect_loop' : 'redirect_chain',
+        details: error.message,
+        chain: error.chain,
+        field_errors: { target_path: error.message },
+      },
+      { status: 409 }
+    );
+  }
+  return null;
+}
+
+function dbErrorResponse(event: string, error: unknown) {
+  const info = toDbErrorInfo(error);
+  console.error(event, {
+    code: info.code,
+    message: info.message,
+    sqlState: info.sqlState,
+  });
+  const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+  return NextResponse.json(
+    { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+    { status }
+  );
+}
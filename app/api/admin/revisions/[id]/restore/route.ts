@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import {
+  purgeBlogPostChange,
+  purgeProductChange,
+  summarizePurgeOutcome,
+} from '@/lib/server/cloudflare/publish-purge';
+import { CategoryNotFoundError } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { restoreRevision } from '@/lib/server/tidb/revision-restore';
+import { RevisionNotFoundError, RevisionNotRestorableError } from '@/lib/server/tidb/revisions';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
+
+export async function POST(request: NextRequest, context: { params: { id: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const id = context.params.id;
+  if (!/^\d+$/.test(id ?? '')) {
+    return NextResponse.json({ ok: false, error_code: 'revision_not_found' }, { status: 404 });
+  }
+
+  try {
+    const result = await restoreRevision(id, { author: resolveAdminActor(request) });
+    if (!result.found) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: result.revision.entity_type === 'product' ? 'product_not_found' : 'post_not_found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const change = {
+      slugs: [result.revision.entity_slug],
+      categories: [result.previousCategory, result.record?.category_slug as string | null | undefined],
+    };
+    const purge =
+      result.rowsAffected === 0
+        ? summarizePurgeOutcome(null)
+        : result.revision.entity_type === 'product'
+          ? await purgeProductChange(request, change)
+          : await purgeBlogPostChange(request, change);
+
+    console.info('admin_revision_restore', {
+      id,
+      type: result.revision.entity_type,
+      slug: result.revision.entity_slug,
+      rowsAffected: result.rowsAffected,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      revision_id: id,
+      type: result.revision.entity_type,
+      slug: result.revision.entity_slug,
+      rows_affected: result.rowsAffected,
+      record: result.record,
+      ...purge,
+    });
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      return NextResponse.json({ ok: false, error_code: 'revision_not_found' }, { status: 404 });
+    }
+    if (error instanceof RevisionNotRestorableError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'revision_not_restorable', details: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CategoryNotFoundError) {
+      return NextResponse.json({ ok: false, error_code: 'invalid_category', details: error.message }, { status: 400 });
+    }
+    const info = toDbErrorInfo(error);
+    console.error('admin_revision_restore_error', {
+      id,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { listRevisions } from '@/lib/server/tidb/revisions';
+
+export async function GET(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const type = params.get('type');
+  if (type !== 'product' && type !== 'post') {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: 'Parameter type must be product or post.' },
+      { status: 400 }
+    );
+  }
+
+  const slug = params.get('slug')?.trim();
+  if (!slug) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug' }, { status: 400 });
+  }
+
+  const limitParam = Number(params.get('limit') ?? 50);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.trunc(limitParam), 1), 200) : 50;
+
+  try {
+    const revisions = await listRevisions(type, slug, limit);
+    return NextResponse.json({ ok: true, type, slug, revisions });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('admin_revisions_list_error', {
+      type,
+      slug,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { formatSeoAuditCsv, runSeoAudit } from '@/lib/server/tidb/seo-audit';
+
+export async function GET(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const format = params.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') {
+    return NextResponse.json(
+      { ok: false, error_code: 'invalid_payload', details: 'Parameter format must be json or csv.' },
+      { status: 400 }
+    );
+  }
+  const checkLinks = params.get('check_links') === '1' || params.get('check_links') === 'true';
+
+  try {
+    const report = await runSeoAudit({ checkLinks });
+    console.info('admin_seo_audit', {
+      format,
+      checkLinks,
+      scanned: report.scanned,
+      issues: report.issues.length,
+    });
+
+    if (format === 'csv') {
+      const stamp = report.generated_at.replace(/[-:]/g, '').replace(/\..+$/, '').replace('T', '-');
+      return new Response(formatSeoAuditCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="seo-audit-${stamp}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return NextResponse.json({ ok: true, ...report }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('admin_seo_audit_error', {
+      format,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { inspectStructuredData, type StructuredDataType } from '@/lib/server/structured-data';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+
+const TYPES: StructuredDataType[] = ['product', 'post', 'category'];
+
+export async function GET(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const type = request.nextUrl.searchParams.get('type') as StructuredDataType | null;
+  const slug = request.nextUrl.searchParams.get('slug')?.trim() ?? '';
+  if (!type || !TYPES.includes(type)) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error_code: 'invalid_payload',
+        field_errors: { type: 'Field type must be product, post or category.' },
+      },
+      { status: 400 }
+    );
+  }
+  if (!slug) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug' }, { status: 400 });
+  }
+
+  try {
+    const documents = await inspectStructuredData(type, slug);
+    if (!documents) {
+      return NextResponse.json({ ok: false, error_code: `${type}_not_found` }, { status: 404 });
+    }
+
+    const errors = documents.reduce(
+      (count, document) => count + document.issues.filter((issue) => issue.severity === 'error').length,
+      0
+    );
+    console.info('admin_structured_data_validate', { type, slug, errors });
+
+    return NextResponse.json({ ok: true, type, slug, valid: errors === 0, documents });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('admin_structured_data_error', {
+      type,
+      slug,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
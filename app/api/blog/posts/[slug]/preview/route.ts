@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAdminAuthConfig, issueBlogPreviewToken } from '@/lib/server/admin/auth';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { fetchBlogPostBySlug } from '@/lib/server/tidb/posts';
+
+export async function POST(_request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  const adminConfig = getAdminAuthConfig();
+  if (!credentials || !adminConfig) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug' }, { status: 400 });
+  }
+
+  try {
+    const post = await fetchBlogPostBySlug(slug);
+    if (!post) {
+      return NextResponse.json({ ok: false, error_code: 'post_not_found' }, { status: 404 });
+    }
+
+    const normalizedSlug = String(post.slug);
+    const { token, expiresAt } = await issueBlogPreviewToken(adminConfig, normalizedSlug);
+    const url = `/b/${encodeURIComponent(normalizedSlug)}/preview?token=${encodeURIComponent(token)}`;
+
+    console.info('blog_post_preview_link', { slug: normalizedSlug, expiresAt });
+
+    return NextResponse.json({ ok: true, url, expires_at: expiresAt });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('blog_post_preview_error', {
+      slug,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeBlogPostChange } from '@/lib/server/cloudflare/publish-purge';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { BlogPostExistsError, renameBlogPost } from '@/lib/server/tidb/posts';
+import { FieldValidationError, StaleWriteError, readExpectedUpdatedAt } from '@/lib/server/tidb/validation';
+
+export async function POST(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env', ray_ids: [] }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug', ray_ids: [] }, { status: 400 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('blog_post_rename_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload', ray_ids: [] }, { status: 400 });
+  }
+
+  try {
+    const result = await renameBlogPost(slug, payload.new_slug, {
+      author: resolveAdminActor(request),
+      expectedUpdatedAt: readExpectedUpdatedAt(payload),
+    });
+    if (!result) {
+      return NextResponse.json({ ok: false, error_code: 'post_not_found', ray_ids: [] }, { status: 404 });
+    }
+
+    const purge = await purgeBlogPostChange(request, {
+      slugs: [result.previousSlug, String(result.post.slug)],
+      categories: [result.category],
+    });
+
+    console.info('blog_post_rename', { from: result.previousSlug, to: result.post.slug, category: result.category });
+
+    return NextResponse.json({
+      ok: true,
+      post: result.post,
+      previous_slug: result.previousSlug,
+      redirect: result.redirect,
+      ...purge,
+    });
+  } catch (error) {
+    if (error instanceof StaleWriteError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'stale_write', ray_ids: [], details: error.message, current: error.current },
+        { status: 409 }
+      );
+    }
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'invalid_payload',
+          ray_ids: [],
+          details: error.message,
+          field_errors: error.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof BlogPostExistsError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'slug_exists',
+          ray_ids: [],
+          details: error.message,
+          field_errors: { new_slug: error.message },
+        },
+        { status: 409 }
+      );
+    }
+    const info = toDbErrorInfo(error);
+    console.error('blog_post_rename_error', {
+      slug,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, ray_ids: [], details: info.message },
+      { status }
+    );
+  }
+}
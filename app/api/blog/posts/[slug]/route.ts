@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeBlogPostChange, summarizePurgeOutcome } from '@/lib/server/cloudflare/publish-purge';
+import { reportStrippedHtml } from '@/lib/server/html-sanitizer';
+import { CategoryNotFoundError } from '@/lib/server/tidb/categories';
 import { loadTiDbCredentials } from '@/lib/server/tidb/config';
 import { toDbErrorInfo } from '@/lib/server/tidb/errors';
 import type { BlogPostUpdatePayload } from '@/lib/server/tidb/posts';
-import { SlugLockedError, updateBlogPost } from '@/lib/server/tidb/posts';
+import { SlugLockedError, deleteBlogPost, updateBlogPost } from '@/lib/server/tidb/posts';
+import { FieldValidationError, StaleWriteError, readExpectedUpdatedAt } from '@/lib/server/tidb/validation';
 
 export async function PUT(request: NextRequest, context: { params: { slug: string } }) {
   const credentials = loadTiDbCredentials();
@@ -25,26 +30,62 @@ export async function PUT(request: NextRequest, context: { params: { slug: strin
   }
 
   try {
-    const result = await updateBlogPost(slug, payload as BlogPostUpdatePayload);
+    const result = await updateBlogPost(slug, payload as BlogPostUpdatePayload, {
+      author: resolveAdminActor(request),
+      expectedUpdatedAt: readExpectedUpdatedAt(payload),
+    });
     if (!result.post) {
       return NextResponse.json({ ok: false, error_code: 'post_not_found' }, { status: 404 });
     }
 
+    const strippedHtml = reportStrippedHtml(payload, ['content_html']);
+    const purge =
+      result.rowsAffected > 0
+        ? await purgeBlogPostChange(request, {
+            slugs: [slug.trim()],
+            categories: [result.previousCategory, result.post.category_slug as string | null],
+          })
+        : summarizePurgeOutcome(null);
+
     console.info('blog_post_update', {
       slug,
       rowsAffected: result.rowsAffected,
+      strippedHtml: Object.keys(strippedHtml),
     });
 
-    return NextResponse.json({ ok: true, rows_affected: result.rowsAffected, post: result.post });
+    return NextResponse.json({
+      ok: true,
+      rows_affected: result.rowsAffected,
+      post: result.post,
+      stripped_html: strippedHtml,
+      ...purge,
+    });
   } catch (error) {
+    if (error instanceof StaleWriteError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'stale_write', details: error.message, current: error.current },
+        { status: 409 }
+      );
+    }
     if (error instanceof SlugLockedError) {
       return NextResponse.json({ ok: false, error_code: 'slug_locked' }, { status: 409 });
     }
-    if (error instanceof Error && error.message && error.message.includes('Field')) {
-      return NextResponse.json({ ok: false, error_code: 'invalid_payload', details: error.message }, { status: 400 });
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
     }
-    if (error instanceof Error && error.message.includes('Category')) {
-      return NextResponse.json({ ok: false, error_code: 'invalid_category', details: error.message }, { status: 400 });
+    if (error instanceof CategoryNotFoundError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'invalid_category',
+          details: error.message,
+          field_errors: { category_slug: error.message },
+        },
+        { status: 400 }
+      );
     }
     const info = toDbErrorInfo(error);
     console.error('blog_post_update_error', {
@@ -60,3 +101,41 @@ export async function PUT(request: NextRequest, context: { params: { slug: strin
     );
   }
 }
+
+export async function DELETE(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug' }, { status: 400 });
+  }
+
+  try {
+    const result = await deleteBlogPost(slug, { author: resolveAdminActor(request) });
+    if (!result.found) {
+      return NextResponse.json({ ok: false, error_code: 'post_not_found' }, { status: 404 });
+    }
+
+    const purge = await purgeBlogPostChange(request, { slugs: [slug.trim()], categories: [result.category] });
+
+    console.info('blog_post_delete', { slug, category: result.category, redirectsRemoved: result.redirectsRemoved });
+
+    return NextResponse.json({ ok: true, slug: slug.trim(), redirects_removed: result.redirectsRemoved, ...purge });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('blog_post_delete_error', {
+      slug,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeBlogPostChange } from '@/lib/server/cloudflare/publish-purge';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { unpublishBlogPost } from '@/lib/server/tidb/posts';
+
+export async function POST(request: NextRequest, context: { params: { slug: string } }) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  const slug = context.params.slug;
+  if (typeof slug !== 'string' || slug.trim().length === 0) {
+    return NextResponse.json({ ok: false, error_code: 'missing_slug' }, { status: 400 });
+  }
+
+  try {
+    const result = await unpublishBlogPost(slug, { author: resolveAdminActor(request) });
+    if (!result) {
+      return NextResponse.json({ ok: false, error_code: 'post_not_found' }, { status: 404 });
+    }
+
+    const purge = await purgeBlogPostChange(request, { slugs: [slug.trim()], categories: [result.category] });
+
+    console.info('blog_post_unpublish', { slug, category: result.category });
+
+    return NextResponse.json({ ok: true, post: result.post, ...purge });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('blog_post_unpublish_error', {
+      slug,
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveAdminActor } from '@/lib/server/admin/auth';
+import { purgeBlogPostChange } from '@/lib/server/cloudflare/publish-purge';
+import { reportStrippedHtml } from '@/lib/server/html-sanitizer';
+import { CategoryNotFoundError } from '@/lib/server/tidb/categories';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import type { BlogPostCreatePayload } from '@/lib/server/tidb/posts';
+import { BlogPostExistsError, createBlogPost } from '@/lib/server/tidb/posts';
+import { FieldValidationError } from '@/lib/server/tidb/validation';
+
+export async function POST(request: NextRequest) {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = (await request.json()) as Record<string, unknown>;
+  } catch (error) {
+    console.warn('blog_post_create_invalid_json', { error: (error as Error)?.message });
+    return NextResponse.json({ ok: false, error_code: 'invalid_payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await createBlogPost(payload as BlogPostCreatePayload, { author: resolveAdminActor(request) });
+
+    const strippedHtml = reportStrippedHtml(payload, ['content_html']);
+    const purge = await purgeBlogPostChange(request, {
+      slugs: [String(result.post.slug)],
+      categories: [result.category],
+    });
+
+    console.info('blog_post_create', {
+      slug: result.post.slug,
+      category: result.category,
+      strippedHtml: Object.keys(strippedHtml),
+    });
+
+    return NextResponse.json({ ok: true, post: result.post, stripped_html: strippedHtml, ...purge }, { status: 201 });
+  } catch (error) {
+    if (error instanceof FieldValidationError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'invalid_payload', details: error.message, field_errors: error.fieldErrors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof BlogPostExistsError) {
+      return NextResponse.json(
+        { ok: false, error_code: 'slug_exists', details: error.message, field_errors: { slug: error.message } },
+        { status: 409 }
+      );
+    }
+    if (error instanceof CategoryNotFoundError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error_code: 'invalid_category',
+          details: error.message,
+          field_errors: { category_slug: error.message },
+        },
+        { status: 400 }
+      );
+    }
+    const info = toDbErrorInfo(error);
+    console.error('blog_post_create_error', {
+      code: info.code,
+      message: info.message,
+      sqlState: info.sqlState,
+    });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
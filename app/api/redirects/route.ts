@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { listActiveRedirects } from '@/lib/server/tidb/redirects';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const credentials = loadTiDbCredentials();
+  if (!credentials) {
+    return NextResponse.json({ ok: false, error_code: 'missing_env' }, { status: 503 });
+  }
+
+  try {
+    const redirects = await listActiveRedirects();
+    return NextResponse.json({ ok: true, redirects }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('redirects_list_error', { code: info.code, message: info.message, sqlState: info.sqlState });
+    const status = info.code === 'auth_failed' ? 401 : info.code === 'timeout' ? 504 : 500;
+    return NextResponse.json(
+      { ok: false, error_code: info.code === 'unknown' ? 'sql_error' : info.code, details: info.message },
+      { status }
+    );
+  }
+}
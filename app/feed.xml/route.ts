@@ -0,0 +1,7 @@
+import { buildBlogFeedResponse } from '@/lib/server/feeds';
+
+export const revalidate = 3600;
+
+export async function GET() {
+  return buildBlogFeedResponse('rss', null);
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveSiteUrl } from '@/lib/server/cloudflare/purge';
+import {
+  listChildSitemaps,
+  loadSitemapSections,
+  renderSitemapIndex,
+  renderUrlset,
+  xmlResponse,
+} from '@/lib/server/sitemap';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { SITEMAP_MAX_URLS, countSitemapEntries } from '@/lib/server/tidb/sitemap';
+
+export async function GET(request: NextRequest) {
+  if (!loadTiDbCredentials()) {
+    return new NextResponse('Sitemap unavailable', { status: 503 });
+  }
+
+  try {
+    const siteUrl = resolveSiteUrl(request);
+    const counts = await countSitemapEntries();
+
+    if (counts.products > SITEMAP_MAX_URLS) {
+      console.info('sitemap_products_index', { products: counts.products });
+      return xmlResponse(renderSitemapIndex(siteUrl, listChildSitemaps(counts, ['products'])));
+    }
+
+    const entries = await loadSitemapSections(['products']);
+    return xmlResponse(renderUrlset(siteUrl, entries));
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('sitemap_products_error', { code: info.code, message: info.message });
+    return new NextResponse('Sitemap unavailable', { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveSiteUrl } from '@/lib/server/cloudflare/purge';
+import {
+  listChildSitemaps,
+  loadSitemapSections,
+  renderSitemapIndex,
+  renderUrlset,
+  xmlResponse,
+} from '@/lib/server/sitemap';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { SITEMAP_MAX_URLS, SITEMAP_SECTIONS, countSitemapEntries } from '@/lib/server/tidb/sitemap';
+
+export async function GET(request: NextRequest) {
+  if (!loadTiDbCredentials()) {
+    return new NextResponse('Sitemap unavailable', { status: 503 });
+  }
+
+  try {
+    const siteUrl = resolveSiteUrl(request);
+    const counts = await countSitemapEntries();
+    const total = counts.products + counts.posts + counts.categories;
+
+    if (total > SITEMAP_MAX_URLS) {
+      console.info('sitemap_index', { ...counts });
+      return xmlResponse(renderSitemapIndex(siteUrl, listChildSitemaps(counts)));
+    }
+
+    const entries = await loadSitemapSections(SITEMAP_SECTIONS);
+    return xmlResponse(renderUrlset(siteUrl, entries));
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('sitemap_error', { code: info.code, message: info.message });
+    return new NextResponse('Sitemap unavailable', { status: 500 });
+  }
+}
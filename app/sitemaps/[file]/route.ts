@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveSiteUrl } from '@/lib/server/cloudflare/purge';
+import { parseChildSitemap, renderUrlset, xmlResponse } from '@/lib/server/sitemap';
+import { loadTiDbCredentials } from '@/lib/server/tidb/config';
+import { toDbErrorInfo } from '@/lib/server/tidb/errors';
+import { SITEMAP_MAX_URLS, listSitemapEntries } from '@/lib/server/tidb/sitemap';
+
+export async function GET(request: NextRequest, context: { params: { file: string } }) {
+  const child = parseChildSitemap(context.params.file);
+  if (!child) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+  if (!loadTiDbCredentials()) {
+    return new NextResponse('Sitemap unavailable', { status: 503 });
+  }
+
+  try {
+    const entries = await listSitemapEntries(child.section, (child.page - 1) * SITEMAP_MAX_URLS);
+    if (entries.length === 0 && child.page > 1) {
+      return new NextResponse('Not found', { status: 404 });
+    }
+    return xmlResponse(renderUrlset(resolveSiteUrl(request), entries));
+  } catch (error) {
+    const info = toDbErrorInfo(error);
+    console.error('sitemap_child_error', { file: context.params.file, code: info.code, message: info.message });
+    return new NextResponse('Sitemap unavailable', { status: 500 });
+  }
+}
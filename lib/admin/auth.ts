@@ -2,6 +2,7 @@ const encoder = new TextEncoder();
 
 export const ADMIN_COOKIE_NAME = 'vpp-admin-auth';
 export const ADMIN_SESSION_TTL_SECONDS = 60 * 60 * 12;
+export const PREVIEW_TOKEN_TTL_SECONDS = 60 * 60 * 24;
 
 function getCrypto(): Crypto {
   if (!globalThis.crypto || !globalThis.crypto.subtle) {
@@ -56,7 +57,7 @@ function fromBase64Url(value: string): string {
   throw new Error('Base64 decoding not supported');
 }
 
-function timingSafeEqual(expected: string, provided: string): boolean {
+export function timingSafeEqual(expected: string, provided: string): boolean {
   if (expected.length !== provided.length) {
     return false;
   }
@@ -135,6 +136,36 @@ export async function verifyAdminSessionToken(
   }
 }
 
+export async function issuePreviewToken(slug: string, secret: string, expiresAt: number): Promise<string> {
+  const signature = await signPayload(`preview:${slug}:${expiresAt}`, secret);
+  return toBase64Url(`${expiresAt}:${signature}`);
+}
+
+export async function verifyPreviewToken(
+  token: string,
+  slug: string,
+  secret: string,
+  now = Date.now()
+): Promise<boolean> {
+  try {
+    const decoded = fromBase64Url(token);
+    const [expiresAtRaw, signature] = decoded.split(':');
+    if (!expiresAtRaw || !signature) {
+      return false;
+    }
+
+    const expected = await signPayload(`preview:${slug}:${expiresAtRaw}`, secret);
+    if (!timingSafeEqual(expected, signature)) {
+      return false;
+    }
+
+    const expiresAt = Number.parseInt(expiresAtRaw, 10);
+    return !Number.isNaN(expiresAt) && now <= expiresAt;
+  } catch (_error) {
+    return false;
+  }
+}
+
 export function createAdminSessionCookie(token: string) {
   return {
     name: ADMIN_COOKIE_NAME,
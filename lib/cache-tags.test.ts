@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { buildPathCacheTags } from './cache-tags';
+
+test('tags product and post pages with their category', () => {
+  assert.deepEqual(buildPathCacheTags('/p/blue-mug', 'kitchen'), ['products', 'product:blue-mug', 'category:kitchen']);
+  assert.deepEqual(buildPathCacheTags('/b/launch-notes', 'News'), ['posts', 'post:launch-notes', 'category:news']);
+});
+
+test('falls back to path tags when the category is unknown', () => {
+  assert.deepEqual(buildPathCacheTags('/p/blue-mug', null), ['products', 'product:blue-mug']);
+});
+
+test('decodes slugs and tags listings, feeds and sitemaps', () => {
+  assert.deepEqual(buildPathCacheTags('/p/caf%C3%A9'), ['products', 'product:café']);
+  assert.deepEqual(buildPathCacheTags('/c/kitchen'), ['products', 'category:kitchen']);
+  assert.deepEqual(buildPathCacheTags('/bc/news/feed.xml'), ['posts', 'category:news', 'feeds']);
+  assert.deepEqual(buildPathCacheTags('/sitemaps/products-2.xml'), ['sitemaps']);
+  assert.deepEqual(buildPathCacheTags('/about', 'kitchen'), []);
+});
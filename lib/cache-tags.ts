@@ -0,0 +1,76 @@
+export const CACHE_TAG_HEADER = 'Cache-Tag';
+
+export function productCacheTag(slug: string): string {
+  return `product:${normalizeTagValue(slug)}`;
+}
+
+export function postCacheTag(slug: string): string {
+  return `post:${normalizeTagValue(slug)}`;
+}
+
+export function categoryCacheTag(slug: string): string {
+  return `category:${normalizeTagValue(slug)}`;
+}
+
+export function buildPathCacheTags(pathname: string, category?: string | null): string[] {
+  const segments = pathname.split('/').filter((segment) => segment.length > 0);
+  const [section, slug] = segments;
+  const tags: string[] = [];
+
+  switch (section) {
+    case 'p':
+      if (slug) {
+        tags.push('products', productCacheTag(decodeSegment(slug)));
+      }
+      break;
+    case 'c':
+      if (slug) {
+        tags.push('products', categoryCacheTag(decodeSegment(slug)));
+      }
+      break;
+    case 'b':
+      if (slug) {
+        tags.push('posts', postCacheTag(decodeSegment(slug)));
+      }
+      break;
+    case 'bc':
+      if (slug) {
+        tags.push('posts', categoryCacheTag(decodeSegment(slug)));
+        if (segments[2] === 'feed.xml') {
+          tags.push('feeds');
+        }
+      }
+      break;
+    case 'feed.xml':
+    case 'atom.xml':
+      tags.push('posts', 'feeds');
+      break;
+    case 'sitemaps':
+    case 'sitemap.xml':
+    case 'sitemap-products.xml':
+      tags.push('sitemaps');
+      break;
+    default:
+      break;
+  }
+
+  if (category && tags.length > 0) {
+    tags.push(categoryCacheTag(category));
+  }
+  return Array.from(new Set(tags));
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch (_error) {
+    return segment;
+  }
+}
+
+function normalizeTagValue(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s,"]+/g, '-');
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { UNPUBLISH_CHANGES, isDueForPublish, needsUnpublish } from './scheduled-publishing';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+test('publishes drafts whose scheduled_at has passed', () => {
+  assert.equal(isDueForPublish({ is_published: 0, scheduled_at: new Date('2026-10-19T11:59:00Z') }, now), true);
+  assert.equal(isDueForPublish({ is_published: 0, scheduled_at: '2026-10-19T12:00:00Z' }, now), true);
+});
+
+test('waits for drafts scheduled in the future', () => {
+  assert.equal(isDueForPublish({ is_published: 0, scheduled_at: '2026-10-19T12:01:00Z' }, now), false);
+});
+
+test('does not republish an unpublished post that keeps its published_at', () => {
+  const unpublished = { is_published: 0, published_at: new Date('2026-01-01T00:00:00Z'), scheduled_at: null };
+  assert.equal(isDueForPublish(unpublished, now), false);
+});
+
+test('ignores drafts without a schedule and posts already published', () => {
+  assert.equal(isDueForPublish({ is_published: 0 }, now), false);
+  assert.equal(isDueForPublish({ is_published: 1, scheduled_at: '2026-10-19T11:00:00Z' }, now), false);
+});
+
+test('unpublishing a scheduled draft cancels the schedule so the cron skips it', () => {
+  const scheduled = { is_published: 0, scheduled_at: '2026-10-19T11:00:00Z' };
+  assert.equal(needsUnpublish(scheduled), true);
+  assert.equal(isDueForPublish({ ...scheduled, ...UNPUBLISH_CHANGES }, now), false);
+});
+
+test('unpublishing a published post keeps it out of the next cron run', () => {
+  const published = { is_published: 1, published_at: '2026-10-01T00:00:00Z', scheduled_at: '2026-10-19T11:00:00Z' };
+  assert.equal(needsUnpublish(published), true);
+  assert.equal(isDueForPublish({ ...published, ...UNPUBLISH_CHANGES }, new Date('2027-01-01T00:00:00Z')), false);
+});
+
+test('unpublish is a no-op for drafts without a schedule', () => {
+  assert.equal(needsUnpublish({ is_published: 0, scheduled_at: null }), false);
+});
@@ -0,0 +1,28 @@
+export interface SchedulablePost {
+  is_published?: unknown;
+  scheduled_at?: unknown;
+  [column: string]: unknown;
+}
+
+export const UNPUBLISH_CHANGES = { is_published: 0, scheduled_at: null } as const;
+
+export function readScheduledAt(post: SchedulablePost): Date | null {
+  const value = post.scheduled_at;
+  if (value == null || value === '') {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function needsUnpublish(post: SchedulablePost): boolean {
+  return Boolean(Number(post.is_published)) || readScheduledAt(post) !== null;
+}
+
+export function isDueForPublish(post: SchedulablePost, now: Date): boolean {
+  if (Number(post.is_published)) {
+    return false;
+  }
+  const scheduledAt = readScheduledAt(post);
+  return scheduledAt !== null && scheduledAt.getTime() <= now.getTime();
+}
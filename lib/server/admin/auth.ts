@@ -3,9 +3,12 @@ import 'server-only';
 import {
   ADMIN_COOKIE_NAME,
   ADMIN_SESSION_TTL_SECONDS,
+  PREVIEW_TOKEN_TTL_SECONDS,
   createAdminSessionCookie,
   issueAdminSessionToken as issueToken,
+  issuePreviewToken,
   verifyAdminSessionToken as verifyToken,
+  verifyPreviewToken,
 } from '@/lib/admin/auth';
 
 import { readEnv } from '../env';
@@ -39,3 +42,27 @@ export async function verifyAdminSessionToken(
 ): Promise<boolean> {
   return verifyToken(token, config.password, now);
 }
+
+export async function issueBlogPreviewToken(
+  config: AdminAuthConfig,
+  slug: string,
+  now = Date.now()
+): Promise<{ token: string; expiresAt: string }> {
+  const expiresAt = now + PREVIEW_TOKEN_TTL_SECONDS * 1000;
+  const token = await issuePreviewToken(slug, config.password, expiresAt);
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+export async function verifyBlogPreviewToken(
+  token: string,
+  slug: string,
+  config: AdminAuthConfig,
+  now = Date.now()
+): Promise<boolean> {
+  return verifyPreviewToken(token, slug, config.password, now);
+}
+
+export function resolveAdminActor(request: Request): string {
+  const header = request.headers.get('x-admin-actor')?.trim();
+  return header ? header.slice(0, 191) : 'admin';
+}
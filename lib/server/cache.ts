@@ -2,9 +2,9 @@ import 'server-only';
 
 import { revalidatePath } from 'next/cache';
 
-async function safeRevalidate(path: string) {
+async function safeRevalidate(path: string, type?: 'page') {
   try {
-    await Promise.resolve(revalidatePath(path));
+    await Promise.resolve(revalidatePath(path, type));
   } catch (error) {
     console.warn('revalidate_path_failed', { path, error: (error as Error)?.message });
   }
@@ -23,11 +23,42 @@ export async function revalidateProductPaths(slug: string, categories: Iterable<
 
 export async function revalidateBlogPaths(slug: string, categories: Iterable<string | null | undefined>) {
   await safeRevalidate(`/b/${slug}`);
+  await Promise.all([safeRevalidate('/feed.xml'), safeRevalidate('/atom.xml')]);
   const uniqueCategories = new Set<string>();
   for (const category of categories) {
     if (category) {
       uniqueCategories.add(category);
     }
   }
-  await Promise.all(Array.from(uniqueCategories, (category) => safeRevalidate(`/bc/${category}`)));
+  await Promise.all(
+    Array.from(uniqueCategories, (category) =>
+      Promise.all([safeRevalidate(`/bc/${category}`), safeRevalidate(`/bc/${category}/feed.xml`)])
+    )
+  );
+}
+
+export async function revalidateCategoryPaths(categories: Iterable<string | null | undefined>) {
+  const uniqueCategories = new Set<string>();
+  for (const category of categories) {
+    if (category) {
+      uniqueCategories.add(category);
+    }
+  }
+  await Promise.all(
+    Array.from(uniqueCategories, (category) =>
+      Promise.all([
+        safeRevalidate(`/c/${category}`),
+        safeRevalidate(`/bc/${category}`),
+        safeRevalidate(`/bc/${category}/feed.xml`),
+      ])
+    )
+  );
+}
+
+export async function revalidateSitemapPaths() {
+  await Promise.all([
+    safeRevalidate('/sitemap.xml'),
+    safeRevalidate('/sitemap-products.xml'),
+    safeRevalidate('/sitemaps/[file]', 'page'),
+  ]);
 }
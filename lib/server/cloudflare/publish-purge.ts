@@ -0,0 +1,120 @@
+import 'server-only';
+
+import type { NextRequest } from 'next/server';
+
+import { categoryCacheTag, postCacheTag, productCacheTag } from '@/lib/cache-tags';
+
+import { buildBlogUrls, buildProductUrls } from './purge';
+import { purgeOnPublish, type PurgeQueueOutcome } from './purge-queue';
+
+export type PublishPurgeStatus = 'purged' | 'queued' | 'failed' | 'skipped';
+
+export interface PublishPurgeSummary {
+  ray_ids: string[];
+  purged: boolean;
+  purge_queued: number;
+  purge_status: PublishPurgeStatus;
+  purge_error?: string;
+}
+
+export function summarizePurgeOutcome(outcome: PurgeQueueOutcome | null): PublishPurgeSummary {
+  if (!outcome) {
+    return { ray_ids: [], purged: false, purge_queued: 0, purge_status: 'skipped' };
+  }
+  const status = resolvePurgeStatus(outcome);
+  return {
+    ray_ids: outcome.results.flatMap((result) => result.rayIds),
+    purged: status === 'purged',
+    purge_queued: outcome.pending,
+    purge_status: status,
+  };
+}
+
+export function failedPurgeSummary(error?: unknown): PublishPurgeSummary {
+  const message = (error as Error | undefined)?.message;
+  return {
+    ray_ids: [],
+    purged: false,
+    purge_queued: 0,
+    purge_status: 'failed',
+    ...(message ? { purge_error: message } : {}),
+  };
+}
+
+export async function purgeProductChange(
+  request: NextRequest,
+  change: { slugs: string[]; categories?: Iterable<string | null | undefined> }
+): Promise<PublishPurgeSummary> {
+  const categories = uniqueValues(change.categories ?? []);
+  try {
+    const buildUrls = (siteUrl: string) => [
+      ...buildProductUrls(siteUrl, change.slugs),
+      ...categories.map((category) => `${siteUrl}/c/${encodeURIComponent(category)}`),
+    ];
+    const tags = [
+      'sitemaps',
+      ...change.slugs.map((slug) => productCacheTag(slug)),
+      ...categories.map((category) => categoryCacheTag(category)),
+    ];
+    return summarizePurgeOutcome(await purgeOnPublish({ request, buildUrls, tags }));
+  } catch (error) {
+    console.warn('product_publish_purge_failed', { slugs: change.slugs, error: (error as Error)?.message });
+    return failedPurgeSummary(error);
+  }
+}
+
+export async function purgeBlogPostChange(
+  request: NextRequest,
+  change: { slugs: string[]; categories?: Iterable<string | null | undefined> }
+): Promise<PublishPurgeSummary> {
+  const categories = uniqueValues(change.categories ?? []);
+  try {
+    const buildUrls = (siteUrl: string) => buildBlogUrls(siteUrl, change.slugs, categories);
+    const tags = [
+      'sitemaps',
+      'feeds',
+      ...change.slugs.map((slug) => postCacheTag(slug)),
+      ...categories.map((category) => categoryCacheTag(category)),
+    ];
+    return summarizePurgeOutcome(await purgeOnPublish({ request, buildUrls, tags }));
+  } catch (error) {
+    console.warn('blog_post_publish_purge_failed', { slugs: change.slugs, error: (error as Error)?.message });
+    return failedPurgeSummary(error);
+  }
+}
+
+export async function purgeCatalogChange(
+  request: NextRequest,
+  sections: Array<'products' | 'posts'>
+): Promise<PublishPurgeSummary> {
+  try {
+    const tags = ['sitemaps', ...sections];
+    if (sections.includes('posts')) {
+      tags.push('feeds');
+    }
+    return summarizePurgeOutcome(await purgeOnPublish({ request, tags }));
+  } catch (error) {
+    console.warn('catalog_publish_purge_failed', { sections, error: (error as Error)?.message });
+    return failedPurgeSummary(error);
+  }
+}
+
+function resolvePurgeStatus(outcome: PurgeQueueOutcome): PublishPurgeStatus {
+  if (outcome.results.some((result) => !result.ok)) {
+    return 'failed';
+  }
+  if (outcome.pending > 0) {
+    return 'queued';
+  }
+  return outcome.results.length > 0 ? 'purged' : 'skipped';
+}
+
+function uniqueValues(values: Iterable<string | null | undefined>): string[] {
+  const unique = new Set<string>();
+  for (const value of values) {
+    if (value) {
+      unique.add(value);
+    }
+  }
+  return Array.from(unique);
+}
@@ -0,0 +1,345 @@
+import 'server-only';
+
+import type { NextRequest } from 'next/server';
+
+import { resolveAdminActor } from '../admin/auth';
+import { readEnv } from '../env';
+import { listChildSitemapPaths } from '../sitemap';
+import { loadTiDbCredentials } from '../tidb/config';
+import {
+  claimDuePurgeItems,
+  completePurgeItems,
+  enqueuePurgeTargets,
+  exhaustPurgeRateWindow,
+  failPurgeItems,
+  releasePurgeItems,
+  reservePurgeRequest,
+  type PurgeQueueItem,
+} from '../tidb/purge-queue';
+
+import {
+  MissingCloudflarePurgeEnvError,
+  buildProductUrls,
+  buildSitePurgeUrls,
+  buildSitemapUrls,
+  chunkPurgeTargets,
+  getCloudflarePurgeConfig,
+  getCloudflarePurgeConfigs,
+  normalizePurgeTargets,
+  purgeCloudflareTargets,
+  routePurgeTargets,
+  type CloudflarePurgeConfig,
+  type CloudflarePurgeMode,
+  type PurgeContext,
+  type PurgeResult,
+} from './purge';
+
+export interface PurgeQueueSettings {
+  coalesceMs: number;
+  rateLimit: number;
+  rateWindowMs: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface PurgeQueueOutcome {
+  queued: number;
+  coalesced: number;
+  pending: number;
+  results: PurgeResult[];
+}
+
+export interface PurgeQueueDrainResult {
+  claimed: number;
+  purged: number;
+  retried: number;
+  deadLettered: number;
+  rateLimited: boolean;
+  results: PurgeResult[];
+}
+
+interface PurgeQueueRequest {
+  config: CloudflarePurgeConfig;
+  mode: CloudflarePurgeMode;
+  targets: string[];
+}
+
+const DRAIN_LIMIT = 500;
+const WRITE_DRAIN_LIMIT = 50;
+
+export function getPurgeQueueSettings(): PurgeQueueSettings {
+  return {
+    coalesceMs: readNumberEnv('CLOUDFLARE_PURGE_COALESCE_SECONDS', 0) * 1000,
+    rateLimit: Math.max(1, Math.trunc(readNumberEnv('CLOUDFLARE_PURGE_RATE_LIMIT', 30))),
+    rateWindowMs: readNumberEnv('CLOUDFLARE_PURGE_RATE_WINDOW_SECONDS', 60) * 1000,
+    maxAttempts: Math.max(1, Math.trunc(readNumberEnv('CLOUDFLARE_PURGE_MAX_ATTEMPTS', 6))),
+    baseDelayMs: readNumberEnv('CLOUDFLARE_PURGE_BACKOFF_SECONDS', 30) * 1000,
+    maxDelayMs: readNumberEnv('CLOUDFLARE_PURGE_BACKOFF_MAX_SECONDS', 3600) * 1000,
+  };
+}
+
+export async function enqueueCloudflarePurge(
+  mode: CloudflarePurgeMode,
+  values: string[],
+  configs = getCloudflarePurgeConfigs(),
+  context: PurgeContext = {}
+): Promise<PurgeQueueOutcome> {
+  if (configs.length === 0) {
+    throw new MissingCloudflarePurgeEnvError();
+  }
+  const requests = routePurgeTargets(mode, values, configs).map(({ config, targets }) => ({ config, mode, targets }));
+  return enqueuePurgeRequests(requests, context);
+}
+
+export async function drainCloudflarePurgeQueues(
+  configs = getCloudflarePurgeConfigs(),
+  options: { actor?: string | null; limit?: number } = {}
+): Promise<PurgeQueueDrainResult> {
+  if (configs.length === 0) {
+    throw new MissingCloudflarePurgeEnvError();
+  }
+
+  const total: PurgeQueueDrainResult = {
+    claimed: 0,
+    purged: 0,
+    retried: 0,
+    deadLettered: 0,
+    rateLimited: false,
+    results: [],
+  };
+  for (const config of uniqueZones(configs)) {
+    const drain = await drainCloudflarePurgeQueue(config, options);
+    total.claimed += drain.claimed;
+    total.purged += drain.purged;
+    total.retried += drain.retried;
+    total.deadLettered += drain.deadLettered;
+    total.rateLimited = total.rateLimited || drain.rateLimited;
+    total.results.push(...drain.results);
+  }
+  return total;
+}
+
+export async function drainCloudflarePurgeQueue(
+  config = getCloudflarePurgeConfig(),
+  options: { actor?: string | null; limit?: number } = {}
+): Promise<PurgeQueueDrainResult> {
+  if (!config) {
+    throw new MissingCloudflarePurgeEnvError();
+  }
+
+  const settings = getPurgeQueueSettings();
+  const items = await claimDuePurgeItems(config.zoneId, options.limit ?? DRAIN_LIMIT);
+  const drain: PurgeQueueDrainResult = {
+    claimed: items.length,
+    purged: 0,
+    retried: 0,
+    deadLettered: 0,
+    rateLimited: false,
+    results: [],
+  };
+
+  const batches = buildDrainBatches(items);
+  for (let index = 0; index < batches.length; index += 1) {
+    const batch = batches[index];
+    const ids = batch.items.map((item) => item.id);
+
+    const reservation = await reservePurgeRequest(config.zoneId, settings.rateLimit, settings.rateWindowMs);
+    if (!reservation.allowed) {
+      drain.rateLimited = true;
+      await releasePurgeItems(
+        batches.slice(index).flatMap((pending) => pending.items.map((item) => item.id)),
+        reservation.retryAfterMs
+      );
+      break;
+    }
+
+    const [result] = await purgeCloudflareTargets(batch.mode, batch.targets, config, {
+      actor: options.actor ?? null,
+      source: 'queue',
+    });
+    drain.results.push(result);
+
+    if (result.ok) {
+      await completePurgeItems(ids);
+      drain.purged += ids.length;
+      continue;
+    }
+
+    if (result.status === 429) {
+      drain.rateLimited = true;
+      await exhaustPurgeRateWindow(config.zoneId, settings.rateLimit);
+      await releasePurgeItems(
+        batches.slice(index).flatMap((pending) => pending.items.map((item) => item.id)),
+        settings.rateWindowMs
+      );
+      break;
+    }
+
+    const failure = await failPurgeItems(ids, describeFailure(result), settings);
+    drain.retried += failure.retried;
+    drain.deadLettered += failure.deadLettered;
+  }
+
+  const logger = drain.deadLettered > 0 || drain.rateLimited ? console.warn : console.info;
+  logger('cloudflare_purge_queue_drain', {
+    site: config.id,
+    claimed: drain.claimed,
+    purged: drain.purged,
+    retried: drain.retried,
+    deadLettered: drain.deadLettered,
+    rateLimited: drain.rateLimited,
+  });
+
+  return drain;
+}
+
+export async function purgeOnPublish(options: {
+  request?: NextRequest;
+  productSlugs?: string[];
+  buildUrls?: (siteUrl: string) => string[];
+  tags?: string[];
+  configs?: CloudflarePurgeConfig[];
+  actor?: string | null;
+}): Promise<PurgeQueueOutcome | null> {
+  const configs = (options.configs ?? getCloudflarePurgeConfigs()).filter((config) => config.enablePurgeOnPublish);
+  if (configs.length === 0) {
+    return null;
+  }
+
+  const tags = normalizePurgeTargets('tags', options.tags ?? []);
+  const sitemapPaths = await listChildSitemapPaths();
+  const requests: PurgeQueueRequest[] = [];
+  for (const config of configs) {
+    const urls = buildSitePurgeUrls(
+      config,
+      (siteUrl) => [
+        ...buildSitemapUrls(siteUrl, sitemapPaths),
+        ...(options.buildUrls?.(siteUrl) ?? []),
+        ...(config.includeProductUrls ? buildProductUrls(siteUrl, options.productSlugs ?? []) : []),
+      ],
+      options.request
+    );
+    requests.push(
+      { config, mode: 'files', targets: Array.from(new Set(urls)) },
+      { config, mode: 'tags', targets: tags }
+    );
+  }
+
+  const actor = options.actor ?? (options.request ? resolveAdminActor(options.request) : null);
+  return enqueuePurgeRequests(requests, { actor, source: 'publish' });
+}
+
+async function enqueuePurgeRequests(
+  requests: PurgeQueueRequest[],
+  context: PurgeContext
+): Promise<PurgeQueueOutcome> {
+  const pending = requests.filter((request) => request.targets.length > 0);
+
+  if (!loadTiDbCredentials()) {
+    const results: PurgeResult[] = [];
+    for (const request of pending) {
+      results.push(...(await purgeCloudflareTargets(request.mode, request.targets, request.config, context)));
+    }
+    return { queued: 0, coalesced: 0, pending: 0, results };
+  }
+
+  const settings = getPurgeQueueSettings();
+  const outcome: PurgeQueueOutcome = { queued: 0, coalesced: 0, pending: 0, results: [] };
+  const entriesByZone = new Map<string, number>();
+  for (const request of pending) {
+    const result = await enqueuePurgeTargets({
+      zoneId: request.config.zoneId,
+      mode: request.mode,
+      targets: request.targets,
+      source: context.source ?? 'manual',
+      actor: context.actor ?? null,
+      delayMs: settings.coalesceMs,
+    });
+    outcome.queued += result.queued;
+    outcome.coalesced += result.coalesced;
+    const zoneId = request.config.zoneId;
+    entriesByZone.set(zoneId, (entriesByZone.get(zoneId) ?? 0) + result.queued + result.coalesced);
+  }
+
+  const configs = uniqueZones(pending.map((request) => request.config));
+  console.info('cloudflare_purge_enqueued', {
+    source: context.source ?? 'manual',
+    sites: configs.map((config) => config.id),
+    queued: outcome.queued,
+    coalesced: outcome.coalesced,
+  });
+
+  for (const config of configs) {
+    const entries = entriesByZone.get(config.zoneId) ?? 0;
+    if (entries === 0) {
+      continue;
+    }
+    if (settings.coalesceMs > 0) {
+      outcome.pending += entries;
+      continue;
+    }
+    try {
+      const drain = await drainCloudflarePurgeQueue(config, { actor: context.actor, limit: WRITE_DRAIN_LIMIT });
+      outcome.results.push(...drain.results);
+      const settled =
+        drain.claimed > 0 &&
+        drain.claimed < WRITE_DRAIN_LIMIT &&
+        !drain.rateLimited &&
+        drain.retried === 0 &&
+        drain.deadLettered === 0;
+      if (!settled) {
+        outcome.pending += entries;
+      }
+    } catch (error) {
+      console.warn('cloudflare_purge_queue_drain_failed', { site: config.id, error: (error as Error)?.message });
+      outcome.pending += entries;
+    }
+  }
+  return outcome;
+}
+
+function uniqueZones(configs: CloudflarePurgeConfig[]): CloudflarePurgeConfig[] {
+  const zones = new Map<string, CloudflarePurgeConfig>();
+  for (const config of configs) {
+    if (!zones.has(config.zoneId)) {
+      zones.set(config.zoneId, config);
+    }
+  }
+  return Array.from(zones.values());
+}
+
+function buildDrainBatches(
+  items: PurgeQueueItem[]
+): Array<{ mode: CloudflarePurgeMode; targets: string[]; items: PurgeQueueItem[] }> {
+  const byMode = new Map<CloudflarePurgeMode, Map<string, PurgeQueueItem[]>>();
+  for (const item of items) {
+    const targets = byMode.get(item.mode) ?? new Map<string, PurgeQueueItem[]>();
+    targets.set(item.target, [...(targets.get(item.target) ?? []), item]);
+    byMode.set(item.mode, targets);
+  }
+
+  const batches: Array<{ mode: CloudflarePurgeMode; targets: string[]; items: PurgeQueueItem[] }> = [];
+  for (const [mode, targets] of byMode) {
+    for (const chunk of chunkPurgeTargets(mode, Array.from(targets.keys()))) {
+      batches.push({ mode, targets: chunk, items: chunk.flatMap((target) => targets.get(target) ?? []) });
+    }
+  }
+  return batches;
+}
+
+function describeFailure(result: PurgeResult): string {
+  if (result.status) {
+    return `HTTP ${result.status}`;
+  }
+  return result.error instanceof Error ? result.error.message : 'request_failed';
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = readEnv(name);
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
@@ -3,13 +3,29 @@ import 'server-only';
 import type { NextRequest } from 'next/server';
 
 import { readBooleanEnv, readEnv } from '../env';
+import { loadTiDbCredentials } from '../tidb/config';
+import {
+  recordPurgeHistory,
+  type PurgeHistoryMode,
+  type PurgeHistoryRecord,
+  type PurgeHistorySource,
+} from '../tidb/purge-history';
+
+import { findCloudflareSiteForHost, getCloudflareSites, siteServesPath, type CloudflareSite } from './sites';
 
 const API_BASE_URL = 'https://api.cloudflare.com/client/v4';
-const MAX_URLS_PER_REQUEST = 2000;
+const MAX_TARGETS_PER_REQUEST: Record<CloudflarePurgeMode, number> = {
+  files: 2000,
+  tags: 30,
+  prefixes: 30,
+  hosts: 30,
+};
+
+export const CLOUDFLARE_PURGE_MODES = ['files', 'tags', 'prefixes', 'hosts'] as const;
 
-export interface CloudflarePurgeConfig {
-  zoneId: string;
-  apiToken: string;
+export type CloudflarePurgeMode = (typeof CLOUDFLARE_PURGE_MODES)[number];
+
+export interface CloudflarePurgeConfig extends CloudflareSite {
   enablePurgeOnPublish: boolean;
   includeProductUrls: boolean;
 }
@@ -20,10 +36,27 @@ export interface PurgeResult {
   rayIds: string[];
   latencyMs: number;
   attempts: number;
-  mode: 'files' | 'purge_everything';
+  mode: CloudflarePurgeMode | 'purge_everything';
   error?: unknown;
 }
 
+export interface CloudflareZoneHealth {
+  ok: boolean;
+  status: number;
+  rayIds: string[];
+  latencyMs: number;
+  zoneName: string | null;
+  zoneStatus: string | null;
+  unmatchedHostnames: string[];
+  error?: unknown;
+}
+
+export interface PurgeContext {
+  actor?: string | null;
+  source?: PurgeHistorySource;
+  rerunOf?: string | null;
+}
+
 export class MissingCloudflarePurgeEnvError extends Error {
   constructor() {
     super('Cloudflare purge configuration is not available');
@@ -31,6 +64,13 @@ export class MissingCloudflarePurgeEnvError extends Error {
   }
 }
 
+export class InvalidPurgeTargetError extends Error {
+  constructor(public readonly mode: CloudflarePurgeMode, public readonly value: string) {
+    super(`Invalid ${mode} purge target: ${value}`);
+    this.name = 'InvalidPurgeTargetError';
+  }
+}
+
 export class MissingSiteUrlError extends Error {
   constructor() {
     super('Unable to resolve site URL for purge operation');
@@ -38,22 +78,23 @@ export class MissingSiteUrlError extends Error {
   }
 }
 
-export function getCloudflarePurgeConfig(): CloudflarePurgeConfig | null {
-  const zoneId = readEnv('CLOUDFLARE_ZONE_ID');
-  const apiToken = readEnv('CLOUDFLARE_API_TOKEN');
-  if (!zoneId || !apiToken) {
-    return null;
-  }
-
+export function getCloudflarePurgeConfigs(): CloudflarePurgeConfig[] {
   const enablePurgeOnPublish = readBooleanEnv('CLOUDFLARE_ENABLE_PURGE_ON_PUBLISH') ?? false;
   const includeProductUrls = readBooleanEnv('CLOUDFLARE_INCLUDE_PRODUCT_URLS') ?? false;
 
-  return {
-    zoneId,
-    apiToken,
+  return getCloudflareSites().map((site) => ({
+    ...site,
     enablePurgeOnPublish,
     includeProductUrls,
-  };
+  }));
+}
+
+export function getCloudflarePurgeConfig(siteId?: string): CloudflarePurgeConfig | null {
+  const configs = getCloudflarePurgeConfigs();
+  if (siteId) {
+    return configs.find((config) => config.id === siteId) ?? null;
+  }
+  return configs[0] ?? null;
 }
 
 export function resolveSiteUrl(request?: NextRequest): string {
@@ -69,12 +110,29 @@ export function resolveSiteUrl(request?: NextRequest): string {
   if (explicitUrl) {
     return explicitUrl.replace(/\/$/, '');
   }
+  const primarySite = getCloudflareSites().find((site) => site.siteUrl);
+  if (primarySite?.siteUrl) {
+    return primarySite.siteUrl;
+  }
   throw new MissingSiteUrlError();
 }
 
-export function buildSitemapUrls(baseUrl: string): string[] {
+export function buildSitePurgeUrls(
+  config: CloudflarePurgeConfig,
+  build: (siteUrl: string) => string[],
+  request?: NextRequest
+): string[] {
+  const siteUrl = config.siteUrl ?? resolveSiteUrl(request);
+  return build(siteUrl).filter((url) => siteServesPath(config, new URL(url).pathname));
+}
+
+export function buildSitemapUrls(baseUrl: string, childPaths: string[] = []): string[] {
   const normalized = baseUrl.replace(/\/$/, '');
-  return [`${normalized}/sitemap.xml`, `${normalized}/sitemap-products.xml`];
+  return [
+    `${normalized}/sitemap.xml`,
+    `${normalized}/sitemap-products.xml`,
+    ...childPaths.map((path) => `${normalized}${path}`),
+  ];
 }
 
 export function buildProductUrls(baseUrl: string, slugs: string[]): string[] {
@@ -82,10 +140,105 @@ export function buildProductUrls(baseUrl: string, slugs: string[]): string[] {
   return slugs.map((slug) => `${normalized}/p/${encodeURIComponent(slug)}`);
 }
 
-function chunkUrls(urls: string[]): string[][] {
+export function buildBlogUrls(
+  baseUrl: string,
+  slugs: string[],
+  categories: Iterable<string | null | undefined> = []
+): string[] {
+  const normalized = baseUrl.replace(/\/$/, '');
+  const urls = slugs.map((slug) => `${normalized}/b/${encodeURIComponent(slug)}`);
+  urls.push(`${normalized}/feed.xml`, `${normalized}/atom.xml`);
+  for (const category of new Set(categories)) {
+    if (category) {
+      urls.push(`${normalized}/bc/${encodeURIComponent(category)}`);
+      urls.push(`${normalized}/bc/${encodeURIComponent(category)}/feed.xml`);
+    }
+  }
+  return urls;
+}
+
+export function normalizePurgeTargets(mode: CloudflarePurgeMode, values: string[]): string[] {
+  const targets = new Set<string>();
+  for (const raw of values) {
+    const value = raw.trim();
+    if (!value) {
+      continue;
+    }
+    targets.add(normalizePurgeTarget(mode, value));
+  }
+  return Array.from(targets);
+}
+
+function normalizePurgeTarget(mode: CloudflarePurgeMode, value: string): string {
+  switch (mode) {
+    case 'tags':
+      if (/[\s,]/.test(value) || value.length > 1024) {
+        throw new InvalidPurgeTargetError(mode, value);
+      }
+      return value.toLowerCase();
+    case 'prefixes': {
+      const prefix = value.replace(/^https?:\/\//i, '').replace(/[?#].*$/, '');
+      if (!/^[a-z0-9.-]+(?::\d+)?\/\S*$/i.test(prefix)) {
+        throw new InvalidPurgeTargetError(mode, value);
+      }
+      return prefix;
+    }
+    case 'hosts': {
+      const host = value.replace(/^https?:\/\//i, '').split(/[/?#]/)[0].toLowerCase();
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host)) {
+        throw new InvalidPurgeTargetError(mode, value);
+      }
+      return host;
+    }
+    default:
+      if (!/^https?:\/\//i.test(value)) {
+        throw new InvalidPurgeTargetError(mode, value);
+      }
+      return value;
+  }
+}
+
+export function routePurgeTargets(
+  mode: CloudflarePurgeMode,
+  values: string[],
+  configs: CloudflarePurgeConfig[]
+): Array<{ config: CloudflarePurgeConfig; targets: string[] }> {
+  const targets = mode === 'files' ? Array.from(new Set(values)) : normalizePurgeTargets(mode, values);
+  if (targets.length === 0) {
+    return [];
+  }
+  if (mode === 'tags') {
+    return configs.map((config) => ({ config, targets }));
+  }
+
+  const [primary] = configs;
+  if (!primary) {
+    return [];
+  }
+  const routed = new Map<CloudflarePurgeConfig, string[]>();
+  for (const target of targets) {
+    const config = findCloudflareSiteForHost(configs, readTargetHost(mode, target)) ?? primary;
+    routed.set(config, [...(routed.get(config) ?? []), target]);
+  }
+  return Array.from(routed, ([config, routedTargets]) => ({ config, targets: routedTargets }));
+}
+
+function readTargetHost(mode: CloudflarePurgeMode, target: string): string {
+  if (mode !== 'files') {
+    return target.split('/')[0];
+  }
+  try {
+    return new URL(target).host;
+  } catch (_error) {
+    return '';
+  }
+}
+
+export function chunkPurgeTargets(mode: CloudflarePurgeMode, values: string[]): string[][] {
+  const size = MAX_TARGETS_PER_REQUEST[mode];
   const chunks: string[][] = [];
-  for (let i = 0; i < urls.length; i += MAX_URLS_PER_REQUEST) {
-    chunks.push(urls.slice(i, i + MAX_URLS_PER_REQUEST));
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
   }
   return chunks;
 }
@@ -97,7 +250,8 @@ interface PurgeRequestOptions {
 
 async function purgeChunk(
   config: CloudflarePurgeConfig,
-  urls: string[],
+  mode: CloudflarePurgeMode,
+  values: string[],
   options: PurgeRequestOptions = {}
 ): Promise<PurgeResult> {
   const timeoutMs = options.timeoutMs ?? 25_000;
@@ -118,7 +272,7 @@ async function purgeChunk(
           Authorization: `Bearer ${config.apiToken}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ files: urls }),
+        body: JSON.stringify({ [mode]: values }),
         signal: controller.signal,
       });
 
@@ -148,11 +302,12 @@ async function purgeChunk(
         rayIds,
         attempts,
         latencyMs,
-        mode: 'files',
+        mode,
         error: response.ok ? undefined : data,
       };
 
       console.info('cloudflare_purge', {
+        mode,
         ok: result.ok,
         status: result.status,
         rayIds,
@@ -187,7 +342,7 @@ async function purgeChunk(
         rayIds,
         attempts,
         latencyMs,
-        mode: 'files',
+        mode,
         error,
       };
     }
@@ -199,37 +354,139 @@ async function purgeChunk(
     rayIds,
     attempts: 2,
     latencyMs: 0,
-    mode: 'files',
+    mode,
     error: new Error('Failed to purge Cloudflare cache'),
   };
 }
 
 export async function purgeCloudflareUrls(
   urls: string[],
-  config = getCloudflarePurgeConfig()
+  config = getCloudflarePurgeConfig(),
+  context: PurgeContext = {}
+): Promise<PurgeResult[]> {
+  return purgeCloudflareTargets('files', urls, config, context);
+}
+
+export async function purgeCloudflareTargets(
+  mode: CloudflarePurgeMode,
+  values: string[],
+  config = getCloudflarePurgeConfig(),
+  context: PurgeContext = {}
 ): Promise<PurgeResult[]> {
   if (!config) {
     throw new MissingCloudflarePurgeEnvError();
   }
 
-  const chunks = chunkUrls(urls);
+  const targets = mode === 'files' ? values : normalizePurgeTargets(mode, values);
+  const chunks = chunkPurgeTargets(mode, targets);
   const results: PurgeResult[] = [];
 
   for (const chunk of chunks) {
-    const result = await purgeChunk(config, chunk, { retryOnTimeout: true });
+    const result = await purgeChunk(config, mode, chunk, { retryOnTimeout: true });
     results.push(result);
   }
 
+  await recordPurge(mode, targets, results, context);
   return results;
 }
 
 export async function purgeCloudflareEverything(
-  config = getCloudflarePurgeConfig()
+  config = getCloudflarePurgeConfig(),
+  context: PurgeContext = {}
 ): Promise<PurgeResult> {
   if (!config) {
     throw new MissingCloudflarePurgeEnvError();
   }
 
+  const result = await requestPurgeEverything(config);
+  await recordPurge('purge_everything', [], [result], context);
+  return result;
+}
+
+export async function rerunCloudflarePurge(
+  entry: Pick<PurgeHistoryRecord, 'id' | 'mode' | 'urls'>,
+  configs: CloudflarePurgeConfig[],
+  actor: string | null
+): Promise<PurgeResult[]> {
+  const context: PurgeContext = { actor, source: 'rerun', rerunOf: entry.id };
+  const results: PurgeResult[] = [];
+  if (entry.mode === 'purge_everything') {
+    for (const config of configs) {
+      results.push(await purgeCloudflareEverything(config, context));
+    }
+    return results;
+  }
+  for (const { config, targets } of routePurgeTargets(entry.mode, entry.urls, configs)) {
+    results.push(...(await purgeCloudflareTargets(entry.mode, targets, config, context)));
+  }
+  return results;
+}
+
+export async function checkCloudflareZone(config: CloudflarePurgeConfig): Promise<CloudflareZoneHealth> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 10_000);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(`${API_BASE_URL}/zones/${config.zoneId}`, {
+      headers: { Authorization: `Bearer ${config.apiToken}` },
+      signal: controller.signal,
+    });
+    const latencyMs = Date.now() - startedAt;
+    const rayId = response.headers.get('cf-ray');
+    const data = (await safeParseJson(response)) as { result?: { name?: string; status?: string } } | undefined;
+    const zoneName = typeof data?.result?.name === 'string' ? data.result.name.toLowerCase() : null;
+    const zoneStatus = typeof data?.result?.status === 'string' ? data.result.status : null;
+    const unmatchedHostnames = zoneName
+      ? config.hostnames.filter((hostname) => hostname !== zoneName && !hostname.endsWith(`.${zoneName}`))
+      : [];
+
+    const health: CloudflareZoneHealth = {
+      ok: response.ok && zoneStatus === 'active' && unmatchedHostnames.length === 0,
+      status: response.status,
+      rayIds: rayId ? [rayId] : [],
+      latencyMs,
+      zoneName,
+      zoneStatus,
+      unmatchedHostnames,
+      error: response.ok ? undefined : data,
+    };
+
+    const logger = health.ok ? console.info : console.warn;
+    logger('cloudflare_zone_health', {
+      site: config.id,
+      ok: health.ok,
+      status: health.status,
+      zoneStatus,
+      unmatchedHostnames,
+      latencyMs,
+      zone: obfuscateId(config.zoneId),
+    });
+
+    return health;
+  } catch (error) {
+    console.error('cloudflare_zone_health_failed', {
+      site: config.id,
+      zone: obfuscateId(config.zoneId),
+      error: (error as Error)?.message,
+    });
+
+    return {
+      ok: false,
+      status: 0,
+      rayIds: [],
+      latencyMs: Date.now() - startedAt,
+      zoneName: null,
+      zoneStatus: null,
+      unmatchedHostnames: [],
+      error,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function requestPurgeEverything(config: CloudflarePurgeConfig): Promise<PurgeResult> {
   const url = `${API_BASE_URL}/zones/${config.zoneId}/purge_cache`;
   const rayIds: string[] = [];
   let attempts = 0;
@@ -335,31 +592,42 @@ export async function purgeCloudflareEverything(
   };
 }
 
-export async function purgeOnPublish(options: {
-  request?: NextRequest;
-  productSlugs?: string[];
-  additionalUrls?: string[];
-  config?: CloudflarePurgeConfig | null;
-}): Promise<PurgeResult[] | null> {
-  const config = options.config ?? getCloudflarePurgeConfig();
-  if (!config || !config.enablePurgeOnPublish) {
-    return null;
+async function recordPurge(mode: PurgeHistoryMode, urls: string[], results: PurgeResult[], context: PurgeContext) {
+  if (!loadTiDbCredentials()) {
+    return;
   }
-
-  const siteUrl = resolveSiteUrl(options.request);
-  const urls = new Set<string>([
-    ...buildSitemapUrls(siteUrl),
-    ...(options.additionalUrls ?? []),
-  ]);
-
-  if (config.includeProductUrls) {
-    for (const url of buildProductUrls(siteUrl, options.productSlugs ?? [])) {
-      urls.add(url);
-    }
+  const failed = results.find((result) => !result.ok);
+  try {
+    await recordPurgeHistory({
+      mode,
+      source: context.source ?? 'manual',
+      urls,
+      rayIds: results.flatMap((result) => result.rayIds),
+      ok: !failed,
+      httpStatus: (failed ?? results[results.length - 1])?.status ?? null,
+      latencyMs: results.reduce((total, result) => total + result.latencyMs, 0),
+      attempts: results.reduce((total, result) => total + result.attempts, 0),
+      actor: context.actor ?? null,
+      error: failed ? describePurgeError(failed.error) : null,
+      rerunOf: context.rerunOf ?? null,
+    });
+  } catch (error) {
+    console.warn('cloudflare_purge_history_failed', { mode, urls: urls.length, error: (error as Error)?.message });
   }
+}
 
-  const result = await purgeCloudflareUrls(Array.from(urls), config);
-  return result;
+function describePurgeError(error: unknown): string | null {
+  if (error == null) {
+    return null;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  try {
+    return JSON.stringify(error);
+  } catch (_error) {
+    return String(error);
+  }
 }
 
 async function safeParseJson(response: Response): Promise<unknown> {
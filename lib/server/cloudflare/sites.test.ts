@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { InvalidCloudflareSitesError, parseCloudflareSites } from './sites';
+
+test('parses a site with an inline token', () => {
+  const sites = parseCloudflareSites(
+    JSON.stringify([
+      { id: 'shop', zone_id: 'zone-1', api_token: 'token-1', hostnames: 'Shop.example.com', url_patterns: ['/p/*'] },
+    ]),
+  );
+  assert.deepEqual(sites, [
+    {
+      id: 'shop',
+      hostnames: ['shop.example.com'],
+      siteUrl: 'https://shop.example.com',
+      zoneId: 'zone-1',
+      apiToken: 'token-1',
+      urlPatterns: ['/p/*'],
+    },
+  ]);
+});
+
+test('rejects a value that is not valid JSON', () => {
+  assert.throws(() => parseCloudflareSites('[{"id": "shop",'), InvalidCloudflareSitesError);
+  assert.throws(() => parseCloudflareSites('{"id": "shop"}'), /must be a JSON array/);
+});
+
+test('rejects site entries with missing fields', () => {
+  assert.throws(
+    () => parseCloudflareSites(JSON.stringify([{ zone_id: 'zone-1', api_token: 'token-1' }])),
+    /entry 0 needs an alphanumeric id/,
+  );
+  assert.throws(
+    () => parseCloudflareSites(JSON.stringify([{ id: 'shop', api_token: 'token-1' }])),
+    /site "shop" needs a zone_id/,
+  );
+  assert.throws(
+    () =>
+      parseCloudflareSites(
+        JSON.stringify([{ id: 'shop', zone_id: 'zone-1', api_token_env: 'CLOUDFLARE_SITES_TEST_MISSING_TOKEN' }]),
+      ),
+    InvalidCloudflareSitesError,
+  );
+});
@@ -0,0 +1,172 @@
+import 'server-only';
+
+import { readEnv } from '../env';
+
+export interface CloudflareSite {
+  id: string;
+  hostnames: string[];
+  siteUrl: string | null;
+  zoneId: string;
+  apiToken: string;
+  urlPatterns: string[];
+}
+
+interface CloudflareSiteEntry {
+  id?: unknown;
+  hostnames?: unknown;
+  site_url?: unknown;
+  zone_id?: unknown;
+  api_token?: unknown;
+  api_token_env?: unknown;
+  url_patterns?: unknown;
+}
+
+export class InvalidCloudflareSitesError extends Error {
+  constructor(message: string) {
+    super(`Invalid CLOUDFLARE_SITES: ${message}`);
+    this.name = 'InvalidCloudflareSitesError';
+  }
+}
+
+export function getCloudflareSites(): CloudflareSite[] {
+  const raw = readEnv('CLOUDFLARE_SITES');
+  if (!raw) {
+    return getLegacyCloudflareSite();
+  }
+
+  try {
+    return parseCloudflareSites(raw);
+  } catch (error) {
+    console.error('cloudflare_sites_invalid', { error: (error as Error)?.message });
+    throw error;
+  }
+}
+
+export function siteServesPath(site: Pick<CloudflareSite, 'urlPatterns'>, path: string): boolean {
+  if (site.urlPatterns.length === 0) {
+    return true;
+  }
+  return site.urlPatterns.some((pattern) => globToRegExp(pattern).test(path));
+}
+
+export function findCloudflareSiteForHost<T extends CloudflareSite>(sites: T[], host: string): T | null {
+  const hostname = host.toLowerCase().replace(/:\d+$/, '');
+  return sites.find((site) => site.hostnames.includes(hostname)) ?? null;
+}
+
+export function parseCloudflareSites(raw: string): CloudflareSite[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch (_error) {
+    throw new InvalidCloudflareSitesError('value is not valid JSON');
+  }
+  if (!Array.isArray(entries)) {
+    throw new InvalidCloudflareSitesError('value must be a JSON array');
+  }
+
+  const sites: CloudflareSite[] = [];
+  const ids = new Set<string>();
+  for (const [index, entry] of (entries as CloudflareSiteEntry[]).entries()) {
+    const site = parseCloudflareSite(entry, index);
+    if (ids.has(site.id)) {
+      throw new InvalidCloudflareSitesError(`duplicate site id "${site.id}"`);
+    }
+    ids.add(site.id);
+    sites.push(site);
+  }
+  return sites;
+}
+
+function parseCloudflareSite(entry: CloudflareSiteEntry, index: number): CloudflareSite {
+  if (!entry || typeof entry !== 'object') {
+    throw new InvalidCloudflareSitesError(`entry ${index} must be an object`);
+  }
+
+  const id = readString(entry.id);
+  const zoneId = readString(entry.zone_id);
+  if (!id || !/^[a-z0-9_-]+$/i.test(id)) {
+    throw new InvalidCloudflareSitesError(`entry ${index} needs an alphanumeric id`);
+  }
+  if (!zoneId) {
+    throw new InvalidCloudflareSitesError(`site "${id}" needs a zone_id`);
+  }
+
+  const tokenEnv = readString(entry.api_token_env);
+  const apiToken = readString(entry.api_token) ?? readEnv(tokenEnv ?? 'CLOUDFLARE_API_TOKEN');
+  if (!apiToken) {
+    throw new InvalidCloudflareSitesError(`site "${id}" has no API token (${tokenEnv ?? 'CLOUDFLARE_API_TOKEN'})`);
+  }
+
+  const hostnames = readStringList(entry.hostnames).map((hostname) => hostname.toLowerCase());
+  const siteUrl = normalizeSiteUrl(readString(entry.site_url)) ?? (hostnames[0] ? `https://${hostnames[0]}` : null);
+  if (siteUrl) {
+    const hostname = new URL(siteUrl).hostname.toLowerCase();
+    if (!hostnames.includes(hostname)) {
+      hostnames.unshift(hostname);
+    }
+  }
+
+  const urlPatterns = readStringList(entry.url_patterns);
+  for (const pattern of urlPatterns) {
+    if (!pattern.startsWith('/')) {
+      throw new InvalidCloudflareSitesError(`site "${id}" has a url pattern not starting with "/": ${pattern}`);
+    }
+  }
+
+  return { id, hostnames, siteUrl, zoneId, apiToken, urlPatterns };
+}
+
+function getLegacyCloudflareSite(): CloudflareSite[] {
+  const zoneId = readEnv('CLOUDFLARE_ZONE_ID');
+  const apiToken = readEnv('CLOUDFLARE_API_TOKEN');
+  if (!zoneId || !apiToken) {
+    return [];
+  }
+
+  const siteUrl = normalizeSiteUrl(readEnv('NEXT_PUBLIC_SITE_URL'));
+  return [
+    {
+      id: 'default',
+      hostnames: siteUrl ? [new URL(siteUrl).hostname.toLowerCase()] : [],
+      siteUrl,
+      zoneId,
+      apiToken,
+      urlPatterns: [],
+    },
+  ];
+}
+
+function normalizeSiteUrl(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const url = new URL(value);
+    return `${url.protocol}//${url.host}`;
+  } catch (_error) {
+    return null;
+  }
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function readStringList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
+  }
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.flatMap((item) => readString(item) ?? []);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,153 @@
+import 'server-only';
+
+import { NextResponse } from 'next/server';
+
+import { MissingSiteUrlError, resolveSiteUrl } from './cloudflare/purge';
+import { escapeXml } from './sitemap';
+import { listRecentPublicPosts, type PublicPost } from './tidb/catalog';
+import { fetchCategoryBySlug } from './tidb/categories';
+import { loadTiDbCredentials } from './tidb/config';
+import { toDbErrorInfo } from './tidb/errors';
+
+export type FeedFormat = 'rss' | 'atom';
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  siteUrl: string;
+  path: string;
+  selfPath: string;
+}
+
+export const FEED_TITLE = 'Virtual Product Pages — Blog';
+export const FEED_ITEM_LIMIT = 50;
+
+export function renderRssFeed(channel: FeedChannel, posts: PublicPost[]): string {
+  const items = posts.map((post) => {
+    const link = `${channel.siteUrl}/b/${encodeURIComponent(post.slug)}`;
+    return [
+      '<item>',
+      `<title>${escapeXml(post.title ?? post.slug)}</title>`,
+      `<link>${escapeXml(link)}</link>`,
+      `<guid isPermaLink="true">${escapeXml(link)}</guid>`,
+      post.published_at ? `<pubDate>${new Date(post.published_at).toUTCString()}</pubDate>` : '',
+      post.category_slug ? `<category>${escapeXml(post.category_slug)}</category>` : '',
+      post.short_summary ? `<description>${escapeXml(post.short_summary)}</description>` : '',
+      post.content_html ? `<content:encoded>${wrapCdata(post.content_html)}</content:encoded>` : '',
+      '</item>',
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"' +
+      ' xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '<channel>',
+    `<title>${escapeXml(channel.title)}</title>`,
+    `<link>${escapeXml(`${channel.siteUrl}${channel.path}`)}</link>`,
+    `<description>${escapeXml(channel.description)}</description>`,
+    `<atom:link href="${escapeXml(`${channel.siteUrl}${channel.selfPath}`)}" rel="self" type="application/rss+xml"/>`,
+    `<lastBuildDate>${new Date(latestUpdate(posts)).toUTCString()}</lastBuildDate>`,
+    ...items,
+    '</channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function renderAtomFeed(channel: FeedChannel, posts: PublicPost[]): string {
+  const entries = posts.map((post) => {
+    const link = `${channel.siteUrl}/b/${encodeURIComponent(post.slug)}`;
+    const updated = post.last_tidb_update_at ?? post.published_at ?? new Date(0).toISOString();
+    return [
+      '<entry>',
+      `<id>${escapeXml(link)}</id>`,
+      `<title>${escapeXml(post.title ?? post.slug)}</title>`,
+      `<link href="${escapeXml(link)}"/>`,
+      `<updated>${new Date(updated).toISOString()}</updated>`,
+      post.published_at ? `<published>${new Date(post.published_at).toISOString()}</published>` : '',
+      post.category_slug ? `<category term="${escapeXml(post.category_slug)}"/>` : '',
+      post.short_summary ? `<summary>${escapeXml(post.short_summary)}</summary>` : '',
+      post.content_html ? `<content type="html">${escapeXml(post.content_html)}</content>` : '',
+      '</entry>',
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${escapeXml(`${channel.siteUrl}${channel.path}`)}</id>`,
+    `<title>${escapeXml(channel.title)}</title>`,
+    `<subtitle>${escapeXml(channel.description)}</subtitle>`,
+    `<link href="${escapeXml(`${channel.siteUrl}${channel.path}`)}"/>`,
+    `<link rel="self" href="${escapeXml(`${channel.siteUrl}${channel.selfPath}`)}"/>`,
+    `<updated>${new Date(latestUpdate(posts)).toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export async function buildBlogFeedResponse(format: FeedFormat, categorySlug: string | null): Promise<NextResponse> {
+  if (!loadTiDbCredentials()) {
+    return new NextResponse('Feed unavailable', { status: 503 });
+  }
+
+  try {
+    const siteUrl = resolveSiteUrl();
+    let channel: FeedChannel = {
+      title: FEED_TITLE,
+      description: 'Artículos publicados recientemente.',
+      siteUrl,
+      path: '/',
+      selfPath: format === 'rss' ? '/feed.xml' : '/atom.xml',
+    };
+
+    if (categorySlug) {
+      const category = await fetchCategoryBySlug(categorySlug);
+      if (!category) {
+        return new NextResponse('Not found', { status: 404 });
+      }
+      channel = {
+        ...channel,
+        title: `${FEED_TITLE}: ${category.name}`,
+        description: category.description ?? `Artículos publicados en ${category.name}.`,
+        path: `/bc/${encodeURIComponent(category.slug)}`,
+        selfPath: `/bc/${encodeURIComponent(category.slug)}/feed.xml`,
+      };
+    }
+
+    const posts = await listRecentPublicPosts({ category: categorySlug, limit: FEED_ITEM_LIMIT });
+    const xml = format === 'rss' ? renderRssFeed(channel, posts) : renderAtomFeed(channel, posts);
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': `${format === 'rss' ? 'application/rss+xml' : 'application/atom+xml'}; charset=utf-8`,
+        'Cache-Control': 'public, max-age=0, s-maxage=3600, stale-while-revalidate=86400',
+      },
+    });
+  } catch (error) {
+    if (error instanceof MissingSiteUrlError) {
+      console.error('blog_feed_missing_site_url', { format, category: categorySlug });
+      return new NextResponse('Feed unavailable', { status: 503 });
+    }
+    const info = toDbErrorInfo(error);
+    console.error('blog_feed_error', { format, category: categorySlug, code: info.code, message: info.message });
+    return new NextResponse('Feed unavailable', { status: 500 });
+  }
+}
+
+function latestUpdate(posts: PublicPost[]): number {
+  let latest = 0;
+  for (const post of posts) {
+    const value = post.last_tidb_update_at ?? post.published_at;
+    const time = value ? new Date(value).getTime() : Number.NaN;
+    if (!Number.isNaN(time) && time > latest) {
+      latest = time;
+    }
+  }
+  return latest;
+}
+
+function wrapCdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
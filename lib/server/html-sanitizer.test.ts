@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { hasStrippedHtml, sanitizeHtml } from './html-sanitizer';
+
+test('drops script elements with their content', () => {
+  const result = sanitizeHtml('<p>Hello</p><script>alert("x")</script><p>world</p>');
+  assert.equal(result.html, '<p>Hello</p><p>world</p>');
+  assert.deepEqual(result.stripped, { tags: { script: 1 }, attributes: {} });
+});
+
+test('strips event handler attributes', () => {
+  const result = sanitizeHtml('<p class="lead" onclick="alert(1)">Hi</p><img src="/a.png" onerror="alert(1)" alt="A">');
+  assert.equal(result.html, '<p class="lead">Hi</p><img src="/a.png" alt="A">');
+  assert.deepEqual(result.stripped.attributes, { 'p[onclick]': 1, 'img[onerror]': 1 });
+});
+
+test('strips javascript: and data: URLs from href and src', () => {
+  const result = sanitizeHtml(
+    '<a href="javascript:alert(1)">a</a><a href=" JaVa\tScRiPt:alert(1)">b</a>' +
+      '<img src="data:image/svg+xml;base64,PHN2Zz4=" alt="c"><a href="https://example.com/x">d</a>'
+  );
+  assert.equal(result.html, '<a>a</a><a>b</a><img alt="c"><a href="https://example.com/x">d</a>');
+  assert.deepEqual(result.stripped.attributes, { 'a[href]': 2, 'img[src]': 1 });
+});
+
+test('unwraps nested disallowed tags and drops nested dropped content', () => {
+  const result = sanitizeHtml(
+    '<section><article><p>Kept <font>inner</font></p></article></section>' +
+      '<div><iframe><script>x</script><p>gone</p></iframe>after</div>'
+  );
+  assert.equal(result.html, '<p>Kept inner</p><div>after</div>');
+  assert.deepEqual(result.stripped.tags, { section: 1, article: 1, font: 1, iframe: 1 });
+});
+
+test('preserves text content and escapes it', () => {
+  const result = sanitizeHtml('<p>Fish &amp; chips &lt;3</p>Plain <em>text</em>');
+  assert.equal(result.html, '<p>Fish &amp; chips &lt;3</p>Plain <em>text</em>');
+  assert.equal(hasStrippedHtml(result.stripped), false);
+});
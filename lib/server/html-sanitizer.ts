@@ -0,0 +1,271 @@
+import 'server-only';
+
+import { Parser } from 'htmlparser2';
+
+import { readEnv } from './env';
+
+export interface HtmlSanitizerConfig {
+  allowedTags: Set<string>;
+  allowedAttributes: Map<string, Set<string>>;
+}
+
+export interface HtmlStrippedReport {
+  tags: Record<string, number>;
+  attributes: Record<string, number>;
+}
+
+export interface HtmlSanitizeResult {
+  html: string;
+  stripped: HtmlStrippedReport;
+}
+
+const DEFAULT_ALLOWED_TAGS = [
+  'p',
+  'br',
+  'hr',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'strong',
+  'b',
+  'em',
+  'i',
+  'u',
+  's',
+  'sub',
+  'sup',
+  'small',
+  'mark',
+  'abbr',
+  'blockquote',
+  'code',
+  'pre',
+  'span',
+  'div',
+  'ul',
+  'ol',
+  'li',
+  'dl',
+  'dt',
+  'dd',
+  'a',
+  'img',
+  'figure',
+  'figcaption',
+  'table',
+  'caption',
+  'thead',
+  'tbody',
+  'tfoot',
+  'tr',
+  'th',
+  'td',
+];
+
+const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['class'],
+  a: ['href', 'title', 'target', 'rel'],
+  img: ['src', 'alt', 'title', 'width', 'height', 'loading'],
+  abbr: ['title'],
+  ol: ['start'],
+  th: ['colspan', 'rowspan', 'scope'],
+  td: ['colspan', 'rowspan'],
+};
+
+const DROP_CONTENT_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'noscript',
+  'template',
+  'svg',
+  'math',
+  'frameset',
+  'head',
+  'title',
+  'textarea',
+  'select',
+]);
+const VOID_TAGS = new Set(['area', 'br', 'col', 'hr', 'img', 'source', 'wbr']);
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite', 'poster']);
+const ALLOWED_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+export function getHtmlSanitizerConfig(): HtmlSanitizerConfig {
+  const tagsOverride = readEnv('HTML_SANITIZER_ALLOWED_TAGS');
+  const attributesOverride = readEnv('HTML_SANITIZER_ALLOWED_ATTRIBUTES');
+
+  const allowedTags = new Set(
+    tagsOverride
+      ? tagsOverride
+          .split(',')
+          .map((tag) => tag.trim().toLowerCase())
+          .filter((tag) => tag.length > 0 && !DROP_CONTENT_TAGS.has(tag))
+      : DEFAULT_ALLOWED_TAGS
+  );
+
+  const allowedAttributes = new Map<string, Set<string>>();
+  if (attributesOverride) {
+    for (const entry of attributesOverride.split(',')) {
+      const [tag, names] = entry.split(':');
+      if (!tag?.trim() || !names) {
+        continue;
+      }
+      const attributes = names
+        .split('|')
+        .map((name) => name.trim().toLowerCase())
+        .filter((name) => name.length > 0 && !name.startsWith('on') && name !== 'style');
+      allowedAttributes.set(tag.trim().toLowerCase(), new Set(attributes));
+    }
+  } else {
+    for (const [tag, names] of Object.entries(DEFAULT_ALLOWED_ATTRIBUTES)) {
+      allowedAttributes.set(tag, new Set(names));
+    }
+  }
+
+  return { allowedTags, allowedAttributes };
+}
+
+export function sanitizeHtml(input: string, config = getHtmlSanitizerConfig()): HtmlSanitizeResult {
+  const stripped: HtmlStrippedReport = { tags: {}, attributes: {} };
+  const output: string[] = [];
+  const openTags: string[] = [];
+  let dropDepth = 0;
+
+  const parser = new Parser(
+    {
+      onopentag(name, attributes) {
+        if (dropDepth > 0) {
+          if (DROP_CONTENT_TAGS.has(name)) {
+            dropDepth += 1;
+          }
+          return;
+        }
+        if (DROP_CONTENT_TAGS.has(name)) {
+          dropDepth = 1;
+          increment(stripped.tags, name);
+          return;
+        }
+        if (!config.allowedTags.has(name)) {
+          increment(stripped.tags, name);
+          return;
+        }
+        output.push(`<${name}${renderAttributes(name, attributes, config, stripped)}>`);
+        if (!VOID_TAGS.has(name)) {
+          openTags.push(name);
+        }
+      },
+      onclosetag(name) {
+        if (dropDepth > 0) {
+          if (DROP_CONTENT_TAGS.has(name)) {
+            dropDepth -= 1;
+          }
+          return;
+        }
+        const index = openTags.lastIndexOf(name);
+        if (index === -1) {
+          return;
+        }
+        while (openTags.length > index) {
+          output.push(`</${openTags.pop()}>`);
+        }
+      },
+      ontext(text) {
+        if (dropDepth === 0) {
+          output.push(escapeText(text));
+        }
+      },
+      oncomment() {
+        if (dropDepth === 0) {
+          increment(stripped.tags, '#comment');
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true }
+  );
+  parser.write(input.replace(/\r\n/g, '\n'));
+  parser.end();
+
+  while (openTags.length > 0) {
+    output.push(`</${openTags.pop()}>`);
+  }
+
+  return { html: output.join('').trim(), stripped };
+}
+
+export function hasStrippedHtml(report: HtmlStrippedReport): boolean {
+  return Object.keys(report.tags).length > 0 || Object.keys(report.attributes).length > 0;
+}
+
+export function reportStrippedHtml(
+  payload: Record<string, unknown>,
+  fields: string[]
+): Record<string, HtmlStrippedReport> {
+  const config = getHtmlSanitizerConfig();
+  const report: Record<string, HtmlStrippedReport> = {};
+  for (const field of fields) {
+    const value = payload[field];
+    if (typeof value !== 'string') {
+      continue;
+    }
+    const { stripped } = sanitizeHtml(value, config);
+    if (hasStrippedHtml(stripped)) {
+      report[field] = stripped;
+    }
+  }
+  return report;
+}
+
+function renderAttributes(
+  tag: string,
+  attributes: Record<string, string>,
+  config: HtmlSanitizerConfig,
+  stripped: HtmlStrippedReport
+): string {
+  const tagAttributes = config.allowedAttributes.get(tag);
+  const globalAttributes = config.allowedAttributes.get('*');
+  const rendered: string[] = [];
+  let opensBlank = false;
+  let hasRel = false;
+
+  for (const [name, value] of Object.entries(attributes)) {
+    const allowed = Boolean(tagAttributes?.has(name) || globalAttributes?.has(name));
+    if (!allowed || name.startsWith('on') || (URL_ATTRIBUTES.has(name) && !isSafeUrl(value))) {
+      increment(stripped.attributes, `${tag}[${name}]`);
+      continue;
+    }
+    if (name === 'target' && value.trim().toLowerCase() === '_blank') {
+      opensBlank = true;
+    }
+    if (name === 'rel') {
+      hasRel = true;
+    }
+    rendered.push(` ${name}="${escapeAttribute(value)}"`);
+  }
+
+  if (tag === 'a' && opensBlank && !hasRel) {
+    rendered.push(' rel="noopener noreferrer"');
+  }
+  return rendered.join('');
+}
+
+function isSafeUrl(value: string): boolean {
+  const compact = value.replace(/[\u0000- \u007f]+/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+  return !scheme || ALLOWED_URL_SCHEMES.has(scheme[1].toLowerCase());
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function increment(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
@@ -0,0 +1,96 @@
+import 'server-only';
+
+import { NextResponse } from 'next/server';
+
+import { loadTiDbCredentials } from './tidb/config';
+import {
+  SITEMAP_MAX_URLS,
+  SITEMAP_SECTIONS,
+  countSitemapEntries,
+  listSitemapEntries,
+  type SitemapCounts,
+  type SitemapEntry,
+  type SitemapSection,
+} from './tidb/sitemap';
+
+const CHILD_SITEMAP_PATTERN = /^(products|posts|categories)-(\d+)\.xml$/;
+
+export function listChildSitemaps(counts: SitemapCounts, sections = SITEMAP_SECTIONS): string[] {
+  const files: string[] = [];
+  for (const section of sections) {
+    const pages = Math.ceil(counts[section] / SITEMAP_MAX_URLS);
+    for (let page = 1; page <= pages; page += 1) {
+      files.push(`/sitemaps/${section}-${page}.xml`);
+    }
+  }
+  return files;
+}
+
+export async function listChildSitemapPaths(): Promise<string[]> {
+  if (!loadTiDbCredentials()) {
+    return [];
+  }
+  try {
+    return listChildSitemaps(await countSitemapEntries());
+  } catch (error) {
+    console.warn('sitemap_child_list_failed', { error: (error as Error)?.message });
+    return [];
+  }
+}
+
+export function parseChildSitemap(file: string): { section: SitemapSection; page: number } | null {
+  const match = CHILD_SITEMAP_PATTERN.exec(file);
+  if (!match) {
+    return null;
+  }
+  const page = Number.parseInt(match[2], 10);
+  return page >= 1 ? { section: match[1] as SitemapSection, page } : null;
+}
+
+export async function loadSitemapSections(sections: SitemapSection[]): Promise<SitemapEntry[]> {
+  const results = await Promise.all(sections.map((section) => listSitemapEntries(section)));
+  return results.flat();
+}
+
+export function renderUrlset(baseUrl: string, entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const lastmod = entry.lastmod ? `<lastmod>${entry.lastmod}</lastmod>` : '';
+    return `<url><loc>${escapeXml(`${baseUrl}${entry.path}`)}</loc>${lastmod}</url>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+export function renderSitemapIndex(baseUrl: string, files: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...files.map((file) => `<sitemap><loc>${escapeXml(`${baseUrl}${file}`)}</loc></sitemap>`),
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
+
+export function xmlResponse(xml: string, status = 200): NextResponse {
+  return new NextResponse(xml, {
+    status,
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=0, s-maxage=3600, stale-while-revalidate=86400',
+    },
+  });
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,215 @@
+import 'server-only';
+
+import { MissingSiteUrlError, resolveSiteUrl } from './cloudflare/purge';
+import { fetchPublicPost, fetchPublicProduct, type PublicPost, type PublicProduct } from './tidb/catalog';
+import { fetchCategoryBySlug } from './tidb/categories';
+
+export type JsonLd = Record<string, unknown>;
+export type StructuredDataType = 'product' | 'post' | 'category';
+
+export interface StructuredDataIssue {
+  property: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface StructuredDataDocument {
+  json_ld: JsonLd;
+  issues: StructuredDataIssue[];
+}
+
+export interface BreadcrumbItem {
+  name: string;
+  path: string;
+}
+
+const AVAILABILITY_PATTERNS: [RegExp, string][] = [
+  [/agotad|sin stock|no disponible|out of stock|sold out/i, 'https://schema.org/OutOfStock'],
+  [/preventa|reserva|pre-?order/i, 'https://schema.org/PreOrder'],
+  [/pocas unidades|limited|últimas unidades/i, 'https://schema.org/LimitedAvailability'],
+  [/disponible|en stock|in stock|available/i, 'https://schema.org/InStock'],
+];
+
+export function readStructuredDataSiteUrl(): string {
+  try {
+    return resolveSiteUrl();
+  } catch (error) {
+    if (error instanceof MissingSiteUrlError) {
+      return '';
+    }
+    throw error;
+  }
+}
+
+export function mapAvailability(label: string | null): string | undefined {
+  if (!label) {
+    return undefined;
+  }
+  return AVAILABILITY_PATTERNS.find(([pattern]) => pattern.test(label))?.[1];
+}
+
+export function buildProductJsonLd(product: PublicProduct, siteUrl: string): JsonLd {
+  const url = `${siteUrl}/p/${encodeURIComponent(product.slug)}`;
+  const images = [product.hero_image_url, ...product.gallery_image_urls].filter(
+    (image, index, all): image is string => Boolean(image) && all.indexOf(image) === index
+  );
+  const price = product.price_amount == null ? undefined : Number(product.price_amount);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    '@id': url,
+    url,
+    sku: product.slug,
+    name: product.title_h1 ?? undefined,
+    description: product.seo_description ?? product.short_summary ?? undefined,
+    image: images.length > 0 ? images : undefined,
+    category: product.category_slug ?? undefined,
+    offers: {
+      '@type': 'Offer',
+      url: product.primary_cta_url ?? url,
+      price: price !== undefined && Number.isFinite(price) ? price.toFixed(2) : undefined,
+      priceCurrency: product.price_currency ?? undefined,
+      availability: mapAvailability(product.availability_label),
+    },
+  };
+}
+
+export function buildBlogPostingJsonLd(post: PublicPost, siteUrl: string): JsonLd {
+  const url = `${siteUrl}/b/${encodeURIComponent(post.slug)}`;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    '@id': url,
+    mainEntityOfPage: url,
+    url,
+    headline: post.title_h1 ?? post.title ?? undefined,
+    description: post.seo_description ?? post.short_summary ?? undefined,
+    image: post.hero_image_url ? [post.hero_image_url] : undefined,
+    datePublished: post.published_at ?? undefined,
+    dateModified: post.last_tidb_update_at ?? post.published_at ?? undefined,
+    articleSection: post.category_slug ?? undefined,
+  };
+}
+
+export function buildBreadcrumbJsonLd(items: BreadcrumbItem[], siteUrl: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      item: `${siteUrl}${item.path}`,
+    })),
+  };
+}
+
+export function buildCategoryBreadcrumbJsonLd(
+  category: { slug: string; name: string },
+  section: 'products' | 'posts',
+  siteUrl: string
+): JsonLd {
+  const prefix = section === 'products' ? '/c/' : '/bc/';
+  return buildBreadcrumbJsonLd(
+    [
+      { name: 'Inicio', path: '/' },
+      { name: category.name, path: `${prefix}${encodeURIComponent(category.slug)}` },
+    ],
+    siteUrl
+  );
+}
+
+export function validateJsonLd(data: JsonLd): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = [];
+  const requireProperty = (property: string, value: unknown, severity: StructuredDataIssue['severity'] = 'error') => {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      const kind = severity === 'error' ? 'required' : 'recommended';
+      issues.push({ property, severity, message: `Missing ${kind} property ${property}.` });
+    }
+  };
+
+  const url = typeof data.url === 'string' ? data.url : undefined;
+  if (url !== undefined && !/^https?:\/\//i.test(url)) {
+    issues.push({ property: 'url', severity: 'error', message: 'URLs must be absolute; set NEXT_PUBLIC_SITE_URL.' });
+  }
+
+  switch (data['@type']) {
+    case 'Product': {
+      const offers = (data.offers ?? {}) as JsonLd;
+      requireProperty('name', data.name);
+      requireProperty('image', data.image);
+      requireProperty('description', data.description, 'warning');
+      requireProperty('offers.price', offers.price);
+      requireProperty('offers.priceCurrency', offers.priceCurrency);
+      requireProperty('offers.availability', offers.availability, 'warning');
+      break;
+    }
+    case 'BlogPosting':
+      requireProperty('headline', data.headline);
+      requireProperty('image', data.image, 'warning');
+      requireProperty('datePublished', data.datePublished, 'warning');
+      requireProperty('description', data.description, 'warning');
+      if (typeof data.headline === 'string' && data.headline.length > 110) {
+        issues.push({ property: 'headline', severity: 'warning', message: 'Headline exceeds 110 characters.' });
+      }
+      break;
+    case 'BreadcrumbList': {
+      const items = Array.isArray(data.itemListElement) ? (data.itemListElement as JsonLd[]) : [];
+      requireProperty('itemListElement', items);
+      items.forEach((item, index) => {
+        requireProperty(`itemListElement[${index}].name`, item.name);
+        requireProperty(`itemListElement[${index}].item`, item.item);
+        if (typeof item.item === 'string' && !/^https?:\/\//i.test(item.item)) {
+          issues.push({
+            property: `itemListElement[${index}].item`,
+            severity: 'error',
+            message: 'URLs must be absolute; set NEXT_PUBLIC_SITE_URL.',
+          });
+        }
+      });
+      break;
+    }
+    default:
+      issues.push({ property: '@type', severity: 'error', message: 'Unknown structured data type.' });
+  }
+
+  return issues;
+}
+
+export async function inspectStructuredData(
+  type: StructuredDataType,
+  slug: string
+): Promise<StructuredDataDocument[] | null> {
+  const siteUrl = readStructuredDataSiteUrl();
+  let documents: JsonLd[];
+
+  if (type === 'product') {
+    const product = await fetchPublicProduct(slug);
+    if (!product) {
+      return null;
+    }
+    documents = [buildProductJsonLd(product, siteUrl)];
+  } else if (type === 'post') {
+    const post = await fetchPublicPost(slug, { includeDrafts: true });
+    if (!post) {
+      return null;
+    }
+    documents = [buildBlogPostingJsonLd(post, siteUrl)];
+  } else {
+    const category = await fetchCategoryBySlug(slug);
+    if (!category) {
+      return null;
+    }
+    documents = [
+      buildCategoryBreadcrumbJsonLd(category, 'products', siteUrl),
+      buildCategoryBreadcrumbJsonLd(category, 'posts', siteUrl),
+    ];
+  }
+
+  return documents.map((document) => ({ json_ld: document, issues: validateJsonLd(document) }));
+}
+
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,36 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import { getTiDbPool } from './mysql';
+import { ensureProductColumns } from './products';
+import { getPostsTable, getProductsTable } from './schema';
+
+export interface CategoryAssignments {
+  products: Record<string, string>;
+  posts: Record<string, string>;
+}
+
+export async function listCategoryAssignments(): Promise<CategoryAssignments> {
+  await ensureProductColumns();
+  const pool = getTiDbPool();
+  const [[productRows], [postRows]] = await Promise.all([
+    pool.query<RowDataPacket[]>(
+      `SELECT slug, category_slug FROM ${getProductsTable()}
+        WHERE category_slug IS NOT NULL AND deleted_at IS NULL`
+    ),
+    pool.query<RowDataPacket[]>(
+      `SELECT slug, category_slug FROM ${getPostsTable()}
+        WHERE category_slug IS NOT NULL AND is_published = 1`
+    ),
+  ]);
+  return { products: toAssignmentMap(productRows), posts: toAssignmentMap(postRows) };
+}
+
+function toAssignmentMap(rows: RowDataPacket[]): Record<string, string> {
+  const assignments: Record<string, string> = {};
+  for (const row of rows) {
+    assignments[String(row.slug)] = String(row.category_slug);
+  }
+  return assignments;
+}
@@ -0,0 +1,295 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import { loadTiDbProductMetricsConfig } from './config';
+import { getTiDbPool } from './mysql';
+import { ensureProductColumns } from './products';
+import { getPostsTable, getProductsTable } from './schema';
+
+export interface PublicProduct {
+  slug: string;
+  title_h1: string | null;
+  short_summary: string | null;
+  desc_html: string | null;
+  primary_cta_label: string | null;
+  primary_cta_url: string | null;
+  secondary_cta_label: string | null;
+  secondary_cta_url: string | null;
+  price_display: string | null;
+  price_currency: string | null;
+  price_amount: string | null;
+  category_slug: string | null;
+  hero_image_url: string | null;
+  gallery_image_urls: string[];
+  seo_title: string | null;
+  seo_description: string | null;
+  badge_label: string | null;
+  availability_label: string | null;
+  last_tidb_update_at: string | null;
+}
+
+export type PublicProductSummary = Pick<
+  PublicProduct,
+  | 'slug'
+  | 'title_h1'
+  | 'short_summary'
+  | 'price_display'
+  | 'price_currency'
+  | 'price_amount'
+  | 'hero_image_url'
+  | 'badge_label'
+  | 'last_tidb_update_at'
+>;
+
+export interface PublicPostSummary {
+  slug: string;
+  title: string | null;
+  short_summary: string | null;
+  hero_image_url: string | null;
+  category_slug: string | null;
+  published_at: string | null;
+}
+
+export interface PublicPost extends PublicPostSummary {
+  title_h1: string | null;
+  content_html: string | null;
+  seo_title: string | null;
+  seo_description: string | null;
+  primary_cta_label: string | null;
+  primary_cta_url: string | null;
+  secondary_cta_label: string | null;
+  secondary_cta_url: string | null;
+  is_published: boolean;
+  last_tidb_update_at: string | null;
+}
+
+export type ProductSort = 'recent' | 'name' | 'price_asc' | 'price_desc';
+export type PostSort = 'recent' | 'oldest' | 'title';
+
+export interface CatalogPage<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+export interface CatalogQuery<S> {
+  category: string;
+  page?: number;
+  sort?: S;
+}
+
+export const PRODUCT_SORTS: Record<ProductSort, string> = {
+  recent: 'last_tidb_update_at DESC, slug',
+  name: 'title_h1 IS NULL, title_h1, slug',
+  price_asc: 'price_amount IS NULL, price_amount, slug',
+  price_desc: 'price_amount IS NULL, price_amount DESC, slug',
+};
+
+export const POST_SORTS: Record<PostSort, string> = {
+  recent: 'published_at IS NULL, published_at DESC, slug',
+  oldest: 'published_at IS NULL, published_at, slug',
+  title: 'title IS NULL, title, slug',
+};
+
+export const PRODUCT_PAGE_SIZE = 24;
+export const POST_PAGE_SIZE = 12;
+
+export function getPublishedProductsCondition(): string {
+  const where = loadTiDbProductMetricsConfig().whereClause?.trim();
+  return where ? `deleted_at IS NULL AND (${where})` : 'deleted_at IS NULL';
+}
+
+export async function fetchPublicProduct(slug: string): Promise<PublicProduct | null> {
+  const trimmed = slug.trim();
+  if (!trimmed || trimmed.length > 191) {
+    return null;
+  }
+  await ensureProductColumns();
+  const pool = getTiDbPool();
+  const table = getProductsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM ${table} WHERE slug = ? AND ${getPublishedProductsCondition()} LIMIT 1`,
+    [trimmed]
+  );
+  const row = rows[0];
+  return row ? mapPublicProduct(row) : null;
+}
+
+export async function listPublicProducts(query: CatalogQuery<ProductSort>): Promise<CatalogPage<PublicProductSummary>> {
+  const sort = PRODUCT_SORTS[query.sort ?? 'recent'] ?? PRODUCT_SORTS.recent;
+  await ensureProductColumns();
+  const rows = await queryCatalogPage(
+    getProductsTable(),
+    `category_slug = ? AND ${getPublishedProductsCondition()}`,
+    `slug, title_h1, short_summary, price_display, price_currency, price_amount, hero_image_url, badge_label,
+      last_tidb_update_at`,
+    sort,
+    query,
+    PRODUCT_PAGE_SIZE
+  );
+  return { ...rows, items: rows.items.map(mapPublicProduct) };
+}
+
+export async function listPublicPosts(query: CatalogQuery<PostSort>): Promise<CatalogPage<PublicPostSummary>> {
+  const sort = POST_SORTS[query.sort ?? 'recent'] ?? POST_SORTS.recent;
+  const rows = await queryCatalogPage(
+    getPostsTable(),
+    `category_slug = ? AND ${getPublishedPostsCondition()}`,
+    'slug, title, short_summary, hero_image_url, category_slug, published_at',
+    sort,
+    query,
+    POST_PAGE_SIZE
+  );
+  return {
+    ...rows,
+    items: rows.items.map((row) => ({
+      slug: String(row.slug),
+      title: readString(row.title),
+      short_summary: readString(row.short_summary),
+      hero_image_url: readString(row.hero_image_url),
+      category_slug: readString(row.category_slug),
+      published_at: readTimestamp(row.published_at),
+    })),
+  };
+}
+
+export async function fetchPublicPost(
+  slug: string,
+  options: { includeDrafts?: boolean } = {}
+): Promise<PublicPost | null> {
+  const trimmed = slug.trim();
+  if (!trimmed || trimmed.length > 191) {
+    return null;
+  }
+  const pool = getTiDbPool();
+  const table = getPostsTable();
+  const visibility = options.includeDrafts ? '' : ` AND ${getPublishedPostsCondition()}`;
+  const [rows] = await pool.query<RowDataPacket[]>(`SELECT * FROM ${table} WHERE slug = ?${visibility} LIMIT 1`, [
+    trimmed,
+  ]);
+  const row = rows[0];
+  return row ? mapPublicPost(row) : null;
+}
+
+export async function listRecentPublicPosts(
+  options: { category?: string | null; limit?: number } = {}
+): Promise<PublicPost[]> {
+  const pool = getTiDbPool();
+  const table = getPostsTable();
+  const category = options.category?.trim();
+  const where = category
+    ? `category_slug = ? AND ${getPublishedPostsCondition()}`
+    : getPublishedPostsCondition();
+  const params: unknown[] = category ? [category] : [];
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM ${table} WHERE ${where} ORDER BY published_at IS NULL, published_at DESC, slug LIMIT ?`,
+    [...params, options.limit ?? 50]
+  );
+  return rows.map(mapPublicPost);
+}
+
+function mapPublicPost(row: RowDataPacket): PublicPost {
+  return {
+    slug: String(row.slug),
+    title: readString(row.title),
+    title_h1: readString(row.title_h1),
+    short_summary: readString(row.short_summary),
+    content_html: readString(row.content_html),
+    seo_title: readString(row.seo_title),
+    seo_description: readString(row.seo_description),
+    primary_cta_label: readString(row.primary_cta_label),
+    primary_cta_url: readString(row.primary_cta_url),
+    secondary_cta_label: readString(row.secondary_cta_label),
+    secondary_cta_url: readString(row.secondary_cta_url),
+    category_slug: readString(row.category_slug),
+    hero_image_url: readString(row.hero_image_url),
+    published_at: readTimestamp(row.published_at),
+    is_published: Boolean(Number(row.is_published)),
+    last_tidb_update_at: readTimestamp(row.last_tidb_update_at),
+  };
+}
+
+export function getPublishedPostsCondition(): string {
+  return 'is_published = 1 AND (published_at IS NULL OR published_at <= UTC_TIMESTAMP())';
+}
+
+async function queryCatalogPage<S>(
+  table: string,
+  where: string,
+  columns: string,
+  orderBy: string,
+  query: CatalogQuery<S>,
+  pageSize: number
+): Promise<CatalogPage<RowDataPacket>> {
+  const pool = getTiDbPool();
+  const category = query.category.trim();
+  const [countRows] = await pool.query<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM ${table} WHERE ${where}`, [
+    category,
+  ]);
+  const total = Number(countRows[0]?.total ?? 0);
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const page = Math.min(Math.max(Math.trunc(query.page ?? 1), 1), pageCount);
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT ${columns} FROM ${table} WHERE ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+    [category, pageSize, (page - 1) * pageSize]
+  );
+  return { items: rows, total, page, pageSize, pageCount };
+}
+
+export function mapPublicProduct(row: RowDataPacket): PublicProduct {
+  return {
+    slug: String(row.slug),
+    title_h1: readString(row.title_h1),
+    short_summary: readString(row.short_summary),
+    desc_html: readString(row.desc_html),
+    primary_cta_label: readString(row.primary_cta_label),
+    primary_cta_url: readString(row.primary_cta_url),
+    secondary_cta_label: readString(row.secondary_cta_label),
+    secondary_cta_url: readString(row.secondary_cta_url),
+    price_display: readString(row.price_display),
+    price_currency: readString(row.price_currency),
+    price_amount: row.price_amount == null ? null : String(row.price_amount),
+    category_slug: readString(row.category_slug),
+    hero_image_url: readString(row.hero_image_url),
+    gallery_image_urls: readStringArray(row.gallery_image_urls),
+    seo_title: readString(row.seo_title),
+    seo_description: readString(row.seo_description),
+    badge_label: readString(row.badge_label),
+    availability_label: readString(row.availability_label),
+    last_tidb_update_at: readTimestamp(row.last_tidb_update_at),
+  };
+}
+
+function readString(value: unknown): string | null {
+  if (value == null) {
+    return null;
+  }
+  const text = Buffer.isBuffer(value) ? value.toString('utf8') : String(value);
+  return text.trim().length > 0 ? text : null;
+}
+
+function readTimestamp(value: unknown): string | null {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return readString(value);
+}
+
+function readStringArray(value: unknown): string[] {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch (_error) {
+      return value.trim() ? [value.trim()] : [];
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+  return parsed.filter((item): item is string => typeof item === 'string' && item.length > 0);
+}
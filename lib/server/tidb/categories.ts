@@ -0,0 +1,441 @@
+import 'server-only';
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+import { revalidateBlogPaths, revalidateCategoryPaths, revalidateProductPaths } from '@/lib/server/cache';
+
+import { ensureColumns } from './ddl';
+import { getTiDbPool, runInTransaction } from './mysql';
+import { ensureProductColumns } from './products';
+import { ensureRevisionsTable, recordFieldRevisions, type RevisionEntityType, type WriteContext } from './revisions';
+import { getCategoriesTable, getPostsTable, getProductsTable } from './schema';
+import { FieldValidationError, normalizeNewSlug, type FieldErrors } from './validation';
+
+export interface CategoryOption {
+  slug: string;
+  name: string;
+}
+
+export interface CategoryRecord extends CategoryOption {
+  description: string | null;
+  sort_order: number;
+  product_count: number;
+  post_count: number;
+}
+
+export interface CategoryWritePayload {
+  slug?: string;
+  name?: string | null;
+  description?: string | null;
+  sort_order?: number | string | null;
+}
+
+export interface CategoryDeleteResult {
+  slug: string;
+  reassignedTo: string | null;
+  productsReassigned: number;
+  postsReassigned: number;
+  productSlugs: string[];
+  postSlugs: string[];
+}
+
+export interface CategoryUpdateResult {
+  category: CategoryRecord;
+  previousSlug: string;
+  productSlugs: string[];
+  postSlugs: string[];
+}
+
+export class CategoryNotFoundError extends Error {
+  constructor(public readonly slug: string) {
+    super(`Category ${slug} does not exist.`);
+    this.name = 'CategoryNotFoundError';
+  }
+}
+
+export class CategoryExistsError extends Error {
+  constructor(public readonly slug: string) {
+    super(`Category ${slug} already exists.`);
+    this.name = 'CategoryExistsError';
+  }
+}
+
+export class CategoryInUseError extends Error {
+  constructor(public readonly productCount: number, public readonly postCount: number) {
+    super('category_in_use');
+    this.name = 'CategoryInUseError';
+  }
+}
+
+export function ensureCategoryColumns(): Promise<void> {
+  return ensureColumns(getCategoriesTable(), {
+    description: 'VARCHAR(1024) NULL',
+    sort_order: 'INT NOT NULL DEFAULT 0',
+  });
+}
+
+export async function listCategoryOptions(): Promise<CategoryOption[]> {
+  await ensureCategoryColumns();
+  const pool = getTiDbPool();
+  const table = getCategoriesTable();
+  const [rows] = await pool.query<RowDataPacket[]>(`SELECT slug, name FROM ${table} ORDER BY sort_order, name`);
+  return rows.map((row) => ({ slug: String(row.slug), name: resolveName(row) }));
+}
+
+export async function listCategories(): Promise<CategoryRecord[]> {
+  await ensureCategoryColumns();
+  await ensureProductColumns();
+  const pool = getTiDbPool();
+  const categories = getCategoriesTable();
+  const products = getProductsTable();
+  const posts = getPostsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT c.slug, c.name, c.description, c.sort_order,
+        (SELECT COUNT(*) FROM ${products} p
+          WHERE p.category_slug = c.slug AND p.deleted_at IS NULL) AS product_count,
+        (SELECT COUNT(*) FROM ${posts} b WHERE b.category_slug = c.slug) AS post_count
+      FROM ${categories} c
+      ORDER BY c.sort_order, c.name`
+  );
+  return rows.map(mapCategoryRow);
+}
+
+export async function fetchCategoryBySlug(
+  slug: string
+): Promise<CategoryOption & { description: string | null } | null> {
+  await ensureCategoryColumns();
+  const pool = getTiDbPool();
+  const table = getCategoriesTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT slug, name, description FROM ${table} WHERE slug = ? LIMIT 1`,
+    [slug.trim()]
+  );
+  const row = rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    slug: String(row.slug),
+    name: resolveName(row),
+    description: (row.description as string | null) ?? null,
+  };
+}
+
+export async function assertCategoryExists(connection: PoolConnection, categorySlug: string) {
+  const categoriesTable = getCategoriesTable();
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT slug FROM ${categoriesTable} WHERE slug = ? LIMIT 1`,
+    [categorySlug.trim()]
+  );
+  if (rows.length === 0) {
+    throw new CategoryNotFoundError(categorySlug.trim());
+  }
+}
+
+export async function findExistingCategorySlugs(
+  connection: PoolConnection,
+  categorySlugs: Iterable<string>
+): Promise<Set<string>> {
+  const unique = Array.from(new Set(Array.from(categorySlugs, (slug) => slug.trim()).filter(Boolean)));
+  if (unique.length === 0) {
+    return new Set();
+  }
+  const categoriesTable = getCategoriesTable();
+  const [rows] = await connection.query<RowDataPacket[]>(`SELECT slug FROM ${categoriesTable} WHERE slug IN (?)`, [
+    unique,
+  ]);
+  return new Set(rows.map((row) => String(row.slug)));
+}
+
+export async function createCategory(payload: CategoryWritePayload): Promise<CategoryRecord> {
+  const slug = normalizeNewSlug(payload.slug);
+  const fields = normalizeCategoryFields(payload, true);
+  await ensureCategoryColumns();
+  await ensureProductColumns();
+
+  const created = await runInTransaction(async (connection) => {
+    const table = getCategoriesTable();
+    const [existing] = await connection.query<RowDataPacket[]>(
+      `SELECT slug FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
+      [slug]
+    );
+    if (existing.length > 0) {
+      throw new CategoryExistsError(slug);
+    }
+
+    let sortOrder = fields.sort_order;
+    if (sortOrder === undefined) {
+      const [maxRows] = await connection.query<RowDataPacket[]>(
+        `SELECT COALESCE(MAX(sort_order), -1) + 1 AS next_order FROM ${table}`
+      );
+      sortOrder = Number(maxRows[0]?.next_order ?? 0);
+    }
+
+    await connection.execute(
+      `INSERT INTO ${table} (slug, name, description, sort_order) VALUES (?, ?, ?, ?)`,
+      [slug, fields.name, fields.description ?? null, sortOrder]
+    );
+
+    return loadCategory(connection, slug);
+  });
+
+  await revalidateCategoryPaths([slug]);
+  return created;
+}
+
+export async function updateCategory(
+  slug: string,
+  payload: CategoryWritePayload & { new_slug?: string },
+  context: WriteContext = {}
+): Promise<CategoryUpdateResult> {
+  const currentSlug = slug.trim();
+  const fields = normalizeCategoryFields(payload, false);
+  const nextSlug =
+    payload.new_slug !== undefined && payload.new_slug.trim() !== currentSlug
+      ? normalizeNewSlug(payload.new_slug, 'new_slug')
+      : null;
+  await ensureCategoryColumns();
+  await ensureProductColumns();
+  if (nextSlug) {
+    await ensureRevisionsTable();
+  }
+
+  const { category, productSlugs, postSlugs } = await runInTransaction(async (connection) => {
+    const table = getCategoriesTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT slug FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
+      [currentSlug]
+    );
+    if (rows.length === 0) {
+      throw new CategoryNotFoundError(currentSlug);
+    }
+
+    const assignments: string[] = [];
+    const values: unknown[] = [];
+    for (const [column, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        assignments.push(`\`${column}\` = ?`);
+        values.push(value);
+      }
+    }
+
+    let affectedProducts: string[] = [];
+    let affectedPosts: string[] = [];
+
+    if (nextSlug) {
+      const [conflicts] = await connection.query<RowDataPacket[]>(
+        `SELECT slug FROM ${table} WHERE slug = ? LIMIT 1`,
+        [nextSlug]
+      );
+      if (conflicts.length > 0) {
+        throw new CategoryExistsError(nextSlug);
+      }
+      assignments.push('`slug` = ?');
+      values.push(nextSlug);
+      affectedProducts = await reassignCategory(connection, 'product', currentSlug, nextSlug, context);
+      affectedPosts = await reassignCategory(connection, 'post', currentSlug, nextSlug, context);
+    }
+
+    if (assignments.length > 0) {
+      await connection.execute(`UPDATE ${table} SET ${assignments.join(', ')} WHERE slug = ?`, [
+        ...values,
+        currentSlug,
+      ]);
+    }
+
+    return {
+      category: await loadCategory(connection, nextSlug ?? currentSlug),
+      productSlugs: affectedProducts,
+      postSlugs: affectedPosts,
+    };
+  });
+
+  await revalidateCategoryPaths([currentSlug, nextSlug]);
+  await Promise.all([
+    ...productSlugs.map((productSlug) => revalidateProductPaths(productSlug, [])),
+    ...postSlugs.map((postSlug) => revalidateBlogPaths(postSlug, [])),
+  ]);
+
+  return { category, previousSlug: currentSlug, productSlugs, postSlugs };
+}
+
+export async function reorderCategories(order: string[]): Promise<CategoryRecord[]> {
+  const slugs = Array.from(new Set(order.map((slug) => slug.trim()).filter((slug) => slug.length > 0)));
+  if (slugs.length === 0) {
+    throw new FieldValidationError({ order: 'Field order must list at least one category slug.' });
+  }
+  await ensureCategoryColumns();
+
+  await runInTransaction(async (connection) => {
+    const table = getCategoriesTable();
+    for (const [index, slug] of slugs.entries()) {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `UPDATE ${table} SET sort_order = ? WHERE slug = ?`,
+        [index, slug]
+      );
+      if (Number(result.affectedRows ?? 0) === 0) {
+        throw new CategoryNotFoundError(slug);
+      }
+    }
+  });
+
+  await revalidateCategoryPaths(slugs);
+  return listCategories();
+}
+
+export async function deleteCategory(
+  slug: string,
+  options: { reassignTo?: string | null } & WriteContext = {}
+): Promise<CategoryDeleteResult> {
+  const currentSlug = slug.trim();
+  const reassignTo = options.reassignTo?.trim() || null;
+  if (reassignTo === currentSlug) {
+    throw new FieldValidationError({ reassign_to: 'Field reassign_to must be a different category.' });
+  }
+  await ensureCategoryColumns();
+  await ensureProductColumns();
+  if (reassignTo) {
+    await ensureRevisionsTable();
+  }
+
+  const result = await runInTransaction(async (connection) => {
+    const table = getCategoriesTable();
+    const category = await loadCategory(connection, currentSlug);
+
+    if (!reassignTo && (category.product_count > 0 || category.post_count > 0)) {
+      throw new CategoryInUseError(category.product_count, category.post_count);
+    }
+
+    let productSlugs: string[] = [];
+    let postSlugs: string[] = [];
+    if (reassignTo) {
+      await assertCategoryExists(connection, reassignTo);
+      productSlugs = await reassignCategory(connection, 'product', currentSlug, reassignTo, options);
+      postSlugs = await reassignCategory(connection, 'post', currentSlug, reassignTo, options);
+    }
+
+    await connection.execute(`DELETE FROM ${table} WHERE slug = ?`, [currentSlug]);
+
+    return { productSlugs, postSlugs };
+  });
+
+  await revalidateCategoryPaths([currentSlug, reassignTo]);
+  await Promise.all([
+    ...result.productSlugs.map((productSlug) => revalidateProductPaths(productSlug, [])),
+    ...result.postSlugs.map((postSlug) => revalidateBlogPaths(postSlug, [])),
+  ]);
+
+  return {
+    slug: currentSlug,
+    reassignedTo: reassignTo,
+    productsReassigned: result.productSlugs.length,
+    postsReassigned: result.postSlugs.length,
+    productSlugs: result.productSlugs,
+    postSlugs: result.postSlugs,
+  };
+}
+
+async function reassignCategory(
+  connection: PoolConnection,
+  entityType: RevisionEntityType,
+  from: string,
+  to: string,
+  context: WriteContext
+): Promise<string[]> {
+  const table = entityType === 'product' ? getProductsTable() : getPostsTable();
+  const liveOnly = entityType === 'product' ? ' AND deleted_at IS NULL' : '';
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT slug FROM ${table} WHERE category_slug = ?${liveOnly} FOR UPDATE`,
+    [from]
+  );
+  if (rows.length === 0) {
+    return [];
+  }
+  await connection.execute(
+    `UPDATE ${table} SET category_slug = ?, last_tidb_update_at = NOW(6) WHERE category_slug = ?${liveOnly}`,
+    [to, from]
+  );
+  const slugs = rows.map((row) => String(row.slug));
+  const change = { field: 'category_slug', before: from, after: to };
+  await recordFieldRevisions(connection, entityType, slugs, change, context);
+  return slugs;
+}
+
+async function loadCategory(connection: PoolConnection, slug: string): Promise<CategoryRecord> {
+  const categories = getCategoriesTable();
+  const products = getProductsTable();
+  const posts = getPostsTable();
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT c.slug, c.name, c.description, c.sort_order,
+        (SELECT COUNT(*) FROM ${products} p
+          WHERE p.category_slug = c.slug AND p.deleted_at IS NULL) AS product_count,
+        (SELECT COUNT(*) FROM ${posts} b WHERE b.category_slug = c.slug) AS post_count
+      FROM ${categories} c
+      WHERE c.slug = ?
+      LIMIT 1`,
+    [slug]
+  );
+  const row = rows[0];
+  if (!row) {
+    throw new CategoryNotFoundError(slug);
+  }
+  return mapCategoryRow(row);
+}
+
+function normalizeCategoryFields(payload: CategoryWritePayload, requireName: boolean) {
+  const errors: FieldErrors = {};
+  const fields: { name?: string; description?: string | null; sort_order?: number } = {};
+
+  if (payload.name !== undefined || requireName) {
+    if (typeof payload.name !== 'string' || payload.name.trim().length === 0) {
+      errors.name = 'Field name is required.';
+    } else if (payload.name.trim().length > 255) {
+      errors.name = 'Field name exceeds maximum length of 255 characters.';
+    } else {
+      fields.name = payload.name.trim();
+    }
+  }
+
+  if (payload.description !== undefined) {
+    if (payload.description !== null && typeof payload.description !== 'string') {
+      errors.description = 'Field description must be a string.';
+    } else {
+      const trimmed = payload.description?.trim() ?? '';
+      if (trimmed.length > 1024) {
+        errors.description = 'Field description exceeds maximum length of 1024 characters.';
+      } else {
+        fields.description = trimmed.length > 0 ? trimmed : null;
+      }
+    }
+  }
+
+  if (payload.sort_order !== undefined && payload.sort_order !== null && payload.sort_order !== '') {
+    const parsed = Number(payload.sort_order);
+    if (!Number.isInteger(parsed)) {
+      errors.sort_order = 'Field sort_order must be an integer.';
+    } else {
+      fields.sort_order = parsed;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new FieldValidationError(errors);
+  }
+
+  return fields;
+}
+
+function mapCategoryRow(row: RowDataPacket): CategoryRecord {
+  return {
+    slug: String(row.slug),
+    name: resolveName(row),
+    description: (row.description as string | null) ?? null,
+    sort_order: Number(row.sort_order ?? 0),
+    product_count: Number(row.product_count ?? 0),
+    post_count: Number(row.post_count ?? 0),
+  };
+}
+
+function resolveName(row: RowDataPacket): string {
+  return typeof row.name === 'string' && row.name.trim().length > 0 ? row.name : String(row.slug);
+}
@@ -0,0 +1,55 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import { getTiDbPool } from './mysql';
+
+const ensuredTables = new Map<string, Promise<void>>();
+const ensuredColumns = new Map<string, Promise<void>>();
+
+export function ensureTable(table: string, definition: string): Promise<void> {
+  const existing = ensuredTables.get(table);
+  if (existing) {
+    return existing;
+  }
+
+  const pending = getTiDbPool()
+    .query(`CREATE TABLE IF NOT EXISTS ${table} (${definition})`)
+    .then(() => undefined)
+    .catch((error) => {
+      ensuredTables.delete(table);
+      console.error('tidb_ensure_table_failed', { table, error: (error as Error)?.message });
+      throw error;
+    });
+  ensuredTables.set(table, pending);
+  return pending;
+}
+
+export function ensureColumns(table: string, columns: Record<string, string>): Promise<void> {
+  const key = `${table}:${Object.keys(columns).join(',')}`;
+  const existing = ensuredColumns.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const pending = addMissingColumns(table, columns).catch((error) => {
+    ensuredColumns.delete(key);
+    console.error('tidb_ensure_columns_failed', { table, error: (error as Error)?.message });
+    throw error;
+  });
+  ensuredColumns.set(key, pending);
+  return pending;
+}
+
+async function addMissingColumns(table: string, columns: Record<string, string>): Promise<void> {
+  const pool = getTiDbPool();
+  const [rows] = await pool.query<RowDataPacket[]>(`SHOW COLUMNS FROM ${table}`);
+  const present = new Set(rows.map((row) => String(row.Field).toLowerCase()));
+  for (const [column, definition] of Object.entries(columns)) {
+    if (present.has(column.toLowerCase())) {
+      continue;
+    }
+    await pool.query(`ALTER TABLE ${table} ADD COLUMN \`${column}\` ${definition}`);
+    console.info('tidb_column_added', { table, column });
+  }
+}
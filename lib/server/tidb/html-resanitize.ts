@@ -0,0 +1,129 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import {
+  getHtmlSanitizerConfig,
+  hasStrippedHtml,
+  sanitizeHtml,
+  type HtmlStrippedReport,
+} from '@/lib/server/html-sanitizer';
+
+import { getTiDbPool } from './mysql';
+import { updateBlogPost } from './posts';
+import { updateProduct } from './products';
+import type { WriteContext } from './revisions';
+import { getPostsTable, getProductsTable } from './schema';
+
+export type HtmlResanitizeEntityType = 'product' | 'post';
+
+export interface HtmlResanitizeEntry {
+  entity_type: HtmlResanitizeEntityType;
+  slug: string;
+  field: string;
+  stripped: HtmlStrippedReport;
+  updated: boolean;
+  error?: string;
+}
+
+export interface HtmlResanitizeReport {
+  dry_run: boolean;
+  scanned: Record<HtmlResanitizeEntityType, number>;
+  updated: number;
+  failed: number;
+  entries: HtmlResanitizeEntry[];
+}
+
+const RESANITIZE_PAGE_SIZE = 200;
+
+const HTML_COLUMNS: Record<HtmlResanitizeEntityType, string> = {
+  product: 'desc_html',
+  post: 'content_html',
+};
+
+export async function resanitizeStoredHtml(
+  options: { dryRun?: boolean } = {},
+  context: WriteContext = {}
+): Promise<HtmlResanitizeReport> {
+  const dryRun = Boolean(options.dryRun);
+  const config = getHtmlSanitizerConfig();
+  const report: HtmlResanitizeReport = {
+    dry_run: dryRun,
+    scanned: { product: 0, post: 0 },
+    updated: 0,
+    failed: 0,
+    entries: [],
+  };
+
+  for (const entityType of ['product', 'post'] as HtmlResanitizeEntityType[]) {
+    const field = HTML_COLUMNS[entityType];
+    const pending: Array<{ slug: string; html: string; stripped: HtmlStrippedReport }> = [];
+
+    await scanHtmlRows(entityType, (slug, html) => {
+      report.scanned[entityType] += 1;
+      const { stripped } = sanitizeHtml(html, config);
+      if (hasStrippedHtml(stripped)) {
+        pending.push({ slug, html, stripped });
+      }
+    });
+
+    for (const row of pending) {
+      const entry: HtmlResanitizeEntry = {
+        entity_type: entityType,
+        slug: row.slug,
+        field,
+        stripped: row.stripped,
+        updated: false,
+      };
+      report.entries.push(entry);
+      if (dryRun) {
+        continue;
+      }
+      try {
+        const rowsAffected =
+          entityType === 'product'
+            ? (await updateProduct({ slug: row.slug, desc_html: row.html }, context)).rowsAffected
+            : (await updateBlogPost(row.slug, { content_html: row.html }, context)).rowsAffected;
+        entry.updated = rowsAffected > 0;
+        if (entry.updated) {
+          report.updated += 1;
+        }
+      } catch (error) {
+        entry.error = (error as Error)?.message ?? 'unknown_error';
+        report.failed += 1;
+        console.error('html_resanitize_row_error', { entityType, slug: row.slug, error: entry.error });
+      }
+    }
+  }
+
+  return report;
+}
+
+async function scanHtmlRows(
+  entityType: HtmlResanitizeEntityType,
+  visit: (slug: string, html: string) => void
+): Promise<void> {
+  const pool = getTiDbPool();
+  const table = entityType === 'product' ? getProductsTable() : getPostsTable();
+  const column = HTML_COLUMNS[entityType];
+
+  const fetchPage = async (afterSlug: string | null) => {
+    const where = afterSlug === null ? `${column} IS NOT NULL` : `${column} IS NOT NULL AND slug > ?`;
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT slug, ${column} AS html FROM ${table} WHERE ${where} ORDER BY slug LIMIT ?`,
+      afterSlug === null ? [RESANITIZE_PAGE_SIZE] : [afterSlug, RESANITIZE_PAGE_SIZE]
+    );
+    return rows;
+  };
+
+  let page = await fetchPage(null);
+  for (;;) {
+    for (const row of page) {
+      visit(String(row.slug), String(row.html));
+    }
+    if (page.length < RESANITIZE_PAGE_SIZE) {
+      return;
+    }
+    page = await fetchPage(String(page[page.length - 1].slug));
+  }
+}
@@ -2,10 +2,30 @@ import 'server-only';
 
 import type { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
 
-import { revalidateBlogPaths } from '@/lib/server/cache';
+import { UNPUBLISH_CHANGES, needsUnpublish } from '@/lib/scheduled-publishing';
+import { revalidateBlogPaths, revalidateSitemapPaths } from '@/lib/server/cache';
+import { sanitizeHtml } from '@/lib/server/html-sanitizer';
 
-import { runInTransaction } from './mysql';
-import { getCategoriesTable, getPostsTable } from './schema';
+import { assertCategoryExists } from './categories';
+import { ensureColumns } from './ddl';
+import { getTiDbPool, runInTransaction } from './mysql';
+import {
+  clearRedirectSource,
+  clearRedirectTarget,
+  ensureRedirectsTable,
+  recordSlugRedirect,
+  type RedirectRule,
+} from './redirects';
+import { ensureRevisionsTable, moveRevisions, recordRevision, type WriteContext } from './revisions';
+import { getPostsTable } from './schema';
+import {
+  FieldValidationError,
+  StaleWriteError,
+  isStaleVersion,
+  normalizeNewSlug,
+  slugify,
+  type FieldErrors,
+} from './validation';
 
 export interface BlogPostUpdatePayload {
   title?: string | null;
@@ -21,9 +41,53 @@ export interface BlogPostUpdatePayload {
   category_slug?: string | null;
   hero_image_url?: string | null;
   published_at?: string | null;
+  scheduled_at?: string | null;
   is_published?: boolean | null;
 }
 
+export interface BlogPostCreatePayload extends BlogPostUpdatePayload {
+  slug?: string | null;
+}
+
+export interface BlogPostWriteResult {
+  post: Record<string, unknown>;
+  category: string | null;
+}
+
+export interface BlogPostUpdateResult {
+  rowsAffected: number;
+  post: Record<string, unknown> | null;
+  previousCategory: string | null;
+}
+
+export interface BlogPostRenameResult {
+  post: Record<string, unknown>;
+  previousSlug: string;
+  category: string | null;
+  redirect: RedirectRule;
+}
+
+export interface BlogPostDeleteResult {
+  found: boolean;
+  category: string | null;
+  redirectsRemoved: number;
+}
+
+export interface BlogFieldDefinition {
+  name: keyof BlogPostUpdatePayload;
+  type: ColumnConfig['type'];
+  maxLength: number | null;
+}
+
+export interface BlogPostSummary {
+  slug: string;
+  title: string | null;
+  category_slug: string | null;
+  is_published: boolean;
+  published_at: string | null;
+  last_tidb_update_at: string | null;
+}
+
 interface ColumnConfig {
   column: string;
   type: 'string' | 'text' | 'html' | 'url' | 'datetime' | 'boolean';
@@ -44,13 +108,62 @@ const BLOG_COLUMNS: Record<keyof BlogPostUpdatePayload, ColumnConfig> = {
   category_slug: { column: 'category_slug', type: 'string', maxLength: 191 },
   hero_image_url: { column: 'hero_image_url', type: 'url', maxLength: 2048 },
   published_at: { column: 'published_at', type: 'datetime' },
+  scheduled_at: { column: 'scheduled_at', type: 'datetime' },
   is_published: { column: 'is_published', type: 'boolean' },
 };
 
-export async function updateBlogPost(slug: string, payload: BlogPostUpdatePayload) {
+export function getBlogFieldDefinitions(): BlogFieldDefinition[] {
+  return (Object.entries(BLOG_COLUMNS) as [keyof BlogPostUpdatePayload, ColumnConfig][]).map(
+    ([name, config]) => ({
+      name,
+      type: config.type,
+      maxLength: config.maxLength ?? null,
+    })
+  );
+}
+
+export function ensurePostColumns(): Promise<void> {
+  return ensureColumns(getPostsTable(), { scheduled_at: 'DATETIME(6) NULL' });
+}
+
+export async function listBlogPosts(limit = 500): Promise<BlogPostSummary[]> {
+  const pool = getTiDbPool();
+  const table = getPostsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT slug, title, category_slug, is_published, published_at, last_tidb_update_at FROM ${table} ORDER BY last_tidb_update_at DESC LIMIT ?`,
+    [limit]
+  );
+  return rows.map((row) => ({
+    slug: String(row.slug),
+    title: (row.title as string | null) ?? null,
+    category_slug: (row.category_slug as string | null) ?? null,
+    is_published: Boolean(Number(row.is_published)),
+    published_at: normalizeResponseValue(row.published_at) as string | null,
+    last_tidb_update_at: normalizeResponseValue(row.last_tidb_update_at) as string | null,
+  }));
+}
+
+export async function fetchBlogPostBySlug(slug: string) {
+  await ensurePostColumns();
+  const pool = getTiDbPool();
+  const table = getPostsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(`SELECT * FROM ${table} WHERE slug = ? LIMIT 1`, [
+    normalizeSlug(slug),
+  ]);
+  const row = rows[0];
+  return row ? mapRow(row) : null;
+}
+
+export async function updateBlogPost(
+  slug: string,
+  payload: BlogPostUpdatePayload,
+  context: WriteContext = {}
+): Promise<BlogPostUpdateResult> {
   const normalizedSlug = normalizeSlug(slug);
+  await ensurePostColumns();
+  await ensureRevisionsTable();
 
-  return runInTransaction(async (connection) => {
+  const result = await runInTransaction(async (connection): Promise<BlogPostUpdateResult> => {
     const table = getPostsTable();
     const [rows] = await connection.query<RowDataPacket[]>(
       `SELECT * FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
@@ -58,8 +171,12 @@ export async function updateBlogPost(slug: string, payload: BlogPostUpdatePayloa
     );
     const existing = rows[0];
     if (!existing) {
-      return { rowsAffected: 0, post: null };
+      return { rowsAffected: 0, post: null, previousCategory: null };
     }
+    if (context.expectedUpdatedAt && isStaleVersion(existing.last_tidb_update_at, context.expectedUpdatedAt)) {
+      throw new StaleWriteError(mapRow(existing));
+    }
+    const previousCategory = (existing.category_slug as string | null) ?? null;
 
     const requestedSlug = (payload as Record<string, unknown>).slug;
     if (typeof requestedSlug === 'string') {
@@ -68,7 +185,7 @@ export async function updateBlogPost(slug: string, payload: BlogPostUpdatePayloa
         if (existing.is_published) {
           throw new SlugLockedError();
         }
-        throw new Error('Slug changes are not allowed.');
+        throw new FieldValidationError({ slug: 'Field slug cannot be changed here; use the rename endpoint.' });
       }
     }
 
@@ -78,12 +195,12 @@ export async function updateBlogPost(slug: string, payload: BlogPostUpdatePayloa
 
     const { assignments, values } = buildAssignments(payload, existing);
     if (assignments.length === 0) {
-      return { rowsAffected: 0, post: mapRow(existing) };
+      return { rowsAffected: 0, post: mapRow(existing), previousCategory };
     }
 
     const updateSql = `UPDATE ${table} SET ${assignments.join(', ')}, last_tidb_update_at = NOW(6) WHERE slug = ?`;
-    const [result] = await connection.execute<ResultSetHeader>(updateSql, [...values, normalizedSlug]);
-    const rowsAffected = Number(result.affectedRows ?? 0);
+    const [updateResult] = await connection.execute<ResultSetHeader>(updateSql, [...values, normalizedSlug]);
+    const rowsAffected = Number(updateResult.affectedRows ?? 0);
 
     const [reloadedRows] = await connection.query<RowDataPacket[]>(
       `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
@@ -91,10 +208,257 @@ export async function updateBlogPost(slug: string, payload: BlogPostUpdatePayloa
     );
     const reloaded = reloadedRows[0] ?? existing;
 
-    await revalidateBlogPaths(normalizedSlug, [existing.category_slug as string | null, reloaded.category_slug as string | null]);
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'post',
+      slug: normalizedSlug,
+      action: context.action ?? 'update',
+      before: existing,
+      after: reloaded,
+    });
+
+    return { rowsAffected, post: mapRow(reloaded), previousCategory };
+  });
+
+  if (result.rowsAffected > 0 && result.post) {
+    await revalidateBlogPaths(normalizedSlug, [result.previousCategory, result.post.category_slug as string | null]);
+  }
+
+  return result;
+}
+
+export async function createBlogPost(
+  payload: BlogPostCreatePayload,
+  context: WriteContext = {}
+): Promise<BlogPostWriteResult> {
+  const title = typeof payload.title === 'string' ? payload.title.trim() : '';
+  if (!title) {
+    throw new FieldValidationError({ title: 'Field title is required.' });
+  }
+  const explicitSlug =
+    typeof payload.slug === 'string' && payload.slug.trim().length > 0 ? normalizeNewSlug(payload.slug) : null;
+  const columns = normalizeBlogColumns(payload);
+  await ensurePostColumns();
+  await ensureRevisionsTable();
+  await ensureRedirectsTable();
+
+  const post = await runInTransaction(async (connection) => {
+    const table = getPostsTable();
+
+    let slug: string;
+    if (explicitSlug) {
+      const [existingRows] = await connection.query<RowDataPacket[]>(
+        `SELECT slug FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
+        [explicitSlug]
+      );
+      if (existingRows[0]) {
+        throw new BlogPostExistsError(explicitSlug);
+      }
+      slug = explicitSlug;
+    } else {
+      slug = await resolveAvailableSlug(connection, table, title);
+    }
+
+    if (typeof payload.category_slug === 'string' && payload.category_slug.trim().length > 0) {
+      await assertCategoryExists(connection, payload.category_slug);
+    }
+
+    const names = ['`slug`', ...columns.map(([config]) => `\`${config.column}\``), '`last_tidb_update_at`'];
+    const placeholders = ['?', ...columns.map(() => '?'), 'NOW(6)'];
+    await connection.execute(`INSERT INTO ${table} (${names.join(', ')}) VALUES (${placeholders.join(', ')})`, [
+      slug,
+      ...columns.map(([, value]) => value),
+    ]);
+    await clearRedirectSource(connection, 'post', slug);
+
+    const [createdRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
+      [slug]
+    );
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'post',
+      slug,
+      action: 'create',
+      before: null,
+      after: createdRows[0],
+    });
+    return mapRow(createdRows[0]);
+  });
+
+  const category = (post.category_slug as string | null | undefined) ?? null;
+  await revalidateBlogPaths(String(post.slug), [category]);
+
+  return { post, category };
+}
+
+export async function renameBlogPost(
+  slug: string,
+  newSlug: unknown,
+  context: WriteContext = {}
+): Promise<BlogPostRenameResult | null> {
+  const normalizedSlug = normalizeSlug(slug);
+  const targetSlug = normalizeNewSlug(newSlug, 'new_slug');
+  if (targetSlug === normalizedSlug) {
+    throw new FieldValidationError({ new_slug: 'Field new_slug must differ from the current slug.' });
+  }
+  await ensureRevisionsTable();
+  await ensureRedirectsTable();
+
+  const result = await runInTransaction(async (connection) => {
+    const table = getPostsTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug IN (?, ?) FOR UPDATE`,
+      [normalizedSlug, targetSlug]
+    );
+    const existing = rows.find((row) => String(row.slug) === normalizedSlug);
+    if (!existing) {
+      return null;
+    }
+    if (rows.some((row) => String(row.slug) === targetSlug)) {
+      throw new BlogPostExistsError(targetSlug);
+    }
+    if (context.expectedUpdatedAt && isStaleVersion(existing.last_tidb_update_at, context.expectedUpdatedAt)) {
+      throw new StaleWriteError(mapRow(existing));
+    }
+
+    await connection.execute(`UPDATE ${table} SET slug = ?, last_tidb_update_at = NOW(6) WHERE slug = ?`, [
+      targetSlug,
+      normalizedSlug,
+    ]);
+    await moveRevisions(connection, 'post', normalizedSlug, targetSlug);
+    const redirect = await recordSlugRedirect(connection, {
+      entityType: 'post',
+      fromSlug: normalizedSlug,
+      toSlug: targetSlug,
+      author: context.author,
+    });
+
+    const [reloadedRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
+      [targetSlug]
+    );
+    const reloaded = reloadedRows[0];
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'post',
+      slug: targetSlug,
+      action: 'rename',
+      before: existing,
+      after: reloaded,
+    });
+
+    return {
+      post: mapRow(reloaded),
+      previousSlug: normalizedSlug,
+      category: (reloaded.category_slug as string | null) ?? null,
+      redirect,
+    };
+  });
+
+  if (result) {
+    await revalidateBlogPaths(normalizedSlug, [result.category]);
+    await revalidateBlogPaths(targetSlug, []);
+    await revalidateSitemapPaths();
+  }
+
+  return result;
+}
+
+export async function unpublishBlogPost(
+  slug: string,
+  context: WriteContext = {}
+): Promise<BlogPostWriteResult | null> {
+  const normalizedSlug = normalizeSlug(slug);
+  await ensurePostColumns();
+  await ensureRevisionsTable();
 
-    return { rowsAffected, post: mapRow(reloaded) };
+  const post = await runInTransaction(async (connection) => {
+    const table = getPostsTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
+      [normalizedSlug]
+    );
+    const existing = rows[0];
+    if (!existing) {
+      return null;
+    }
+    if (!needsUnpublish(existing)) {
+      return mapRow(existing);
+    }
+
+    const changes = Object.entries(UNPUBLISH_CHANGES);
+    await connection.execute(
+      `UPDATE ${table} SET ${changes.map(([column]) => `\`${column}\` = ?`).join(', ')},
+        last_tidb_update_at = NOW(6) WHERE slug = ?`,
+      [...changes.map(([, value]) => value), normalizedSlug]
+    );
+    const [reloadedRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
+      [normalizedSlug]
+    );
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'post',
+      slug: normalizedSlug,
+      action: 'unpublish',
+      before: existing,
+      after: reloadedRows[0] ?? null,
+    });
+    return mapRow(reloadedRows[0] ?? existing);
   });
+
+  if (!post) {
+    return null;
+  }
+
+  const category = (post.category_slug as string | null | undefined) ?? null;
+  await revalidateBlogPaths(normalizedSlug, [category]);
+
+  return { post, category };
+}
+
+export async function deleteBlogPost(slug: string, context: WriteContext = {}): Promise<BlogPostDeleteResult> {
+  const normalizedSlug = normalizeSlug(slug);
+  await ensureRevisionsTable();
+  await ensureRedirectsTable();
+
+  const result = await runInTransaction(async (connection) => {
+    const table = getPostsTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
+      [normalizedSlug]
+    );
+    const existing = rows[0];
+    if (!existing) {
+      return { found: false, category: null, redirectsRemoved: 0 };
+    }
+
+    await connection.execute(`DELETE FROM ${table} WHERE slug = ?`, [normalizedSlug]);
+    const redirectsRemoved = await clearRedirectTarget(connection, 'post', normalizedSlug);
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'post',
+      slug: normalizedSlug,
+      action: 'delete',
+      before: existing,
+      after: null,
+    });
+    return { found: true, category: (existing.category_slug as string | null) ?? null, redirectsRemoved };
+  });
+
+  if (result.found) {
+    await revalidateBlogPaths(normalizedSlug, [result.category]);
+  }
+
+  return result;
+}
+
+export class BlogPostExistsError extends Error {
+  constructor(public readonly slug: string) {
+    super(`Post ${slug} already exists.`);
+    this.name = 'BlogPostExistsError';
+  }
 }
 
 export class SlugLockedError extends Error {
@@ -104,27 +468,11 @@ export class SlugLockedError extends Error {
   }
 }
 
-async function assertCategoryExists(connection: PoolConnection, categorySlug: string) {
-  const categoriesTable = getCategoriesTable();
-  const [rows] = await connection.query<RowDataPacket[]>(
-    `SELECT slug FROM ${categoriesTable} WHERE slug = ? LIMIT 1`,
-    [categorySlug.trim()]
-  );
-  if (rows.length === 0) {
-    throw new Error(`Category ${categorySlug} does not exist.`);
-  }
-}
-
 function buildAssignments(payload: BlogPostUpdatePayload, existing: RowDataPacket) {
   const assignments: string[] = [];
   const values: unknown[] = [];
 
-  for (const [key, config] of Object.entries(BLOG_COLUMNS) as [keyof BlogPostUpdatePayload, ColumnConfig][]) {
-    if (!(key in payload)) {
-      continue;
-    }
-    const incoming = payload[key];
-    const normalized = normalizeValue(incoming, config, key);
+  for (const [config, normalized] of normalizeBlogColumns(payload)) {
     const currentValue = existing[config.column];
     if (areEqual(currentValue, normalized, config.type)) {
       continue;
@@ -136,6 +484,50 @@ function buildAssignments(payload: BlogPostUpdatePayload, existing: RowDataPacke
   return { assignments, values };
 }
 
+function normalizeBlogColumns(payload: BlogPostUpdatePayload): [ColumnConfig, unknown][] {
+  const normalizedColumns: [ColumnConfig, unknown][] = [];
+  const errors: FieldErrors = {};
+
+  for (const [key, config] of Object.entries(BLOG_COLUMNS) as [keyof BlogPostUpdatePayload, ColumnConfig][]) {
+    if (!(key in payload)) {
+      continue;
+    }
+    try {
+      normalizedColumns.push([config, normalizeValue(payload[key], config, key)]);
+    } catch (error) {
+      errors[key] = (error as Error).message;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new FieldValidationError(errors);
+  }
+
+  return normalizedColumns;
+}
+
+async function resolveAvailableSlug(connection: PoolConnection, table: string, title: string) {
+  const base = slugify(title);
+  if (!base) {
+    throw new FieldValidationError({ title: 'Field title must contain letters or digits to generate a slug.' });
+  }
+
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT slug FROM ${table} WHERE slug = ? OR slug LIKE ? FOR UPDATE`,
+    [base, `${base}-%`]
+  );
+  const taken = new Set(rows.map((row) => String(row.slug)));
+  if (!taken.has(base)) {
+    return base;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) {
+    suffix += 1;
+  }
+  return `${base}-${suffix}`;
+}
+
 function normalizeValue(value: unknown, config: ColumnConfig, key: string) {
   if (value == null) {
     return null;
@@ -157,7 +549,7 @@ function normalizeValue(value: unknown, config: ColumnConfig, key: string) {
       if (typeof value !== 'string') {
         throw new Error(`Field ${key} must be a string.`);
       }
-      return value.replace(/\r\n/g, '\n').trim();
+      return sanitizeHtml(value).html;
     }
     case 'url': {
       if (typeof value !== 'string') {
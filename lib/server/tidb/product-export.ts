@@ -0,0 +1,184 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import { formatCsvRow } from '@/lib/server/csv';
+
+import { getTiDbPool } from './mysql';
+import { PRODUCT_WRITE_FIELDS, ensureProductColumns } from './products';
+import { getProductsTable } from './schema';
+
+export type ProductExportFormat = 'csv' | 'ndjson' | 'json';
+
+export interface ProductExportFilters {
+  category?: string | null;
+  updatedSince?: Date | null;
+  includeDeleted?: boolean;
+}
+
+export const PRODUCT_EXPORT_CONTENT_TYPES: Record<ProductExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+const EXPORT_PAGE_SIZE = 500;
+
+export function getProductExportColumns(filters: ProductExportFilters): string[] {
+  const columns = ['slug', ...PRODUCT_WRITE_FIELDS, 'last_tidb_update_at'];
+  return filters.includeDeleted ? [...columns, 'deleted_at'] : columns;
+}
+
+export async function openProductExportStream(
+  format: ProductExportFormat,
+  filters: ProductExportFilters
+): Promise<ReadableStream<Uint8Array>> {
+  await ensureProductColumns();
+  const columns = getProductExportColumns(filters);
+  const pages = iterateProductPages(columns, filters);
+  const encoder = new TextEncoder();
+
+  const firstPage = await pages.next();
+  let pending: RowDataPacket[] | null = firstPage.done ? [] : firstPage.value;
+  let rowsWritten = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(formatCsvRow(columns)));
+      } else if (format === 'json') {
+        controller.enqueue(encoder.encode('['));
+      }
+    },
+    async pull(controller) {
+      try {
+        const rows = pending ?? (await nextPage(pages));
+        pending = null;
+
+        if (!rows || rows.length === 0) {
+          if (format === 'json') {
+            controller.enqueue(encoder.encode(rowsWritten > 0 ? '\n]\n' : ']\n'));
+          }
+          controller.close();
+          return;
+        }
+
+        let chunk = '';
+        for (const row of rows) {
+          chunk += serializeRow(format, columns, row, rowsWritten === 0);
+          rowsWritten += 1;
+        }
+        controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        console.error('product_export_stream_error', { rowsWritten, error: (error as Error)?.message });
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await pages.return(undefined);
+    },
+  });
+}
+
+async function nextPage(pages: AsyncGenerator<RowDataPacket[]>) {
+  const result = await pages.next();
+  return result.done ? null : result.value;
+}
+
+async function* iterateProductPages(
+  columns: string[],
+  filters: ProductExportFilters
+): AsyncGenerator<RowDataPacket[]> {
+  const pool = getTiDbPool();
+  const table = getProductsTable();
+  const selectList = columns.map((column) => `\`${column}\``).join(', ');
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (!filters.includeDeleted) {
+    conditions.push('deleted_at IS NULL');
+  }
+  if (filters.category) {
+    conditions.push('category_slug = ?');
+    params.push(filters.category);
+  }
+  if (filters.updatedSince) {
+    conditions.push('last_tidb_update_at >= ?');
+    params.push(filters.updatedSince);
+  }
+
+  const fetchPage = async (afterSlug: string | null) => {
+    const pageConditions = afterSlug === null ? conditions : [...conditions, 'slug > ?'];
+    const where = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT ${selectList} FROM ${table} ${where} ORDER BY slug LIMIT ?`,
+      afterSlug === null ? [...params, EXPORT_PAGE_SIZE] : [...params, afterSlug, EXPORT_PAGE_SIZE]
+    );
+    return rows;
+  };
+
+  let rows = await fetchPage(null);
+  while (rows.length > 0) {
+    yield rows;
+    if (rows.length < EXPORT_PAGE_SIZE) {
+      return;
+    }
+    rows = await fetchPage(String(rows[rows.length - 1].slug));
+  }
+}
+
+function serializeRow(format: ProductExportFormat, columns: string[], row: RowDataPacket, first: boolean) {
+  if (format === 'csv') {
+    return formatCsvRow(
+      columns.map((column) => {
+        const value = normalizeExportValue(column, row[column]);
+        return Array.isArray(value) ? value.join('|') : value;
+      })
+    );
+  }
+
+  const record: Record<string, unknown> = {};
+  for (const column of columns) {
+    record[column] = normalizeExportValue(column, row[column]);
+  }
+  const json = JSON.stringify(record);
+  if (format === 'ndjson') {
+    return `${json}\n`;
+  }
+  return `${first ? '\n' : ',\n'}${json}`;
+}
+
+function normalizeExportValue(column: string, value: unknown): unknown {
+  if (value == null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (column === 'gallery_image_urls') {
+    return parseGallery(value);
+  }
+  if (column === 'price_amount') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : String(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}
+
+function parseGallery(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch (_error) {
+      return value.trim() ? [value.trim()] : [];
+    }
+  }
+  return [];
+}
@@ -0,0 +1,361 @@
+import 'server-only';
+
+import type { PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+import { revalidateProductPaths } from '@/lib/server/cache';
+import { parseCsv } from '@/lib/server/csv';
+
+import { findExistingCategorySlugs } from './categories';
+import { getTiDbPool, runInTransaction } from './mysql';
+import {
+  PRODUCT_WRITE_FIELDS,
+  applyProductPayload,
+  diffProductPayload,
+  ensureProductColumns,
+  type ProductFieldChange,
+  type ProductWritePayload,
+} from './products';
+import { ensureRevisionsTable, type WriteContext } from './revisions';
+import { getProductsTable } from './schema';
+import { FieldValidationError, normalizeNewSlug, type FieldErrors } from './validation';
+
+export type ProductImportFormat = 'csv' | 'ndjson';
+export type ProductImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+export type ProductImportStatus = 'pending' | 'applied' | 'skipped' | 'failed';
+
+export interface ProductImportOptions {
+  format: ProductImportFormat;
+  content: string;
+  dryRun: boolean;
+  batchSize?: number;
+  author?: string | null;
+}
+
+export interface ProductImportRowReport {
+  row: number;
+  slug: string | null;
+  action: ProductImportAction;
+  status: ProductImportStatus;
+  changes: ProductFieldChange[];
+  field_errors?: FieldErrors;
+  error?: string;
+}
+
+export interface ProductImportReport {
+  dry_run: boolean;
+  format: ProductImportFormat;
+  batch_size: number;
+  batches: number;
+  unknown_columns: string[];
+  summary: Record<ProductImportAction | ProductImportStatus, number>;
+  rows: ProductImportRowReport[];
+}
+
+interface ParsedImportRecord {
+  row: number;
+  payload: Record<string, unknown> | null;
+  error?: string;
+}
+
+export const PRODUCT_IMPORT_MAX_ROWS = 5000;
+export const PRODUCT_IMPORT_DEFAULT_BATCH_SIZE = 100;
+const PRODUCT_IMPORT_MAX_BATCH_SIZE = 500;
+
+const IMPORT_COLUMNS = new Set<string>(['slug', ...PRODUCT_WRITE_FIELDS]);
+
+export class ProductImportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductImportParseError';
+  }
+}
+
+export async function runProductImport(options: ProductImportOptions): Promise<ProductImportReport> {
+  const { records, unknownColumns } = parseProductImport(options.format, options.content);
+  const batchSize = normalizeBatchSize(options.batchSize);
+  const context: WriteContext = { author: options.author, action: 'import' };
+
+  const reports: ProductImportRowReport[] = [];
+  const seen = new Map<string, number>();
+  const batches: { record: ParsedImportRecord; report: ProductImportRowReport }[][] = [];
+
+  for (const record of records) {
+    const report = prepareRowReport(record, seen);
+    reports.push(report);
+    if (report.action === 'invalid') {
+      continue;
+    }
+    const current = batches[batches.length - 1];
+    if (!current || current.length >= batchSize) {
+      batches.push([{ record, report }]);
+    } else {
+      current.push({ record, report });
+    }
+  }
+
+  if (!options.dryRun && batches.length > 0) {
+    await ensureProductColumns();
+    await ensureRevisionsTable();
+  }
+
+  for (const batch of batches) {
+    if (options.dryRun) {
+      const pool = getTiDbPool();
+      const connection = await pool.getConnection();
+      try {
+        await planBatch(connection, batch, null);
+      } finally {
+        connection.release();
+      }
+      continue;
+    }
+
+    try {
+      const revalidations = await runInTransaction((connection) => planBatch(connection, batch, context));
+      for (const item of batch) {
+        if (item.report.status === 'pending') {
+          item.report.status = 'applied';
+        }
+      }
+      await Promise.all(
+        revalidations.map(({ slug, categories }) => revalidateProductPaths(slug, categories))
+      );
+    } catch (error) {
+      const message = (error as Error)?.message ?? 'Batch failed.';
+      console.error('product_import_batch_failed', {
+        rows: batch.map((item) => item.report.row),
+        error: message,
+      });
+      for (const item of batch) {
+        if (item.report.status === 'pending' || item.report.status === 'applied') {
+          item.report.status = 'failed';
+          item.report.error = message;
+        }
+      }
+    }
+  }
+
+  return {
+    dry_run: options.dryRun,
+    format: options.format,
+    batch_size: batchSize,
+    batches: batches.length,
+    unknown_columns: unknownColumns,
+    summary: summarize(reports),
+    rows: reports,
+  };
+}
+
+export function parseProductImport(
+  format: ProductImportFormat,
+  content: string
+): { records: ParsedImportRecord[]; unknownColumns: string[] } {
+  const parsed = format === 'csv' ? parseCsvRecords(content) : parseNdjsonRecords(content);
+  if (parsed.records.length === 0) {
+    throw new ProductImportParseError('The import does not contain any rows.');
+  }
+  if (parsed.records.length > PRODUCT_IMPORT_MAX_ROWS) {
+    throw new ProductImportParseError(
+      `The import has ${parsed.records.length} rows; the maximum is ${PRODUCT_IMPORT_MAX_ROWS}.`
+    );
+  }
+  return parsed;
+}
+
+function parseCsvRecords(content: string) {
+  let rows: string[][];
+  try {
+    rows = parseCsv(content);
+  } catch (error) {
+    throw new ProductImportParseError((error as Error).message);
+  }
+
+  const [header, ...dataRows] = rows;
+  if (!header) {
+    return { records: [], unknownColumns: [] };
+  }
+
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  if (!columns.includes('slug')) {
+    throw new ProductImportParseError('The CSV header must include a slug column.');
+  }
+  const unknownColumns = columns.filter((column) => column && !IMPORT_COLUMNS.has(column));
+
+  const records = dataRows.map((cells, index): ParsedImportRecord => {
+    const payload: Record<string, unknown> = {};
+    columns.forEach((column, columnIndex) => {
+      const cell = cells[columnIndex];
+      if (!IMPORT_COLUMNS.has(column) || cell === undefined || cell.trim().length === 0) {
+        return;
+      }
+      payload[column] = column === 'gallery_image_urls' ? parseGalleryCell(cell) : cell;
+    });
+    return { row: index + 1, payload };
+  });
+
+  return { records, unknownColumns };
+}
+
+function parseNdjsonRecords(content: string) {
+  const unknownColumns = new Set<string>();
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+
+  const records = lines.map((line, index): ParsedImportRecord => {
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      return { row: index + 1, payload: null, error: `Invalid JSON: ${(error as Error).message}` };
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { row: index + 1, payload: null, error: 'Each line must be a JSON object.' };
+    }
+
+    const payload: Record<string, unknown> = {};
+    for (const [key, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+      if (IMPORT_COLUMNS.has(key)) {
+        payload[key] = fieldValue;
+      } else {
+        unknownColumns.add(key);
+      }
+    }
+    return { row: index + 1, payload };
+  });
+
+  return { records, unknownColumns: Array.from(unknownColumns) };
+}
+
+function parseGalleryCell(cell: string): unknown {
+  const trimmed = cell.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (_error) {
+      return trimmed;
+    }
+  }
+  return trimmed.split(/[|\n]/);
+}
+
+function prepareRowReport(record: ParsedImportRecord, seen: Map<string, number>): ProductImportRowReport {
+  const slugValue = record.payload?.slug;
+  const slug = typeof slugValue === 'string' && slugValue.trim().length > 0 ? slugValue.trim() : null;
+  const report: ProductImportRowReport = { row: record.row, slug, action: 'invalid', status: 'skipped', changes: [] };
+
+  if (!record.payload) {
+    report.error = record.error;
+    return report;
+  }
+  if (!slug) {
+    report.field_errors = { slug: 'Field slug is required.' };
+    return report;
+  }
+
+  const firstRow = seen.get(slug);
+  if (firstRow !== undefined) {
+    report.field_errors = { slug: `Slug ${slug} is already used on row ${firstRow}.` };
+    return report;
+  }
+  seen.set(slug, record.row);
+
+  report.action = 'unchanged';
+  report.status = 'pending';
+  return report;
+}
+
+async function planBatch(
+  connection: PoolConnection,
+  batch: { record: ParsedImportRecord; report: ProductImportRowReport }[],
+  applyContext: WriteContext | null
+) {
+  const apply = applyContext !== null;
+  const table = getProductsTable();
+  const slugs = batch.map((item) => item.report.slug as string);
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT * FROM ${table} WHERE slug IN (?)${apply ? ' FOR UPDATE' : ''}`,
+    [slugs]
+  );
+  const existingBySlug = new Map(rows.map((row) => [String(row.slug), row]));
+
+  const categorySlugs = batch
+    .map((item) => item.record.payload?.category_slug)
+    .filter((value): value is string => typeof value === 'string');
+  const knownCategories = await findExistingCategorySlugs(connection, categorySlugs);
+
+  const revalidations: { slug: string; categories: (string | null)[] }[] = [];
+
+  for (const { record, report } of batch) {
+    const payload = { ...record.payload, slug: report.slug } as ProductWritePayload;
+    const existing = existingBySlug.get(report.slug as string) ?? null;
+
+    try {
+      if (existing && existing.deleted_at != null) {
+        throw new FieldValidationError({ slug: `Product ${report.slug} is deleted.` });
+      }
+      if (!existing) {
+        normalizeNewSlug(payload.slug);
+      }
+      if (typeof payload.category_slug === 'string') {
+        const category = payload.category_slug.trim();
+        if (category && !knownCategories.has(category)) {
+          throw new FieldValidationError({ category_slug: `Category ${category} does not exist.` });
+        }
+      }
+
+      report.changes = diffProductPayload(existing, payload);
+      report.action = !existing ? 'create' : report.changes.length > 0 ? 'update' : 'unchanged';
+    } catch (error) {
+      report.action = 'invalid';
+      report.status = 'skipped';
+      if (error instanceof FieldValidationError) {
+        report.field_errors = error.fieldErrors;
+      } else {
+        report.error = (error as Error).message;
+      }
+      continue;
+    }
+
+    if (report.action === 'unchanged') {
+      report.status = 'skipped';
+      continue;
+    }
+
+    if (apply) {
+      await applyProductPayload(connection, payload, existing, applyContext);
+      revalidations.push({
+        slug: payload.slug,
+        categories: [
+          (existing?.category_slug as string | null | undefined) ?? null,
+          typeof payload.category_slug === 'string' ? payload.category_slug.trim() || null : null,
+        ],
+      });
+    }
+  }
+
+  return revalidations;
+}
+
+function normalizeBatchSize(value: number | undefined): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return PRODUCT_IMPORT_DEFAULT_BATCH_SIZE;
+  }
+  return Math.min(Math.max(Math.trunc(value), 1), PRODUCT_IMPORT_MAX_BATCH_SIZE);
+}
+
+function summarize(reports: ProductImportRowReport[]): ProductImportReport['summary'] {
+  const summary: ProductImportReport['summary'] = {
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    invalid: 0,
+    pending: 0,
+    applied: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const report of reports) {
+    summary[report.action] += 1;
+    summary[report.status] += 1;
+  }
+  return summary;
+}
@@ -2,10 +2,22 @@ import 'server-only';
 
 import type { Pool, PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
 
-import { revalidateProductPaths } from '@/lib/server/cache';
-
-import { getTiDbPool } from './mysql';
+import { revalidateProductPaths, revalidateSitemapPaths } from '@/lib/server/cache';
+import { sanitizeHtml } from '@/lib/server/html-sanitizer';
+
+import { assertCategoryExists } from './categories';
+import { ensureColumns } from './ddl';
+import { getTiDbPool, runInTransaction } from './mysql';
+import { clearRedirectSource, ensureRedirectsTable, recordSlugRedirect, type RedirectRule } from './redirects';
+import { ensureRevisionsTable, moveRevisions, recordRevision, type WriteContext } from './revisions';
 import { getProductsTable } from './schema';
+import {
+  FieldValidationError,
+  StaleWriteError,
+  isStaleVersion,
+  normalizeNewSlug,
+  type FieldErrors,
+} from './validation';
 
 export interface ProductWritePayload {
   slug: string;
@@ -35,12 +47,48 @@ export interface ProductUpdateResult {
   found: boolean;
 }
 
+export interface ProductCreateResult {
+  product: Record<string, unknown>;
+  category: string | null;
+}
+
+export interface ProductDeleteResult {
+  found: boolean;
+  category: string | null;
+}
+
+export interface ProductRenameResult {
+  product: Record<string, unknown>;
+  previousSlug: string;
+  category: string | null;
+  redirect: RedirectRule;
+}
+
+export interface ProductFieldChange {
+  field: keyof Omit<ProductWritePayload, 'slug'>;
+  before: unknown;
+  after: unknown;
+}
+
+export class ProductExistsError extends Error {
+  constructor(public readonly slug: string, public readonly deleted: boolean) {
+    super(`Product ${slug} already exists.`);
+    this.name = 'ProductExistsError';
+  }
+}
+
+export interface ProductFieldDefinition {
+  name: keyof Omit<ProductWritePayload, 'slug'>;
+  type: ColumnConfig['type'];
+  maxLength: number | null;
+}
+
 interface ColumnConfig {
   column: string;
   maxLength?: number;
   type: 'string' | 'text' | 'number' | 'json';
   allowNull?: boolean;
-  sanitizer?: (value: unknown) => unknown;
+  sanitizer?: (value: unknown, key: string) => unknown;
 }
 
 const PRODUCT_COLUMNS: Record<keyof Omit<ProductWritePayload, 'slug'>, ColumnConfig> = {
@@ -63,35 +111,55 @@ const PRODUCT_COLUMNS: Record<keyof Omit<ProductWritePayload, 'slug'>, ColumnCon
   availability_label: { column: 'availability_label', maxLength: 255, type: 'string' },
 };
 
-export async function updateProduct(payload: ProductWritePayload): Promise<ProductUpdateResult> {
+export const PRODUCT_WRITE_FIELDS = Object.keys(PRODUCT_COLUMNS) as (keyof typeof PRODUCT_COLUMNS)[];
+
+export function getProductFieldDefinitions(): ProductFieldDefinition[] {
+  return (Object.entries(PRODUCT_COLUMNS) as [keyof typeof PRODUCT_COLUMNS, ColumnConfig][]).map(
+    ([name, config]) => ({
+      name,
+      type: config.type,
+      maxLength: config.maxLength ?? null,
+    })
+  );
+}
+
+export function ensureProductColumns(): Promise<void> {
+  return ensureColumns(getProductsTable(), { deleted_at: 'DATETIME(6) NULL' });
+}
+
+export async function updateProduct(
+  payload: ProductWritePayload,
+  context: WriteContext = {}
+): Promise<ProductUpdateResult> {
   const normalizedSlug = normalizeSlug(payload.slug);
-  const pool = getTiDbPool();
+  await ensureProductColumns();
+  await ensureRevisionsTable();
 
-  const connection = await pool.getConnection();
-  try {
+  const result = await runInTransaction(async (connection) => {
     const table = getProductsTable();
     const [existingRows] = await connection.query<RowDataPacket[]>(
-      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
       [normalizedSlug]
     );
     const existing = existingRows[0];
-    if (!existing) {
-      return { rowsAffected: 0, product: {}, previousCategory: null, found: false };
+    if (!existing || existing.deleted_at != null) {
+      return { rowsAffected: 0, existing: null, reloaded: null };
+    }
+    if (context.expectedUpdatedAt && isStaleVersion(existing.last_tidb_update_at, context.expectedUpdatedAt)) {
+      throw new StaleWriteError(mapRow(existing));
+    }
+
+    if (typeof payload.category_slug === 'string' && payload.category_slug.trim().length > 0) {
+      await assertCategoryExists(connection, payload.category_slug);
     }
 
     const { assignments, values } = buildUpdateAssignments(payload, existing);
     if (assignments.length === 0) {
-      return {
-        rowsAffected: 0,
-        product: mapRow(existing),
-        previousCategory: existing.category_slug,
-        found: true,
-      };
+      return { rowsAffected: 0, existing, reloaded: existing };
     }
 
     const sql = `UPDATE ${table} SET ${assignments.join(', ')}, last_tidb_update_at = NOW(6) WHERE slug = ?`;
-    const [result] = await connection.execute<ResultSetHeader>(sql, [...values, normalizedSlug]);
-    const rowsAffected = Number(result.affectedRows ?? 0);
+    const [updateResult] = await connection.execute<ResultSetHeader>(sql, [...values, normalizedSlug]);
 
     const [reloadedRows] = await connection.query<RowDataPacket[]>(
       `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
@@ -99,20 +167,253 @@ export async function updateProduct(payload: ProductWritePayload): Promise<Produ
     );
     const reloaded = reloadedRows[0] ?? existing;
 
-    const previousCategory = existing.category_slug as string | null | undefined;
-    const nextCategory = reloaded.category_slug as string | null | undefined;
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'product',
+      slug: normalizedSlug,
+      action: context.action ?? 'update',
+      before: existing,
+      after: reloaded,
+    });
+
+    return { rowsAffected: Number(updateResult.affectedRows ?? 0), existing, reloaded };
+  });
+
+  const { rowsAffected, existing, reloaded } = result;
+  if (!existing || !reloaded) {
+    return { rowsAffected: 0, product: {}, previousCategory: null, found: false };
+  }
 
+  const previousCategory = existing.category_slug as string | null | undefined;
+  if (rowsAffected > 0) {
+    const nextCategory = reloaded.category_slug as string | null | undefined;
     await revalidateProductPaths(normalizedSlug, [previousCategory, nextCategory]);
+  }
+
+  return {
+    rowsAffected,
+    product: mapRow(reloaded),
+    previousCategory: previousCategory ?? null,
+    found: true,
+  };
+}
+
+export async function createProduct(
+  payload: ProductWritePayload,
+  context: WriteContext = {}
+): Promise<ProductCreateResult> {
+  const slug = normalizeNewSlug(payload.slug);
+  const columns = normalizeProductColumns(payload);
+  await ensureProductColumns();
+  await ensureRevisionsTable();
+  await ensureRedirectsTable();
+
+  const product = await runInTransaction(async (connection) => {
+    const table = getProductsTable();
+    const [existingRows] = await connection.query<RowDataPacket[]>(
+      `SELECT slug, deleted_at FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
+      [slug]
+    );
+    const existing = existingRows[0];
+    if (existing) {
+      throw new ProductExistsError(slug, existing.deleted_at != null);
+    }
+
+    if (typeof payload.category_slug === 'string' && payload.category_slug.trim().length > 0) {
+      await assertCategoryExists(connection, payload.category_slug);
+    }
+
+    await insertProductRow(connection, slug, columns);
+    await clearRedirectSource(connection, 'product', slug);
+
+    const [createdRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
+      [slug]
+    );
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'product',
+      slug,
+      action: 'create',
+      before: null,
+      after: createdRows[0],
+    });
+    return mapRow(createdRows[0]);
+  });
+
+  const category = (product.category_slug as string | null | undefined) ?? null;
+  await revalidateProductPaths(slug, [category]);
+
+  return { product, category };
+}
+
+export async function deleteProduct(slug: string, context: WriteContext = {}): Promise<ProductDeleteResult> {
+  const normalizedSlug = normalizeSlug(slug);
+  await ensureProductColumns();
+  await ensureRevisionsTable();
+
+  const result = await runInTransaction(async (connection) => {
+    const table = getProductsTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1 FOR UPDATE`,
+      [normalizedSlug]
+    );
+    const existing = rows[0];
+    if (!existing || existing.deleted_at != null) {
+      return { found: false, category: null };
+    }
+
+    await connection.execute(
+      `UPDATE ${table} SET deleted_at = NOW(6), last_tidb_update_at = NOW(6) WHERE slug = ?`,
+      [normalizedSlug]
+    );
+    const [deletedRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
+      [normalizedSlug]
+    );
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'product',
+      slug: normalizedSlug,
+      action: 'delete',
+      before: existing,
+      after: deletedRows[0] ?? null,
+    });
+    return { found: true, category: (existing.category_slug as string | null) ?? null };
+  });
+
+  if (result.found) {
+    await revalidateProductPaths(normalizedSlug, [result.category]);
+  }
+
+  return result;
+}
+
+export async function renameProduct(
+  slug: string,
+  newSlug: unknown,
+  context: WriteContext = {}
+): Promise<ProductRenameResult | null> {
+  const normalizedSlug = normalizeSlug(slug);
+  const targetSlug = normalizeNewSlug(newSlug, 'new_slug');
+  if (targetSlug === normalizedSlug) {
+    throw new FieldValidationError({ new_slug: 'Field new_slug must differ from the current slug.' });
+  }
+  await ensureProductColumns();
+  await ensureRevisionsTable();
+  await ensureRedirectsTable();
+
+  const result = await runInTransaction(async (connection) => {
+    const table = getProductsTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug IN (?, ?) FOR UPDATE`,
+      [normalizedSlug, targetSlug]
+    );
+    const existing = rows.find((row) => String(row.slug) === normalizedSlug);
+    if (!existing || existing.deleted_at != null) {
+      return null;
+    }
+    const conflict = rows.find((row) => String(row.slug) === targetSlug);
+    if (conflict) {
+      throw new ProductExistsError(targetSlug, conflict.deleted_at != null);
+    }
+    if (context.expectedUpdatedAt && isStaleVersion(existing.last_tidb_update_at, context.expectedUpdatedAt)) {
+      throw new StaleWriteError(mapRow(existing));
+    }
+
+    await connection.execute(`UPDATE ${table} SET slug = ?, last_tidb_update_at = NOW(6) WHERE slug = ?`, [
+      targetSlug,
+      normalizedSlug,
+    ]);
+    await moveRevisions(connection, 'product', normalizedSlug, targetSlug);
+    const redirect = await recordSlugRedirect(connection, {
+      entityType: 'product',
+      fromSlug: normalizedSlug,
+      toSlug: targetSlug,
+      author: context.author,
+    });
+
+    const [reloadedRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug = ? LIMIT 1`,
+      [targetSlug]
+    );
+    const reloaded = reloadedRows[0];
+    await recordRevision(connection, {
+      ...context,
+      entityType: 'product',
+      slug: targetSlug,
+      action: 'rename',
+      before: existing,
+      after: reloaded,
+    });
 
     return {
-      rowsAffected,
       product: mapRow(reloaded),
-      previousCategory: previousCategory ?? null,
-      found: true,
+      previousSlug: normalizedSlug,
+      category: (reloaded.category_slug as string | null) ?? null,
+      redirect,
     };
-  } finally {
-    connection.release();
+  });
+
+  if (result) {
+    await revalidateProductPaths(normalizedSlug, [result.category]);
+    await revalidateProductPaths(targetSlug, []);
+    await revalidateSitemapPaths();
+  }
+
+  return result;
+}
+
+export function diffProductPayload(
+  existing: Record<string, unknown> | null,
+  payload: ProductWritePayload
+): ProductFieldChange[] {
+  const changes: ProductFieldChange[] = [];
+  for (const [config, normalized] of normalizeProductColumns(payload)) {
+    const before = existing ? existing[config.column] ?? null : null;
+    if (areValuesEqual(before, normalized, config.type)) {
+      continue;
+    }
+    changes.push({
+      field: config.column as ProductFieldChange['field'],
+      before: config.type === 'json' ? parseJsonValue(before) : normalizeResponseValue(before),
+      after: config.type === 'json' ? parseJsonValue(normalized) : normalized,
+    });
+  }
+  return changes;
+}
+
+export async function applyProductPayload(
+  connection: PoolConnection,
+  payload: ProductWritePayload,
+  existing: RowDataPacket | null,
+  context: WriteContext = {}
+): Promise<number> {
+  const table = getProductsTable();
+  let rowsAffected = 1;
+  if (!existing) {
+    await insertProductRow(connection, normalizeNewSlug(payload.slug), normalizeProductColumns(payload));
+  } else {
+    const { assignments, values } = buildUpdateAssignments(payload, existing);
+    if (assignments.length === 0) {
+      return 0;
+    }
+    const sql = `UPDATE ${table} SET ${assignments.join(', ')}, last_tidb_update_at = NOW(6) WHERE slug = ?`;
+    const [result] = await connection.execute<ResultSetHeader>(sql, [...values, normalizeSlug(payload.slug)]);
+    rowsAffected = Number(result.affectedRows ?? 0);
   }
+
+  const slug = normalizeSlug(payload.slug);
+  const [rows] = await connection.query<RowDataPacket[]>(`SELECT * FROM ${table} WHERE slug = ? LIMIT 1`, [slug]);
+  await recordRevision(connection, {
+    ...context,
+    entityType: 'product',
+    slug,
+    action: context.action ?? (existing ? 'update' : 'create'),
+    before: existing,
+    after: rows[0] ?? null,
+  });
+  return rowsAffected;
 }
 
 export async function touchProductUpdatedAt(connection: PoolConnection, slug: string) {
@@ -122,18 +423,21 @@ export async function touchProductUpdatedAt(connection: PoolConnection, slug: st
   ]);
 }
 
+async function insertProductRow(connection: PoolConnection, slug: string, columns: [ColumnConfig, unknown][]) {
+  const table = getProductsTable();
+  const names = ['`slug`', ...columns.map(([config]) => `\`${config.column}\``), '`last_tidb_update_at`'];
+  const placeholders = ['?', ...columns.map(() => '?'), 'NOW(6)'];
+  await connection.execute(`INSERT INTO ${table} (${names.join(', ')}) VALUES (${placeholders.join(', ')})`, [
+    slug,
+    ...columns.map(([, value]) => value),
+  ]);
+}
+
 function buildUpdateAssignments(payload: ProductWritePayload, existing: RowDataPacket) {
   const assignments: string[] = [];
   const values: unknown[] = [];
 
-  for (const [key, config] of Object.entries(PRODUCT_COLUMNS) as [keyof typeof PRODUCT_COLUMNS, ColumnConfig][]) {
-    const incoming = payload[key];
-    if (incoming === undefined) {
-      continue;
-    }
-
-    const sanitized = config.sanitizer ? config.sanitizer(incoming) : incoming;
-    const normalized = normalizeValue(sanitized, config, key);
+  for (const [config, normalized] of normalizeProductColumns(payload)) {
     const existingValue = existing[config.column];
 
     if (areValuesEqual(existingValue, normalized, config.type)) {
@@ -147,6 +451,31 @@ function buildUpdateAssignments(payload: ProductWritePayload, existing: RowDataP
   return { assignments, values };
 }
 
+function normalizeProductColumns(payload: ProductWritePayload): [ColumnConfig, unknown][] {
+  const normalizedColumns: [ColumnConfig, unknown][] = [];
+  const errors: FieldErrors = {};
+
+  for (const [key, config] of Object.entries(PRODUCT_COLUMNS) as [keyof typeof PRODUCT_COLUMNS, ColumnConfig][]) {
+    const incoming = payload[key];
+    if (incoming === undefined) {
+      continue;
+    }
+
+    try {
+      const sanitized = config.sanitizer ? config.sanitizer(incoming, key) : incoming;
+      normalizedColumns.push([config, normalizeValue(sanitized, config, key)]);
+    } catch (error) {
+      errors[key] = (error as Error).message;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new FieldValidationError(errors);
+  }
+
+  return normalizedColumns;
+}
+
 function normalizeSlug(value: string): string {
   if (typeof value !== 'string' || value.trim().length === 0) {
     throw new Error('Slug is required for product updates.');
@@ -195,39 +524,39 @@ function normalizeValue(value: unknown, config: ColumnConfig, key: string) {
   }
 }
 
-function normalizeHtml(value: unknown): string | null {
+function normalizeHtml(value: unknown, key: string): string | null {
   if (value == null) {
     return null;
   }
   if (typeof value !== 'string') {
-    throw new Error('HTML fields must be strings.');
+    throw new Error(`Field ${key} must be a string.`);
   }
-  return value.replace(/\r\n/g, '\n').trim();
+  return sanitizeHtml(value).html;
 }
 
-function normalizeUrl(value: unknown): string | null {
+function normalizeUrl(value: unknown, key: string): string | null {
   if (value == null || value === '') {
     return null;
   }
   if (typeof value !== 'string') {
-    throw new Error('URL fields must be strings.');
+    throw new Error(`Field ${key} must be a string.`);
   }
   const trimmed = value.trim();
   if (trimmed.length === 0) {
     return null;
   }
   if (!/^https?:\/\//i.test(trimmed)) {
-    throw new Error('URLs must start with http:// or https://');
+    throw new Error(`Field ${key} must start with http:// or https://`);
   }
   return trimmed;
 }
 
-function normalizeStringArray(value: unknown): string[] {
+function normalizeStringArray(value: unknown, key: string): string[] {
   if (value == null) {
     return [];
   }
   if (!Array.isArray(value)) {
-    throw new Error('Expected an array of strings.');
+    throw new Error(`Field ${key} must be an array of strings.`);
   }
   return value
     .map((item) => (typeof item === 'string' ? item.trim() : ''))
@@ -256,6 +585,17 @@ function areValuesEqual(current: unknown, next: unknown, type: ColumnConfig['typ
   return current === next;
 }
 
+function parseJsonValue(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value ?? null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (_error) {
+    return value;
+  }
+}
+
 function mapRow(row: RowDataPacket): Record<string, unknown> {
   const result: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(row)) {
@@ -275,19 +615,23 @@ function normalizeResponseValue(value: unknown): unknown {
 }
 
 export async function fetchProductBySlug(slug: string) {
+  await ensureProductColumns();
   const pool = getTiDbPool();
   const table = getProductsTable();
-  const [rows] = await pool.query<RowDataPacket[]>(`SELECT * FROM ${table} WHERE slug = ? LIMIT 1`, [
-    normalizeSlug(slug),
-  ]);
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM ${table} WHERE slug = ? AND deleted_at IS NULL LIMIT 1`,
+    [normalizeSlug(slug)]
+  );
   const row = rows[0];
   return row ? mapRow(row) : null;
 }
 
 export async function ensureProductExists(connection: Pool | PoolConnection, slug: string): Promise<boolean> {
+  await ensureProductColumns();
   const table = getProductsTable();
-  const [rows] = await connection.query<RowDataPacket[]>(`SELECT slug FROM ${table} WHERE slug = ? LIMIT 1`, [
-    normalizeSlug(slug),
-  ]);
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT slug FROM ${table} WHERE slug = ? AND deleted_at IS NULL LIMIT 1`,
+    [normalizeSlug(slug)]
+  );
   return rows.length > 0;
 }
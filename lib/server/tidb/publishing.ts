@@ -0,0 +1,104 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import { isDueForPublish, readScheduledAt } from '@/lib/scheduled-publishing';
+import { revalidateBlogPaths } from '@/lib/server/cache';
+
+import { getTiDbPool, runInTransaction } from './mysql';
+import { ensurePostColumns } from './posts';
+import { ensureRevisionsTable, recordRevision, type WriteContext } from './revisions';
+import { getPostsTable } from './schema';
+
+export interface ScheduledPost {
+  slug: string;
+  title: string | null;
+  category_slug: string | null;
+  scheduled_at: string | null;
+  due: boolean;
+}
+
+export interface PublishedPost {
+  slug: string;
+  category: string | null;
+}
+
+const PUBLISH_BATCH_LIMIT = 100;
+
+export async function listScheduledPosts(limit = 200, now = new Date()): Promise<ScheduledPost[]> {
+  await ensurePostColumns();
+  const pool = getTiDbPool();
+  const table = getPostsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT slug, title, category_slug, is_published, scheduled_at FROM ${table}
+      WHERE is_published = 0 AND scheduled_at IS NOT NULL
+      ORDER BY scheduled_at, slug LIMIT ?`,
+    [limit]
+  );
+  return rows.map((row) => ({
+    slug: String(row.slug),
+    title: (row.title as string | null) ?? null,
+    category_slug: (row.category_slug as string | null) ?? null,
+    scheduled_at: readScheduledAt(row)?.toISOString() ?? null,
+    due: isDueForPublish(row, now),
+  }));
+}
+
+export async function publishDuePosts(context: WriteContext = {}, now = new Date()): Promise<PublishedPost[]> {
+  await ensurePostColumns();
+  await ensureRevisionsTable();
+
+  const published = await runInTransaction(async (connection) => {
+    const table = getPostsTable();
+    const [candidateRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table}
+        WHERE is_published = 0 AND scheduled_at IS NOT NULL AND scheduled_at <= ?
+        ORDER BY scheduled_at, slug LIMIT ? FOR UPDATE`,
+      [toDateTimeValue(now), PUBLISH_BATCH_LIMIT]
+    );
+    const rows = candidateRows.filter((row) => isDueForPublish(row, now));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const slugs = rows.map((row) => String(row.slug));
+    await connection.query(
+      `UPDATE ${table}
+        SET is_published = 1, published_at = scheduled_at, scheduled_at = NULL, last_tidb_update_at = NOW(6)
+        WHERE slug IN (?)`,
+      [slugs]
+    );
+    const [reloadedRows] = await connection.query<RowDataPacket[]>(
+      `SELECT * FROM ${table} WHERE slug IN (?)`,
+      [slugs]
+    );
+    const reloadedBySlug = new Map(reloadedRows.map((row) => [String(row.slug), row]));
+
+    for (const existing of rows) {
+      const slug = String(existing.slug);
+      await recordRevision(connection, {
+        ...context,
+        entityType: 'post',
+        slug,
+        action: 'publish',
+        before: existing,
+        after: reloadedBySlug.get(slug) ?? null,
+      });
+    }
+
+    return rows.map((row) => ({
+      slug: String(row.slug),
+      category: (row.category_slug as string | null) ?? null,
+    }));
+  });
+
+  for (const post of published) {
+    await revalidateBlogPaths(post.slug, [post.category]);
+  }
+
+  return published;
+}
+
+function toDateTimeValue(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
@@ -0,0 +1,168 @@
+import 'server-only';
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+import { ensureTable } from './ddl';
+import { getTiDbPool } from './mysql';
+import { getPurgeHistoryTable } from './schema';
+
+export type PurgeHistoryMode = 'files' | 'tags' | 'prefixes' | 'hosts' | 'purge_everything';
+export type PurgeHistorySource = 'manual' | 'publish' | 'rerun' | 'queue';
+export type PurgeHistoryStatus = 'success' | 'error';
+
+export interface PurgeHistoryRecord {
+  id: string;
+  mode: PurgeHistoryMode;
+  source: PurgeHistorySource;
+  urls: string[];
+  ray_ids: string[];
+  status: PurgeHistoryStatus;
+  http_status: number | null;
+  latency_ms: number;
+  attempts: number;
+  actor: string | null;
+  error: string | null;
+  rerun_of: string | null;
+  created_at: string | null;
+}
+
+export interface PurgeHistoryInput {
+  mode: PurgeHistoryMode;
+  source: PurgeHistorySource;
+  urls: string[];
+  rayIds: string[];
+  ok: boolean;
+  httpStatus: number | null;
+  latencyMs: number;
+  attempts: number;
+  actor?: string | null;
+  error?: string | null;
+  rerunOf?: string | null;
+}
+
+export interface PurgeHistoryPage {
+  entries: PurgeHistoryRecord[];
+  next_cursor: string | null;
+}
+
+const ERROR_MAX_LENGTH = 2000;
+
+export class PurgeHistoryNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Purge history entry ${id} does not exist.`);
+    this.name = 'PurgeHistoryNotFoundError';
+  }
+}
+
+export function ensurePurgeHistoryTable(): Promise<void> {
+  return ensureTable(
+    getPurgeHistoryTable(),
+    `id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      mode VARCHAR(32) NOT NULL,
+      source VARCHAR(16) NOT NULL,
+      urls JSON NOT NULL,
+      ray_ids JSON NOT NULL,
+      status VARCHAR(16) NOT NULL,
+      http_status INT NULL,
+      latency_ms INT NOT NULL DEFAULT 0,
+      attempts INT NOT NULL DEFAULT 0,
+      actor VARCHAR(191) NULL,
+      error TEXT NULL,
+      rerun_of BIGINT NULL,
+      created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+      KEY idx_purge_history_mode (mode, id)`
+  );
+}
+
+export async function recordPurgeHistory(input: PurgeHistoryInput): Promise<string> {
+  await ensurePurgeHistoryTable();
+  const pool = getTiDbPool();
+  const table = getPurgeHistoryTable();
+  const [result] = await pool.execute<ResultSetHeader>(
+    `INSERT INTO ${table}
+      (mode, source, urls, ray_ids, status, http_status, latency_ms, attempts, actor, error, rerun_of)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      input.mode,
+      input.source,
+      JSON.stringify(Array.from(new Set(input.urls))),
+      JSON.stringify(input.rayIds),
+      input.ok ? 'success' : 'error',
+      input.httpStatus,
+      Math.round(input.latencyMs),
+      input.attempts,
+      input.actor ?? null,
+      input.error ? input.error.slice(0, ERROR_MAX_LENGTH) : null,
+      input.rerunOf ?? null,
+    ]
+  );
+  return String(result.insertId);
+}
+
+export async function listPurgeHistory(
+  options: { limit?: number; cursor?: string | null } = {}
+): Promise<PurgeHistoryPage> {
+  await ensurePurgeHistoryTable();
+  const pool = getTiDbPool();
+  const table = getPurgeHistoryTable();
+  const limit = options.limit ?? 20;
+  const cursor = options.cursor?.trim();
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    cursor
+      ? `SELECT * FROM ${table} WHERE id < ? ORDER BY id DESC LIMIT ?`
+      : `SELECT * FROM ${table} ORDER BY id DESC LIMIT ?`,
+    cursor ? [cursor, limit + 1] : [limit + 1]
+  );
+  const entries = rows.slice(0, limit).map(mapPurgeHistoryRow);
+  return {
+    entries,
+    next_cursor: rows.length > limit ? entries[entries.length - 1].id : null,
+  };
+}
+
+export async function fetchPurgeHistoryEntry(id: string): Promise<PurgeHistoryRecord> {
+  await ensurePurgeHistoryTable();
+  const pool = getTiDbPool();
+  const table = getPurgeHistoryTable();
+  const [rows] = await pool.query<RowDataPacket[]>(`SELECT * FROM ${table} WHERE id = ? LIMIT 1`, [id]);
+  const row = rows[0];
+  if (!row) {
+    throw new PurgeHistoryNotFoundError(id);
+  }
+  return mapPurgeHistoryRow(row);
+}
+
+export async function fetchLatestPurgeBatch(): Promise<PurgeHistoryRecord | null> {
+  await ensurePurgeHistoryTable();
+  const pool = getTiDbPool();
+  const table = getPurgeHistoryTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM ${table} WHERE mode = 'files' AND JSON_LENGTH(urls) > 0 ORDER BY id DESC LIMIT 1`
+  );
+  const row = rows[0];
+  return row ? mapPurgeHistoryRow(row) : null;
+}
+
+function mapPurgeHistoryRow(row: RowDataPacket): PurgeHistoryRecord {
+  return {
+    id: String(row.id),
+    mode: row.mode as PurgeHistoryMode,
+    source: row.source as PurgeHistorySource,
+    urls: readStringArray(row.urls),
+    ray_ids: readStringArray(row.ray_ids),
+    status: row.status as PurgeHistoryStatus,
+    http_status: row.http_status == null ? null : Number(row.http_status),
+    latency_ms: Number(row.latency_ms ?? 0),
+    attempts: Number(row.attempts ?? 0),
+    actor: (row.actor as string | null) ?? null,
+    error: (row.error as string | null) ?? null,
+    rerun_of: row.rerun_of == null ? null : String(row.rerun_of),
+    created_at: row.created_at instanceof Date ? row.created_at.toISOString() : ((row.created_at as string) ?? null),
+  };
+}
+
+function readStringArray(value: unknown): string[] {
+  const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -0,0 +1,371 @@
+import 'server-only';
+
+import { createHash, randomUUID } from 'crypto';
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+import { ensureTable } from './ddl';
+import { getTiDbPool, runInTransaction } from './mysql';
+import type { PurgeHistoryMode, PurgeHistorySource } from './purge-history';
+import { getPurgeQueueTable, getPurgeRateTable } from './schema';
+
+export type PurgeQueueMode = Exclude<PurgeHistoryMode, 'purge_everything'>;
+
+export interface PurgeQueueItem {
+  id: string;
+  zone_id: string;
+  mode: PurgeQueueMode;
+  target: string;
+  source: PurgeHistorySource;
+  actor: string | null;
+  attempts: number;
+  coalesced: number;
+}
+
+export interface PurgeQueueEnqueueInput {
+  zoneId: string;
+  mode: PurgeQueueMode;
+  targets: string[];
+  source: PurgeHistorySource;
+  actor?: string | null;
+  delayMs: number;
+}
+
+export interface PurgeQueueEnqueueResult {
+  queued: number;
+  coalesced: number;
+}
+
+export interface PurgeQueueBackoff {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface PurgeQueueFailureResult {
+  retried: number;
+  deadLettered: number;
+}
+
+export interface PurgeDeadLetterBatch {
+  batch_id: string;
+  zone_id: string;
+  mode: PurgeQueueMode;
+  targets: string[];
+  attempts: number;
+  last_error: string | null;
+  failed_at: string | null;
+}
+
+export interface PurgeQueueSummary {
+  pending: number;
+  dead: number;
+  next_attempt_at: string | null;
+  dead_letters: PurgeDeadLetterBatch[];
+}
+
+export interface PurgeRateReservation {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+const ERROR_MAX_LENGTH = 2000;
+const ENQUEUE_BATCH_SIZE = 200;
+const LEASE_MS = 120_000;
+const DEAD_LETTER_SCAN_LIMIT = 1000;
+
+export class PurgeDeadLetterNotFoundError extends Error {
+  constructor(public readonly batchId: string) {
+    super(`Dead-lettered purge batch ${batchId} does not exist.`);
+    this.name = 'PurgeDeadLetterNotFoundError';
+  }
+}
+
+export async function ensurePurgeQueueTables(): Promise<void> {
+  await Promise.all([
+    ensureTable(
+      getPurgeQueueTable(),
+      `id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        zone_id VARCHAR(64) NOT NULL,
+        mode VARCHAR(16) NOT NULL,
+        target TEXT NOT NULL,
+        target_hash CHAR(64) NOT NULL,
+        pending_key CHAR(64) NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        source VARCHAR(16) NOT NULL,
+        actor VARCHAR(191) NULL,
+        attempts INT NOT NULL DEFAULT 0,
+        coalesced INT NOT NULL DEFAULT 0,
+        next_attempt_at DATETIME(6) NOT NULL,
+        lease_token CHAR(36) NULL,
+        lease_until DATETIME(6) NULL,
+        last_error TEXT NULL,
+        batch_id CHAR(36) NULL,
+        created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6),
+        UNIQUE KEY uniq_purge_queue_pending (zone_id, pending_key),
+        KEY idx_purge_queue_due (zone_id, status, next_attempt_at),
+        KEY idx_purge_queue_batch (batch_id)`
+    ),
+    ensureTable(
+      getPurgeRateTable(),
+      `zone_id VARCHAR(64) NOT NULL PRIMARY KEY,
+        window_started_at DATETIME(6) NOT NULL,
+        request_count INT NOT NULL DEFAULT 0`
+    ),
+  ]);
+}
+
+export async function enqueuePurgeTargets(input: PurgeQueueEnqueueInput): Promise<PurgeQueueEnqueueResult> {
+  const targets = Array.from(new Set(input.targets));
+  if (targets.length === 0) {
+    return { queued: 0, coalesced: 0 };
+  }
+
+  await ensurePurgeQueueTables();
+  const pool = getTiDbPool();
+  const table = getPurgeQueueTable();
+  let coalesced = 0;
+
+  for (let i = 0; i < targets.length; i += ENQUEUE_BATCH_SIZE) {
+    const batch = targets.slice(i, i + ENQUEUE_BATCH_SIZE);
+    const values = batch.flatMap((target) => {
+      const hash = hashTarget(input.mode, target);
+      return [input.zoneId, input.mode, target, hash, hash, input.source, input.actor ?? null, input.delayMs * 1000];
+    });
+    const [result] = await pool.query<ResultSetHeader>(
+      `INSERT INTO ${table}
+        (zone_id, mode, target, target_hash, pending_key, source, actor, next_attempt_at)
+        VALUES ${batch.map(() => '(?, ?, ?, ?, ?, ?, ?, DATE_ADD(NOW(6), INTERVAL ? MICROSECOND))').join(', ')}
+        ON DUPLICATE KEY UPDATE coalesced = coalesced + 1`,
+      values
+    );
+    coalesced += result.affectedRows - batch.length;
+  }
+
+  return { queued: targets.length - coalesced, coalesced };
+}
+
+export async function claimDuePurgeItems(zoneId: string, limit: number): Promise<PurgeQueueItem[]> {
+  await ensurePurgeQueueTables();
+  const pool = getTiDbPool();
+  const table = getPurgeQueueTable();
+  const token = randomUUID();
+
+  await pool.query(
+    `UPDATE ${table}
+      SET lease_token = ?, lease_until = DATE_ADD(NOW(6), INTERVAL ? MICROSECOND), pending_key = NULL
+      WHERE zone_id = ? AND status = 'pending' AND next_attempt_at <= NOW(6)
+        AND (lease_until IS NULL OR lease_until < NOW(6))
+      ORDER BY next_attempt_at, id
+      LIMIT ?`,
+    [token, LEASE_MS * 1000, zoneId, limit]
+  );
+  const [rows] = await pool.query<RowDataPacket[]>(`SELECT * FROM ${table} WHERE lease_token = ? ORDER BY id`, [
+    token,
+  ]);
+  return rows.map(mapPurgeQueueRow);
+}
+
+export async function completePurgeItems(ids: string[]): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+  const table = getPurgeQueueTable();
+  await getTiDbPool().query(`DELETE FROM ${table} WHERE id IN (?)`, [ids]);
+}
+
+export async function releasePurgeItems(ids: string[], delayMs: number): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+  const table = getPurgeQueueTable();
+  await runInTransaction(async (connection) => {
+    await deleteCoveredItems(connection, ids);
+    await connection.query(
+      `UPDATE ${table}
+        SET next_attempt_at = DATE_ADD(NOW(6), INTERVAL ? MICROSECOND),
+          pending_key = target_hash, lease_token = NULL, lease_until = NULL
+        WHERE id IN (?)`,
+      [delayMs * 1000, ids]
+    );
+  });
+}
+
+export async function failPurgeItems(
+  ids: string[],
+  error: string,
+  backoff: PurgeQueueBackoff
+): Promise<PurgeQueueFailureResult> {
+  if (ids.length === 0) {
+    return { retried: 0, deadLettered: 0 };
+  }
+  const table = getPurgeQueueTable();
+  return runInTransaction(async (connection) => {
+    await deleteCoveredItems(connection, ids);
+    const [failed] = await connection.query<ResultSetHeader>(
+      `UPDATE ${table}
+        SET next_attempt_at = DATE_ADD(NOW(6), INTERVAL FLOOR(LEAST(? * POW(2, attempts), ?)) MICROSECOND),
+          attempts = attempts + 1, last_error = ?, pending_key = target_hash, lease_token = NULL, lease_until = NULL
+        WHERE id IN (?)`,
+      [backoff.baseDelayMs * 1000, backoff.maxDelayMs * 1000, error.slice(0, ERROR_MAX_LENGTH), ids]
+    );
+    const [dead] = await connection.query<ResultSetHeader>(
+      `UPDATE ${table}
+        SET status = 'dead', pending_key = NULL, batch_id = ?
+        WHERE id IN (?) AND attempts >= ?`,
+      [randomUUID(), ids, backoff.maxAttempts]
+    );
+    return { retried: failed.affectedRows - dead.affectedRows, deadLettered: dead.affectedRows };
+  });
+}
+
+export async function replayDeadLetterBatch(batchId: string): Promise<number> {
+  await ensurePurgeQueueTables();
+  const table = getPurgeQueueTable();
+  return runInTransaction(async (connection) => {
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT id FROM ${table} WHERE batch_id = ? AND status = 'dead' FOR UPDATE`,
+      [batchId]
+    );
+    const ids = rows.map((row) => String(row.id));
+    if (ids.length === 0) {
+      throw new PurgeDeadLetterNotFoundError(batchId);
+    }
+
+    await deleteCoveredItems(connection, ids);
+    await connection.query(
+      `UPDATE ${table}
+        SET status = 'pending', attempts = 0, next_attempt_at = NOW(6), pending_key = target_hash,
+          batch_id = NULL, last_error = NULL
+        WHERE id IN (?)`,
+      [ids]
+    );
+    return ids.length;
+  });
+}
+
+export async function fetchPurgeQueueSummary(options: { limit?: number } = {}): Promise<PurgeQueueSummary> {
+  await ensurePurgeQueueTables();
+  const pool = getTiDbPool();
+  const table = getPurgeQueueTable();
+  const limit = options.limit ?? 10;
+
+  const [counts] = await pool.query<RowDataPacket[]>(
+    `SELECT status, COUNT(*) AS total, MIN(next_attempt_at) AS next_attempt_at FROM ${table} GROUP BY status`
+  );
+  const pending = counts.find((row) => row.status === 'pending');
+  const dead = counts.find((row) => row.status === 'dead');
+
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM ${table} WHERE status = 'dead' ORDER BY updated_at DESC, id DESC LIMIT ?`,
+    [DEAD_LETTER_SCAN_LIMIT]
+  );
+  const batches = new Map<string, PurgeDeadLetterBatch>();
+  for (const row of rows) {
+    const batchId = String(row.batch_id);
+    const existing = batches.get(batchId);
+    if (existing) {
+      existing.targets.push(String(row.target));
+      existing.attempts = Math.max(existing.attempts, Number(row.attempts ?? 0));
+      continue;
+    }
+    if (batches.size >= limit) {
+      continue;
+    }
+    batches.set(batchId, {
+      batch_id: batchId,
+      zone_id: String(row.zone_id),
+      mode: row.mode as PurgeQueueMode,
+      targets: [String(row.target)],
+      attempts: Number(row.attempts ?? 0),
+      last_error: (row.last_error as string | null) ?? null,
+      failed_at: formatTimestamp(row.updated_at),
+    });
+  }
+
+  return {
+    pending: Number(pending?.total ?? 0),
+    dead: Number(dead?.total ?? 0),
+    next_attempt_at: formatTimestamp(pending?.next_attempt_at),
+    dead_letters: Array.from(batches.values()),
+  };
+}
+
+export async function reservePurgeRequest(
+  zoneId: string,
+  limit: number,
+  windowMs: number
+): Promise<PurgeRateReservation> {
+  await ensurePurgeQueueTables();
+  const table = getPurgeRateTable();
+  return runInTransaction(async (connection) => {
+    await connection.query(
+      `INSERT IGNORE INTO ${table} (zone_id, window_started_at, request_count) VALUES (?, NOW(6), 0)`,
+      [zoneId]
+    );
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT request_count, TIMESTAMPDIFF(MICROSECOND, window_started_at, NOW(6)) AS elapsed_us
+        FROM ${table} WHERE zone_id = ? FOR UPDATE`,
+      [zoneId]
+    );
+    const elapsedMs = Number(rows[0]?.elapsed_us ?? 0) / 1000;
+    const count = Number(rows[0]?.request_count ?? 0);
+
+    if (elapsedMs >= windowMs) {
+      await connection.query(
+        `UPDATE ${table} SET window_started_at = NOW(6), request_count = 1 WHERE zone_id = ?`,
+        [zoneId]
+      );
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    if (count >= limit) {
+      return { allowed: false, retryAfterMs: Math.ceil(windowMs - elapsedMs) };
+    }
+    await connection.query(`UPDATE ${table} SET request_count = request_count + 1 WHERE zone_id = ?`, [zoneId]);
+    return { allowed: true, retryAfterMs: 0 };
+  });
+}
+
+export async function exhaustPurgeRateWindow(zoneId: string, limit: number): Promise<void> {
+  await ensurePurgeQueueTables();
+  const table = getPurgeRateTable();
+  await getTiDbPool().query(
+    `INSERT INTO ${table} (zone_id, window_started_at, request_count) VALUES (?, NOW(6), ?)
+      ON DUPLICATE KEY UPDATE window_started_at = NOW(6), request_count = VALUES(request_count)`,
+    [zoneId, limit]
+  );
+}
+
+async function deleteCoveredItems(connection: PoolConnection, ids: string[]): Promise<void> {
+  const table = getPurgeQueueTable();
+  await connection.query(
+    `DELETE item FROM ${table} AS item
+      JOIN ${table} AS pending ON pending.zone_id = item.zone_id AND pending.pending_key = item.target_hash
+      WHERE item.id IN (?) AND pending.id <> item.id`,
+    [ids]
+  );
+}
+
+function hashTarget(mode: PurgeQueueMode, target: string): string {
+  return createHash('sha256').update(`${mode}:${target}`).digest('hex');
+}
+
+function mapPurgeQueueRow(row: RowDataPacket): PurgeQueueItem {
+  return {
+    id: String(row.id),
+    zone_id: String(row.zone_id),
+    mode: row.mode as PurgeQueueMode,
+    target: String(row.target),
+    source: row.source as PurgeHistorySource,
+    actor: (row.actor as string | null) ?? null,
+    attempts: Number(row.attempts ?? 0),
+    coalesced: Number(row.coalesced ?? 0),
+  };
+}
+
+function formatTimestamp(value: unknown): string | null {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'string' ? value : null;
+}
@@ -0,0 +1,423 @@
+import 'server-only';
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+import { ensureTable } from './ddl';
+import { getTiDbPool, runInTransaction } from './mysql';
+import type { RevisionEntityType, WriteContext } from './revisions';
+import { getRedirectsTable } from './schema';
+import { FieldValidationError, type FieldErrors } from './validation';
+
+export const REDIRECT_STATUS_CODES = [301, 302] as const;
+
+export type RedirectStatusCode = (typeof REDIRECT_STATUS_CODES)[number];
+
+export interface RedirectRule {
+  source_path: string;
+  target_path: string;
+  status_code: number;
+  expires_at?: string | null;
+}
+
+export interface RedirectRecord extends RedirectRule {
+  id: string;
+  expires_at: string | null;
+  expired: boolean;
+  entity_type: RevisionEntityType | null;
+  created_by: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface RedirectInput {
+  source_path?: unknown;
+  target_path?: unknown;
+  status_code?: unknown;
+  expires_at?: unknown;
+}
+
+export interface RedirectWriteResult {
+  redirect: RedirectRecord;
+  flattened: number;
+}
+
+export interface SlugRedirectInput {
+  entityType: RevisionEntityType;
+  fromSlug: string;
+  toSlug: string;
+  author?: string | null;
+}
+
+const SOURCE_MAX_LENGTH = 512;
+const TARGET_MAX_LENGTH = 2048;
+const RESERVED_PREFIXES = ['/admin', '/api/', '/_next/'];
+const ACTIVE_CONDITION = '(expires_at IS NULL OR expires_at > UTC_TIMESTAMP(6))';
+
+export class RedirectNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Redirect ${id} does not exist.`);
+    this.name = 'RedirectNotFoundError';
+  }
+}
+
+export class RedirectExistsError extends Error {
+  constructor(public readonly sourcePath: string) {
+    super(`A redirect from ${sourcePath} already exists.`);
+    this.name = 'RedirectExistsError';
+  }
+}
+
+export class RedirectLoopError extends Error {
+  constructor(public readonly chain: string[]) {
+    super(`Redirect loop: ${chain.join(' → ')}`);
+    this.name = 'RedirectLoopError';
+  }
+}
+
+export class RedirectChainError extends Error {
+  constructor(public readonly chain: string[]) {
+    super(`Redirect chain: ${chain.join(' → ')}. Point the redirect to ${chain[chain.length - 1]} instead.`);
+    this.name = 'RedirectChainError';
+  }
+}
+
+export function ensureRedirectsTable(): Promise<void> {
+  return ensureTable(
+    getRedirectsTable(),
+    `id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      source_path VARCHAR(512) NOT NULL,
+      target_path VARCHAR(2048) NOT NULL,
+      status_code SMALLINT NOT NULL DEFAULT 301,
+      expires_at DATETIME(6) NULL,
+      entity_type VARCHAR(16) NULL,
+      created_by VARCHAR(191) NULL,
+      created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+      updated_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+      UNIQUE KEY uniq_redirects_source (source_path)`
+  );
+}
+
+export function buildEntityPath(entityType: RevisionEntityType, slug: string): string {
+  return `${entityType === 'product' ? '/p' : '/b'}/${slug}`;
+}
+
+export async function recordSlugRedirect(connection: PoolConnection, input: SlugRedirectInput): Promise<RedirectRule> {
+  const table = getRedirectsTable();
+  const sourcePath = buildEntityPath(input.entityType, input.fromSlug);
+  const targetPath = buildEntityPath(input.entityType, input.toSlug);
+
+  await connection.execute(`DELETE FROM ${table} WHERE source_path = ?`, [targetPath]);
+  await connection.execute(`UPDATE ${table} SET target_path = ?, updated_at = NOW(6) WHERE target_path = ?`, [
+    targetPath,
+    sourcePath,
+  ]);
+  await connection.execute(
+    `INSERT INTO ${table} (source_path, target_path, status_code, entity_type, created_by) VALUES (?, ?, 301, ?, ?)
+      ON DUPLICATE KEY UPDATE target_path = VALUES(target_path), status_code = VALUES(status_code),
+        expires_at = NULL, entity_type = VALUES(entity_type), created_by = VALUES(created_by), updated_at = NOW(6)`,
+    [sourcePath, targetPath, input.entityType, input.author ?? null]
+  );
+
+  return { source_path: sourcePath, target_path: targetPath, status_code: 301 };
+}
+
+export async function clearRedirectSource(connection: PoolConnection, entityType: RevisionEntityType, slug: string) {
+  const table = getRedirectsTable();
+  await connection.execute(`DELETE FROM ${table} WHERE source_path = ?`, [buildEntityPath(entityType, slug)]);
+}
+
+export async function clearRedirectTarget(
+  connection: PoolConnection,
+  entityType: RevisionEntityType,
+  slug: string
+): Promise<number> {
+  const table = getRedirectsTable();
+  const [result] = await connection.execute<ResultSetHeader>(`DELETE FROM ${table} WHERE target_path = ?`, [
+    buildEntityPath(entityType, slug),
+  ]);
+  return Number(result.affectedRows ?? 0);
+}
+
+export async function listActiveRedirects(): Promise<RedirectRule[]> {
+  await ensureRedirectsTable();
+  const pool = getTiDbPool();
+  const table = getRedirectsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT source_path, target_path, status_code, expires_at FROM ${table} WHERE ${ACTIVE_CONDITION}
+      ORDER BY source_path`
+  );
+  return rows.map((row) => ({
+    source_path: String(row.source_path),
+    target_path: String(row.target_path),
+    status_code: Number(row.status_code),
+    expires_at: toIsoString(row.expires_at),
+  }));
+}
+
+export async function listRedirects(): Promise<RedirectRecord[]> {
+  await ensureRedirectsTable();
+  const pool = getTiDbPool();
+  const table = getRedirectsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT *, NOT ${ACTIVE_CONDITION} AS expired FROM ${table} ORDER BY source_path`
+  );
+  return rows.map(mapRedirectRow);
+}
+
+export async function createRedirect(input: RedirectInput, context: WriteContext = {}): Promise<RedirectWriteResult> {
+  const normalized = normalizeRedirectInput(input);
+  await ensureRedirectsTable();
+
+  return runInTransaction(async (connection) => {
+    const table = getRedirectsTable();
+    const [existingRows] = await connection.query<RowDataPacket[]>(
+      `SELECT id FROM ${table} WHERE source_path = ? LIMIT 1 FOR UPDATE`,
+      [normalized.sourcePath]
+    );
+    if (existingRows[0]) {
+      throw new RedirectExistsError(normalized.sourcePath);
+    }
+
+    await assertNoChain(connection, normalized.sourcePath, normalized.targetPath, null);
+    const flattened = await flattenIncoming(connection, normalized, null);
+
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO ${table} (source_path, target_path, status_code, expires_at, created_by) VALUES (?, ?, ?, ?, ?)`,
+      [
+        normalized.sourcePath,
+        normalized.targetPath,
+        normalized.statusCode,
+        normalized.expiresAt,
+        context.author ?? null,
+      ]
+    );
+    return { redirect: await loadRedirect(connection, String(result.insertId)), flattened };
+  });
+}
+
+export async function updateRedirect(
+  id: string,
+  input: RedirectInput,
+  context: WriteContext = {}
+): Promise<RedirectWriteResult> {
+  const normalized = normalizeRedirectInput(input);
+  await ensureRedirectsTable();
+
+  return runInTransaction(async (connection) => {
+    const table = getRedirectsTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT id FROM ${table} WHERE id = ? OR source_path = ? FOR UPDATE`,
+      [id, normalized.sourcePath]
+    );
+    if (!rows.some((row) => String(row.id) === id)) {
+      throw new RedirectNotFoundError(id);
+    }
+    if (rows.some((row) => String(row.id) !== id)) {
+      throw new RedirectExistsError(normalized.sourcePath);
+    }
+
+    await assertNoChain(connection, normalized.sourcePath, normalized.targetPath, id);
+    const flattened = await flattenIncoming(connection, normalized, id);
+
+    await connection.execute(
+      `UPDATE ${table} SET source_path = ?, target_path = ?, status_code = ?, expires_at = ?, created_by = ?,
+        updated_at = NOW(6) WHERE id = ?`,
+      [
+        normalized.sourcePath,
+        normalized.targetPath,
+        normalized.statusCode,
+        normalized.expiresAt,
+        context.author ?? null,
+        id,
+      ]
+    );
+    return { redirect: await loadRedirect(connection, id), flattened };
+  });
+}
+
+export async function deleteRedirect(id: string): Promise<RedirectRecord | null> {
+  await ensureRedirectsTable();
+
+  return runInTransaction(async (connection) => {
+    const table = getRedirectsTable();
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT *, NOT ${ACTIVE_CONDITION} AS expired FROM ${table} WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id]
+    );
+    const existing = rows[0];
+    if (!existing) {
+      return null;
+    }
+    await connection.execute(`DELETE FROM ${table} WHERE id = ?`, [id]);
+    return mapRedirectRow(existing);
+  });
+}
+
+interface NormalizedRedirect {
+  sourcePath: string;
+  targetPath: string;
+  statusCode: RedirectStatusCode;
+  expiresAt: string | null;
+}
+
+function normalizeRedirectInput(input: RedirectInput): NormalizedRedirect {
+  const errors: FieldErrors = {};
+
+  const source = typeof input.source_path === 'string' ? normalizePath(input.source_path) : '';
+  if (!source) {
+    errors.source_path = 'Field source_path is required and must start with /.';
+  } else if (source.length > SOURCE_MAX_LENGTH) {
+    errors.source_path = `Field source_path exceeds maximum length of ${SOURCE_MAX_LENGTH} characters.`;
+  } else if (!/^\/[^\s?#]*$/.test(source) || source.startsWith('//')) {
+    errors.source_path = 'Field source_path must be a path without query string or fragment.';
+  } else if (RESERVED_PREFIXES.some((prefix) => source === prefix.replace(/\/$/, '') || source.startsWith(prefix))) {
+    errors.source_path = 'Field source_path cannot point to /admin, /api or /_next.';
+  }
+
+  const rawTarget = typeof input.target_path === 'string' ? input.target_path.trim() : '';
+  let target = '';
+  if (!rawTarget) {
+    errors.target_path = 'Field target_path is required.';
+  } else if (rawTarget.length > TARGET_MAX_LENGTH) {
+    errors.target_path = `Field target_path exceeds maximum length of ${TARGET_MAX_LENGTH} characters.`;
+  } else if (rawTarget.startsWith('/') && !rawTarget.startsWith('//')) {
+    target = /^\/[^\s]*$/.test(rawTarget) ? rawTarget : '';
+    if (!target) {
+      errors.target_path = 'Field target_path must not contain spaces.';
+    }
+  } else {
+    try {
+      const url = new URL(rawTarget);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error('unsupported protocol');
+      }
+      target = url.toString();
+    } catch (_error) {
+      errors.target_path = 'Field target_path must be a path starting with / or an http(s) URL.';
+    }
+  }
+  if (source && target && normalizePath(target.split(/[?#]/)[0]) === source) {
+    errors.target_path = 'Field target_path cannot be the same as source_path.';
+  }
+
+  const statusCode = input.status_code == null || input.status_code === '' ? 301 : Number(input.status_code);
+  if (!REDIRECT_STATUS_CODES.includes(statusCode as RedirectStatusCode)) {
+    errors.status_code = 'Field status_code must be 301 or 302.';
+  }
+
+  let expiresAt: string | null = null;
+  if (input.expires_at != null && input.expires_at !== '') {
+    const date = typeof input.expires_at === 'string' ? new Date(input.expires_at) : new Date(NaN);
+    if (Number.isNaN(date.getTime())) {
+      errors.expires_at = 'Field expires_at must be an ISO date string.';
+    } else if (date.getTime() <= Date.now()) {
+      errors.expires_at = 'Field expires_at must be in the future.';
+    } else {
+      expiresAt = date.toISOString().slice(0, 23).replace('T', ' ');
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new FieldValidationError(errors);
+  }
+
+  return { sourcePath: source, targetPath: target, statusCode: statusCode as RedirectStatusCode, expiresAt };
+}
+
+async function assertNoChain(
+  connection: PoolConnection,
+  sourcePath: string,
+  targetPath: string,
+  currentId: string | null
+) {
+  const rules = await loadActiveRuleMap(connection, currentId);
+  const chain = [sourcePath, targetPath];
+  let next = rules.get(toLocalPath(targetPath) ?? '');
+  while (next) {
+    if (next === sourcePath || chain.includes(next)) {
+      throw new RedirectLoopError([...chain, next]);
+    }
+    chain.push(next);
+    next = rules.get(toLocalPath(next) ?? '');
+  }
+  if (chain.length > 2) {
+    throw new RedirectChainError(chain);
+  }
+}
+
+async function flattenIncoming(connection: PoolConnection, redirect: NormalizedRedirect, currentId: string | null) {
+  const table = getRedirectsTable();
+  if (redirect.expiresAt !== null) {
+    const [incoming] = await connection.query<RowDataPacket[]>(
+      `SELECT source_path FROM ${table} WHERE target_path = ? AND id <> ? AND ${ACTIVE_CONDITION} LIMIT 1`,
+      [redirect.sourcePath, currentId ?? 0]
+    );
+    if (incoming[0]) {
+      throw new RedirectChainError([String(incoming[0].source_path), redirect.sourcePath, redirect.targetPath]);
+    }
+    return 0;
+  }
+  const [result] = await connection.execute<ResultSetHeader>(
+    `UPDATE ${table} SET target_path = ?, updated_at = NOW(6) WHERE target_path = ? AND id <> ?`,
+    [redirect.targetPath, redirect.sourcePath, currentId ?? 0]
+  );
+  return Number(result.affectedRows ?? 0);
+}
+
+async function loadActiveRuleMap(connection: PoolConnection, excludeId: string | null): Promise<Map<string, string>> {
+  const table = getRedirectsTable();
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT source_path, target_path FROM ${table} WHERE ${ACTIVE_CONDITION} AND id <> ?`,
+    [excludeId ?? 0]
+  );
+  return new Map(rows.map((row) => [String(row.source_path), String(row.target_path)]));
+}
+
+async function loadRedirect(connection: PoolConnection, id: string): Promise<RedirectRecord> {
+  const table = getRedirectsTable();
+  const [rows] = await connection.query<RowDataPacket[]>(
+    `SELECT *, NOT ${ACTIVE_CONDITION} AS expired FROM ${table} WHERE id = ? LIMIT 1`,
+    [id]
+  );
+  return mapRedirectRow(rows[0]);
+}
+
+function toLocalPath(target: string): string | null {
+  if (target.startsWith('/')) {
+    return normalizePath(target.split(/[?#]/)[0]);
+  }
+  return null;
+}
+
+function normalizePath(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('/')) {
+    return '';
+  }
+  return trimmed.length > 1 ? trimmed.replace(/\/+$/, '') : trimmed;
+}
+
+function mapRedirectRow(row: RowDataPacket): RedirectRecord {
+  return {
+    id: String(row.id),
+    source_path: String(row.source_path),
+    target_path: String(row.target_path),
+    status_code: Number(row.status_code),
+    expires_at: toIsoString(row.expires_at),
+    expired: Boolean(Number(row.expired ?? 0)),
+    entity_type: (row.entity_type as RevisionEntityType | null) ?? null,
+    created_by: (row.created_by as string | null) ?? null,
+    created_at: toIsoString(row.created_at),
+    updated_at: toIsoString(row.updated_at),
+  };
+}
+
+function toIsoString(value: unknown): string | null {
+  if (value == null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
@@ -0,0 +1,95 @@
+import 'server-only';
+
+import { getBlogFieldDefinitions, updateBlogPost } from './posts';
+import { PRODUCT_WRITE_FIELDS, updateProduct } from './products';
+import {
+  RESTORABLE_ACTIONS,
+  RevisionNotFoundError,
+  RevisionNotRestorableError,
+  fetchRevision,
+  type RevisionRecord,
+  type WriteContext,
+} from './revisions';
+
+export interface RevisionRestoreResult {
+  revision: RevisionRecord;
+  found: boolean;
+  rowsAffected: number;
+  record: Record<string, unknown> | null;
+  previousCategory: string | null;
+}
+
+export async function restoreRevision(id: string, context: WriteContext = {}): Promise<RevisionRestoreResult> {
+  const revision = await fetchRevision(id);
+  if (!revision) {
+    throw new RevisionNotFoundError(id);
+  }
+  if (!RESTORABLE_ACTIONS.includes(revision.action)) {
+    throw new RevisionNotRestorableError(revision.id, revision.action);
+  }
+
+  const restoreContext: WriteContext = { ...context, action: 'restore', restoredFrom: revision.id };
+
+  if (revision.entity_type === 'product') {
+    const payload = buildProductPayload(revision);
+    const result = await updateProduct({ slug: revision.entity_slug, ...payload }, restoreContext);
+    return {
+      revision,
+      found: result.found,
+      rowsAffected: result.rowsAffected,
+      record: result.found ? result.product : null,
+      previousCategory: result.previousCategory ?? null,
+    };
+  }
+
+  const payload = buildPostPayload(revision);
+  const result = await updateBlogPost(revision.entity_slug, payload, restoreContext);
+  return {
+    revision,
+    found: Boolean(result.post),
+    rowsAffected: result.rowsAffected,
+    record: result.post,
+    previousCategory: result.previousCategory,
+  };
+}
+
+function buildProductPayload(revision: RevisionRecord): Record<string, unknown> {
+  const writable = new Set<string>(PRODUCT_WRITE_FIELDS);
+  const payload: Record<string, unknown> = {};
+  for (const change of revision.changes) {
+    if (!writable.has(change.field)) {
+      continue;
+    }
+    let value = change.before;
+    if (change.field === 'gallery_image_urls' && typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch (_error) {
+        value = [value];
+      }
+    }
+    payload[change.field] = value;
+  }
+  return assertRestorable(revision, payload);
+}
+
+function buildPostPayload(revision: RevisionRecord): Record<string, unknown> {
+  const fields = new Map(getBlogFieldDefinitions().map((field) => [field.name as string, field]));
+  const payload: Record<string, unknown> = {};
+  for (const change of revision.changes) {
+    const field = fields.get(change.field);
+    if (!field) {
+      continue;
+    }
+    payload[change.field] =
+      field.type === 'boolean' && change.before != null ? Boolean(Number(change.before)) : change.before;
+  }
+  return assertRestorable(revision, payload);
+}
+
+function assertRestorable(revision: RevisionRecord, payload: Record<string, unknown>) {
+  if (Object.keys(payload).length === 0) {
+    throw new RevisionNotRestorableError(revision.id, revision.action);
+  }
+  return payload;
+}
@@ -0,0 +1,207 @@
+import 'server-only';
+
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+
+import { ensureTable } from './ddl';
+import { getTiDbPool } from './mysql';
+import { getRevisionsTable } from './schema';
+
+export type RevisionEntityType = 'product' | 'post';
+export type RevisionAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'publish'
+  | 'unpublish'
+  | 'import'
+  | 'restore'
+  | 'rename';
+
+export interface RevisionChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RevisionRecord {
+  id: string;
+  entity_type: RevisionEntityType;
+  entity_slug: string;
+  action: RevisionAction;
+  changes: RevisionChange[];
+  author: string | null;
+  restored_from: string | null;
+  created_at: string | null;
+}
+
+export interface WriteContext {
+  author?: string | null;
+  action?: RevisionAction;
+  restoredFrom?: string | null;
+  expectedUpdatedAt?: string | null;
+}
+
+export interface RevisionInput extends WriteContext {
+  entityType: RevisionEntityType;
+  slug: string;
+  action: RevisionAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+const IGNORED_FIELDS = new Set(['last_tidb_update_at']);
+
+export const RESTORABLE_ACTIONS: RevisionAction[] = ['update', 'publish', 'unpublish', 'import', 'restore'];
+
+export class RevisionNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Revision ${id} does not exist.`);
+    this.name = 'RevisionNotFoundError';
+  }
+}
+
+export class RevisionNotRestorableError extends Error {
+  constructor(public readonly id: string, public readonly action: RevisionAction) {
+    super(`Revision ${id} (${action}) has no restorable fields.`);
+    this.name = 'RevisionNotRestorableError';
+  }
+}
+
+export function ensureRevisionsTable(): Promise<void> {
+  return ensureTable(
+    getRevisionsTable(),
+    `id BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      entity_type VARCHAR(16) NOT NULL,
+      entity_slug VARCHAR(191) NOT NULL,
+      action VARCHAR(16) NOT NULL,
+      changes JSON NOT NULL,
+      author VARCHAR(191) NULL,
+      restored_from BIGINT NULL,
+      created_at DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+      KEY idx_revisions_entity (entity_type, entity_slug, created_at)`
+  );
+}
+
+export function diffRows(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): RevisionChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: RevisionChange[] = [];
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const previous = normalizeRevisionValue(before?.[field]);
+    const next = normalizeRevisionValue(after?.[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      continue;
+    }
+    changes.push({ field, before: previous, after: next });
+  }
+  return changes;
+}
+
+export async function recordRevision(connection: PoolConnection, input: RevisionInput): Promise<string | null> {
+  const changes = diffRows(input.before, input.after);
+  if (changes.length === 0) {
+    return null;
+  }
+  return insertRevision(connection, input.entityType, input.slug, input.action, changes, input);
+}
+
+export async function recordFieldRevisions(
+  connection: PoolConnection,
+  entityType: RevisionEntityType,
+  slugs: string[],
+  change: RevisionChange,
+  context: WriteContext = {}
+) {
+  for (const slug of slugs) {
+    await insertRevision(connection, entityType, slug, 'update', [change], context);
+  }
+}
+
+export async function moveRevisions(
+  connection: PoolConnection,
+  entityType: RevisionEntityType,
+  fromSlug: string,
+  toSlug: string
+) {
+  const table = getRevisionsTable();
+  await connection.execute(`UPDATE ${table} SET entity_slug = ? WHERE entity_type = ? AND entity_slug = ?`, [
+    toSlug,
+    entityType,
+    fromSlug,
+  ]);
+}
+
+export async function listRevisions(
+  entityType: RevisionEntityType,
+  slug: string,
+  limit = 50
+): Promise<RevisionRecord[]> {
+  await ensureRevisionsTable();
+  const pool = getTiDbPool();
+  const table = getRevisionsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM ${table} WHERE entity_type = ? AND entity_slug = ? ORDER BY created_at DESC, id DESC LIMIT ?`,
+    [entityType, slug.trim(), limit]
+  );
+  return rows.map(mapRevisionRow);
+}
+
+export async function fetchRevision(id: string): Promise<RevisionRecord | null> {
+  await ensureRevisionsTable();
+  const pool = getTiDbPool();
+  const table = getRevisionsTable();
+  const [rows] = await pool.query<RowDataPacket[]>(`SELECT * FROM ${table} WHERE id = ? LIMIT 1`, [id]);
+  const row = rows[0];
+  return row ? mapRevisionRow(row) : null;
+}
+
+async function insertRevision(
+  connection: PoolConnection,
+  entityType: RevisionEntityType,
+  slug: string,
+  action: RevisionAction,
+  changes: RevisionChange[],
+  context: WriteContext
+): Promise<string> {
+  const table = getRevisionsTable();
+  const [result] = await connection.execute<ResultSetHeader>(
+    `INSERT INTO ${table} (entity_type, entity_slug, action, changes, author, restored_from) VALUES (?, ?, ?, ?, ?, ?)`,
+    [entityType, slug, action, JSON.stringify(changes), context.author ?? null, context.restoredFrom ?? null]
+  );
+  return String(result.insertId);
+}
+
+function mapRevisionRow(row: RowDataPacket): RevisionRecord {
+  const rawChanges = typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes;
+  return {
+    id: String(row.id),
+    entity_type: row.entity_type as RevisionEntityType,
+    entity_slug: String(row.entity_slug),
+    action: row.action as RevisionAction,
+    changes: Array.isArray(rawChanges) ? (rawChanges as RevisionChange[]) : [],
+    author: (row.author as string | null) ?? null,
+    restored_from: row.restored_from == null ? null : String(row.restored_from),
+    created_at: normalizeRevisionValue(row.created_at) as string | null,
+  };
+}
+
+function normalizeRevisionValue(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('utf8');
+  }
+  return value;
+}
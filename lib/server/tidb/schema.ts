@@ -17,6 +17,31 @@ export function getCategoriesTable(): string {
   return quoteIdentifier(override ?? 'categories');
 }
 
+export function getRevisionsTable(): string {
+  const override = readEnv('TIDB_REVISIONS_TABLE');
+  return quoteIdentifier(override ?? 'content_revisions');
+}
+
+export function getRedirectsTable(): string {
+  const override = readEnv('TIDB_REDIRECTS_TABLE');
+  return quoteIdentifier(override ?? 'redirects');
+}
+
+export function getPurgeHistoryTable(): string {
+  const override = readEnv('TIDB_PURGE_HISTORY_TABLE');
+  return quoteIdentifier(override ?? 'cloudflare_purge_history');
+}
+
+export function getPurgeQueueTable(): string {
+  const override = readEnv('TIDB_PURGE_QUEUE_TABLE');
+  return quoteIdentifier(override ?? 'cloudflare_purge_queue');
+}
+
+export function getPurgeRateTable(): string {
+  const override = readEnv('TIDB_PURGE_RATE_TABLE');
+  return quoteIdentifier(override ?? 'cloudflare_purge_rate');
+}
+
 function quoteIdentifier(value: string): string {
   const parts = value
     .split('.')
@@ -0,0 +1,286 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import { formatCsvRow } from '@/lib/server/csv';
+
+import { getTiDbPool } from './mysql';
+import { ensureProductColumns } from './products';
+import { getPostsTable, getProductsTable } from './schema';
+
+export type SeoAuditEntityType = 'product' | 'post';
+export type SeoAuditSeverity = 'error' | 'warning';
+export type SeoAuditCode =
+  | 'seo_title_missing'
+  | 'seo_title_too_long'
+  | 'seo_description_missing'
+  | 'seo_description_too_long'
+  | 'duplicate_title'
+  | 'hero_missing'
+  | 'cta_invalid_url'
+  | 'cta_unreachable'
+  | 'content_empty';
+
+export interface SeoAuditIssue {
+  entity_type: SeoAuditEntityType;
+  slug: string;
+  title: string | null;
+  code: SeoAuditCode;
+  severity: SeoAuditSeverity;
+  field: string;
+  message: string;
+}
+
+export interface SeoAuditReport {
+  generated_at: string;
+  checked_links: boolean;
+  scanned: Record<SeoAuditEntityType, number>;
+  summary: Partial<Record<SeoAuditCode, number>>;
+  issues: SeoAuditIssue[];
+}
+
+interface AuditRow {
+  entityType: SeoAuditEntityType;
+  slug: string;
+  title: string | null;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  heroImageUrl: string | null;
+  ctas: { field: string; url: string | null }[];
+  contentField: string;
+  contentLength: number;
+}
+
+export const SEO_TITLE_MAX_LENGTH = 60;
+export const SEO_DESCRIPTION_MAX_LENGTH = 160;
+
+const CSV_COLUMNS = ['entity_type', 'slug', 'title', 'severity', 'code', 'field', 'message'] as const;
+const AUDIT_PAGE_SIZE = 500;
+const LINK_CHECK_LIMIT = 200;
+const LINK_CHECK_CONCURRENCY = 5;
+const LINK_CHECK_TIMEOUT_MS = 5_000;
+
+export async function runSeoAudit(options: { checkLinks?: boolean } = {}): Promise<SeoAuditReport> {
+  const rows = [...(await loadAuditRows('product')), ...(await loadAuditRows('post'))];
+  const issues: SeoAuditIssue[] = [];
+  const push = (row: AuditRow, code: SeoAuditCode, severity: SeoAuditSeverity, field: string, message: string) => {
+    issues.push({ entity_type: row.entityType, slug: row.slug, title: row.title, code, severity, field, message });
+  };
+
+  for (const row of rows) {
+    if (!row.seoTitle) {
+      push(row, 'seo_title_missing', 'error', 'seo_title', 'Missing seo_title.');
+    } else if (row.seoTitle.length > SEO_TITLE_MAX_LENGTH) {
+      push(
+        row,
+        'seo_title_too_long',
+        'warning',
+        'seo_title',
+        `seo_title has ${row.seoTitle.length} characters; keep it under ${SEO_TITLE_MAX_LENGTH}.`
+      );
+    }
+
+    if (!row.seoDescription) {
+      push(row, 'seo_description_missing', 'error', 'seo_description', 'Missing seo_description.');
+    } else if (row.seoDescription.length > SEO_DESCRIPTION_MAX_LENGTH) {
+      push(
+        row,
+        'seo_description_too_long',
+        'warning',
+        'seo_description',
+        `seo_description has ${row.seoDescription.length} characters; keep it under ${SEO_DESCRIPTION_MAX_LENGTH}.`
+      );
+    }
+
+    if (!row.heroImageUrl) {
+      push(row, 'hero_missing', 'warning', 'hero_image_url', 'Missing hero image.');
+    }
+
+    if (row.contentLength === 0) {
+      push(row, 'content_empty', 'error', row.contentField, `${row.contentField} is empty.`);
+    }
+
+    for (const cta of row.ctas) {
+      if (cta.url && !isValidHttpUrl(cta.url)) {
+        push(row, 'cta_invalid_url', 'error', cta.field, `${cta.field} is not a valid http(s) URL.`);
+      }
+    }
+  }
+
+  for (const group of findDuplicateTitles(rows)) {
+    for (const row of group) {
+      const others = group.filter((other) => other !== row).map((other) => other.slug);
+      push(row, 'duplicate_title', 'error', 'seo_title', `Title is also used by ${others.join(', ')}.`);
+    }
+  }
+
+  if (options.checkLinks) {
+    for (const result of await checkCtaLinks(rows)) {
+      push(result.row, 'cta_unreachable', 'error', result.field, result.message);
+    }
+  }
+
+  const summary: SeoAuditReport['summary'] = {};
+  for (const issue of issues) {
+    summary[issue.code] = (summary[issue.code] ?? 0) + 1;
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    checked_links: Boolean(options.checkLinks),
+    scanned: {
+      product: rows.filter((row) => row.entityType === 'product').length,
+      post: rows.filter((row) => row.entityType === 'post').length,
+    },
+    summary,
+    issues: issues.sort(
+      (a, b) =>
+        a.entity_type.localeCompare(b.entity_type) || a.slug.localeCompare(b.slug) || a.code.localeCompare(b.code)
+    ),
+  };
+}
+
+export function formatSeoAuditCsv(report: SeoAuditReport): string {
+  return [
+    formatCsvRow([...CSV_COLUMNS]),
+    ...report.issues.map((issue) => formatCsvRow(CSV_COLUMNS.map((column) => issue[column]))),
+  ].join('');
+}
+
+async function loadAuditRows(entityType: SeoAuditEntityType): Promise<AuditRow[]> {
+  const pool = getTiDbPool();
+  const isProduct = entityType === 'product';
+  const table = isProduct ? getProductsTable() : getPostsTable();
+  const titleColumn = isProduct ? 'title_h1' : 'COALESCE(title_h1, title)';
+  const contentColumn = isProduct ? 'desc_html' : 'content_html';
+  const conditions = isProduct ? ['deleted_at IS NULL'] : [];
+  if (isProduct) {
+    await ensureProductColumns();
+  }
+
+  const fetchPage = async (afterSlug: string | null) => {
+    const pageConditions = afterSlug === null ? conditions : [...conditions, 'slug > ?'];
+    const whereClause = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT slug, ${titleColumn} AS title, seo_title, seo_description, hero_image_url,
+          primary_cta_url, secondary_cta_url, CHAR_LENGTH(TRIM(COALESCE(${contentColumn}, ''))) AS content_length
+        FROM ${table} ${whereClause} ORDER BY slug LIMIT ?`,
+      afterSlug === null ? [AUDIT_PAGE_SIZE] : [afterSlug, AUDIT_PAGE_SIZE]
+    );
+    return rows;
+  };
+
+  const rows: AuditRow[] = [];
+  let page = await fetchPage(null);
+  for (;;) {
+    for (const row of page) {
+      rows.push({
+        entityType,
+        slug: String(row.slug),
+        title: readText(row.title),
+        seoTitle: readText(row.seo_title),
+        seoDescription: readText(row.seo_description),
+        heroImageUrl: readText(row.hero_image_url),
+        ctas: [
+          { field: 'primary_cta_url', url: readText(row.primary_cta_url) },
+          { field: 'secondary_cta_url', url: readText(row.secondary_cta_url) },
+        ],
+        contentField: contentColumn,
+        contentLength: Number(row.content_length ?? 0),
+      });
+    }
+    if (page.length < AUDIT_PAGE_SIZE) {
+      return rows;
+    }
+    page = await fetchPage(String(page[page.length - 1].slug));
+  }
+}
+
+function findDuplicateTitles(rows: AuditRow[]): AuditRow[][] {
+  const groups = new Map<string, AuditRow[]>();
+  for (const row of rows) {
+    const title = row.seoTitle ?? row.title;
+    if (!title) {
+      continue;
+    }
+    const key = `${row.entityType}:${title.trim().toLowerCase()}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+async function checkCtaLinks(rows: AuditRow[]) {
+  const targets = new Map<string, { row: AuditRow; field: string }[]>();
+  for (const row of rows) {
+    for (const cta of row.ctas) {
+      if (!cta.url || !isValidHttpUrl(cta.url)) {
+        continue;
+      }
+      const existing = targets.get(cta.url);
+      if (existing) {
+        existing.push({ row, field: cta.field });
+      } else if (targets.size < LINK_CHECK_LIMIT) {
+        targets.set(cta.url, [{ row, field: cta.field }]);
+      }
+    }
+  }
+
+  const urls = Array.from(targets.keys());
+  const failures: { row: AuditRow; field: string; message: string }[] = [];
+  let cursor = 0;
+
+  const worker = async () => {
+    while (cursor < urls.length) {
+      const url = urls[cursor];
+      cursor += 1;
+      const failure = await probeUrl(url);
+      if (failure) {
+        for (const usage of targets.get(url) ?? []) {
+          failures.push({ ...usage, message: `${url} ${failure}` });
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(LINK_CHECK_CONCURRENCY, urls.length) }, worker));
+  return failures;
+}
+
+async function probeUrl(url: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), LINK_CHECK_TIMEOUT_MS);
+  try {
+    let response = await fetch(url, { method: 'HEAD', redirect: 'follow', signal: controller.signal });
+    if (response.status === 405 || response.status === 501) {
+      response = await fetch(url, { method: 'GET', redirect: 'follow', signal: controller.signal });
+    }
+    return response.status >= 400 ? `responded ${response.status}.` : null;
+  } catch (error) {
+    return (error as Error)?.name === 'AbortError' ? 'timed out.' : `failed: ${(error as Error)?.message}.`;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function isValidHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+  } catch (_error) {
+    return false;
+  }
+}
+
+function readText(value: unknown): string | null {
+  if (value == null) {
+    return null;
+  }
+  const text = Buffer.isBuffer(value) ? value.toString('utf8') : String(value);
+  const trimmed = text.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
@@ -0,0 +1,97 @@
+import 'server-only';
+
+import type { RowDataPacket } from 'mysql2/promise';
+
+import { getPublishedPostsCondition, getPublishedProductsCondition } from './catalog';
+import { getTiDbPool } from './mysql';
+import { ensureProductColumns } from './products';
+import { getCategoriesTable, getPostsTable, getProductsTable } from './schema';
+
+export type SitemapSection = 'products' | 'posts' | 'categories';
+
+export interface SitemapEntry {
+  path: string;
+  lastmod: string | null;
+}
+
+export type SitemapCounts = Record<SitemapSection, number>;
+
+export const SITEMAP_MAX_URLS = 50_000;
+export const SITEMAP_SECTIONS: SitemapSection[] = ['categories', 'posts', 'products'];
+
+export async function countSitemapEntries(): Promise<SitemapCounts> {
+  await ensureProductColumns();
+  const pool = getTiDbPool();
+  const [[productRows], [postRows], categories] = await Promise.all([
+    pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS total FROM ${getProductsTable()} WHERE ${getPublishedProductsCondition()}`
+    ),
+    pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS total FROM ${getPostsTable()} WHERE ${getPublishedPostsCondition()}`
+    ),
+    listCategoryEntries(),
+  ]);
+  return {
+    products: Number(productRows[0]?.total ?? 0),
+    posts: Number(postRows[0]?.total ?? 0),
+    categories: categories.length,
+  };
+}
+
+export async function listSitemapEntries(
+  section: SitemapSection,
+  offset = 0,
+  limit = SITEMAP_MAX_URLS
+): Promise<SitemapEntry[]> {
+  await ensureProductColumns();
+  if (section === 'categories') {
+    const entries = await listCategoryEntries();
+    return entries.slice(offset, offset + limit);
+  }
+
+  const pool = getTiDbPool();
+  const table = section === 'products' ? getProductsTable() : getPostsTable();
+  const condition = section === 'products' ? getPublishedProductsCondition() : getPublishedPostsCondition();
+  const prefix = section === 'products' ? '/p/' : '/b/';
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT slug, last_tidb_update_at FROM ${table} WHERE ${condition} ORDER BY slug LIMIT ? OFFSET ?`,
+    [limit, offset]
+  );
+  return rows.map((row) => ({
+    path: `${prefix}${encodeURIComponent(String(row.slug))}`,
+    lastmod: toLastmod(row.last_tidb_update_at),
+  }));
+}
+
+async function listCategoryEntries(): Promise<SitemapEntry[]> {
+  const pool = getTiDbPool();
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT c.slug,
+        (SELECT MAX(p.last_tidb_update_at) FROM ${getProductsTable()} p
+          WHERE p.category_slug = c.slug AND ${getPublishedProductsCondition()}) AS product_lastmod,
+        (SELECT MAX(b.last_tidb_update_at) FROM ${getPostsTable()} b
+          WHERE b.category_slug = c.slug AND ${getPublishedPostsCondition()}) AS post_lastmod
+      FROM ${getCategoriesTable()} c
+      ORDER BY c.slug`
+  );
+
+  const entries: SitemapEntry[] = [];
+  for (const row of rows) {
+    const slug = encodeURIComponent(String(row.slug));
+    if (row.product_lastmod != null) {
+      entries.push({ path: `/c/${slug}`, lastmod: toLastmod(row.product_lastmod) });
+    }
+    if (row.post_lastmod != null) {
+      entries.push({ path: `/bc/${slug}`, lastmod: toLastmod(row.post_lastmod) });
+    }
+  }
+  return entries;
+}
+
+function toLastmod(value: unknown): string | null {
+  if (value == null) {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,72 @@
+import 'server-only';
+
+export type FieldErrors = Record<string, string>;
+
+export class FieldValidationError extends Error {
+  constructor(public readonly fieldErrors: FieldErrors) {
+    super(Object.values(fieldErrors)[0] ?? 'Invalid payload');
+    this.name = 'FieldValidationError';
+  }
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const SLUG_MAX_LENGTH = 191;
+
+export function normalizeNewSlug(value: unknown, field = 'slug'): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new FieldValidationError({ [field]: `Field ${field} is required.` });
+  }
+  const normalized = value.trim();
+  if (normalized.length > SLUG_MAX_LENGTH) {
+    throw new FieldValidationError({
+      [field]: `Field ${field} exceeds maximum length of ${SLUG_MAX_LENGTH} characters.`,
+    });
+  }
+  if (!SLUG_PATTERN.test(normalized)) {
+    throw new FieldValidationError({
+      [field]: `Field ${field} may only contain lowercase letters, digits and single hyphens.`,
+    });
+  }
+  return normalized;
+}
+
+export function slugify(value: string, maxLength = 180): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/g, '');
+}
+
+export class StaleWriteError extends Error {
+  constructor(public readonly current: Record<string, unknown>) {
+    super('The record was modified after expected_updated_at.');
+    this.name = 'StaleWriteError';
+  }
+}
+
+export function isStaleVersion(actual: unknown, expectedUpdatedAt: string): boolean {
+  const expected = new Date(expectedUpdatedAt);
+  if (Number.isNaN(expected.getTime())) {
+    throw new FieldValidationError({ expected_updated_at: 'Field expected_updated_at must be an ISO date string.' });
+  }
+  if (actual == null) {
+    return true;
+  }
+  const current = actual instanceof Date ? actual : new Date(String(actual));
+  return current.getTime() !== expected.getTime();
+}
+
+export function readExpectedUpdatedAt(payload: Record<string, unknown>): string | null {
+  const value = payload.expected_updated_at;
+  if (value == null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new FieldValidationError({ expected_updated_at: 'Field expected_updated_at must be an ISO date string.' });
+  }
+  return value;
+}
@@ -1,14 +1,43 @@
 import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
+import type { NextFetchEvent, NextRequest } from 'next/server';
 
 import {
   ADMIN_COOKIE_NAME,
   createAdminSessionCookie,
   issueAdminSessionToken,
+  timingSafeEqual,
   verifyAdminSessionToken,
 } from '@/lib/admin/auth';
+import { CACHE_TAG_HEADER, buildPathCacheTags } from '@/lib/cache-tags';
 
 const AUTH_REALM = 'Virtual Product Pages Admin';
+const ADMIN_ACTOR_HEADER = 'x-admin-actor';
+const CRON_PATHS = new Set(['/api/admin/publishing/run', '/api/admin/connectivity/cloudflare/queue/run']);
+const REDIRECT_EXCLUDED_PREFIXES = ['/api/', '/_next/'];
+const REDIRECT_CACHE_TTL_MS = 60_000;
+const REDIRECT_FAILURE_TTL_MS = 10_000;
+const REDIRECT_FETCH_TIMEOUT_MS = 1_500;
+const CATEGORY_TAG_SECTIONS: Record<string, 'products' | 'posts'> = { p: 'products', b: 'posts' };
+const CATEGORY_TAG_CACHE_TTL_MS = 60_000;
+const CATEGORY_TAG_FAILURE_TTL_MS = 10_000;
+const CATEGORY_TAG_FETCH_TIMEOUT_MS = 3_000;
+
+interface RedirectTarget {
+  target: string;
+  status: number;
+  expiresAt: number | null;
+}
+
+let redirectCache: { expiresAt: number; rules: Map<string, RedirectTarget> } | null = null;
+let pendingRedirectLoad: Promise<Map<string, RedirectTarget>> | null = null;
+
+interface CategoryAssignments {
+  products: Record<string, string>;
+  posts: Record<string, string>;
+}
+
+let categoryTagCache: { expiresAt: number; assignments: CategoryAssignments | null } | null = null;
+let pendingCategoryTagLoad: Promise<void> | null = null;
 
 function needsAdminAuth(pathname: string): boolean {
   if (pathname === '/admin') {
@@ -26,8 +55,126 @@ function needsAdminAuth(pathname: string): boolean {
   return false;
 }
 
-function readAdminPassword(): string | null {
-  const raw = process.env.ADMIN_PASSWORD;
+function isRedirectCandidate(pathname: string): boolean {
+  return !REDIRECT_EXCLUDED_PREFIXES.some((prefix) => pathname.startsWith(prefix));
+}
+
+async function fetchRedirectRules(origin: string): Promise<Map<string, RedirectTarget>> {
+  const rules = new Map<string, RedirectTarget>();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REDIRECT_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${origin}/api/redirects`, {
+      headers: { Accept: 'application/json' },
+      signal: controller.signal,
+    });
+    const data = (await response.json()) as {
+      ok?: boolean;
+      redirects?: { source_path: string; target_path: string; status_code: number; expires_at?: string | null }[];
+    };
+    if (!response.ok || !data.ok) {
+      throw new Error(`Redirect list responded ${response.status}`);
+    }
+    for (const redirect of data.redirects ?? []) {
+      rules.set(redirect.source_path, {
+        target: redirect.target_path,
+        status: redirect.status_code,
+        expiresAt: redirect.expires_at ? Date.parse(redirect.expires_at) : null,
+      });
+    }
+    redirectCache = { expiresAt: Date.now() + REDIRECT_CACHE_TTL_MS, rules };
+  } catch (error) {
+    console.warn('middleware_redirects_load_failed', { error: (error as Error)?.message });
+    redirectCache = { expiresAt: Date.now() + REDIRECT_FAILURE_TTL_MS, rules: redirectCache?.rules ?? rules };
+  } finally {
+    clearTimeout(timeout);
+  }
+  return redirectCache.rules;
+}
+
+async function loadRedirectRules(origin: string, event: NextFetchEvent): Promise<Map<string, RedirectTarget>> {
+  if (redirectCache && redirectCache.expiresAt > Date.now()) {
+    return redirectCache.rules;
+  }
+  if (!pendingRedirectLoad) {
+    pendingRedirectLoad = fetchRedirectRules(origin).finally(() => {
+      pendingRedirectLoad = null;
+    });
+    event.waitUntil(pendingRedirectLoad);
+  }
+  return redirectCache ? redirectCache.rules : pendingRedirectLoad;
+}
+
+async function resolveRedirect(request: NextRequest, event: NextFetchEvent): Promise<NextResponse | null> {
+  const pathname = request.nextUrl.pathname.length > 1 ? request.nextUrl.pathname.replace(/\/+$/, '') : '/';
+  const rules = await loadRedirectRules(request.nextUrl.origin, event);
+  const rule = rules.get(pathname);
+  if (!rule || (rule.expiresAt !== null && rule.expiresAt <= Date.now())) {
+    return null;
+  }
+  const destination = new URL(rule.target, request.nextUrl.origin);
+  if (!destination.search && request.nextUrl.search) {
+    destination.search = request.nextUrl.search;
+  }
+  return NextResponse.redirect(destination, rule.status);
+}
+
+async function fetchCategoryAssignments(origin: string): Promise<void> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CATEGORY_TAG_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${origin}/api/cache-tags`, {
+      headers: { Accept: 'application/json' },
+      signal: controller.signal,
+    });
+    const data = (await response.json()) as { ok?: boolean } & Partial<CategoryAssignments>;
+    if (!response.ok || !data.ok) {
+      throw new Error(`Category tag map responded ${response.status}`);
+    }
+    categoryTagCache = {
+      expiresAt: Date.now() + CATEGORY_TAG_CACHE_TTL_MS,
+      assignments: { products: data.products ?? {}, posts: data.posts ?? {} },
+    };
+  } catch (error) {
+    console.warn('middleware_cache_tags_load_failed', { error: (error as Error)?.message });
+    categoryTagCache = {
+      expiresAt: Date.now() + CATEGORY_TAG_FAILURE_TTL_MS,
+      assignments: categoryTagCache?.assignments ?? null,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function resolveCacheTags(request: NextRequest, event: NextFetchEvent): string[] {
+  const { pathname, origin } = request.nextUrl;
+  const [section, segment] = pathname.split('/').filter((part) => part.length > 0);
+  const assignmentSection = CATEGORY_TAG_SECTIONS[section];
+  if (!assignmentSection || !segment) {
+    return buildPathCacheTags(pathname);
+  }
+
+  if ((!categoryTagCache || categoryTagCache.expiresAt <= Date.now()) && !pendingCategoryTagLoad) {
+    pendingCategoryTagLoad = fetchCategoryAssignments(origin).finally(() => {
+      pendingCategoryTagLoad = null;
+    });
+    event.waitUntil(pendingCategoryTagLoad);
+  }
+
+  const assignments = categoryTagCache?.assignments?.[assignmentSection];
+  return buildPathCacheTags(pathname, assignments?.[decodePathSegment(segment)] ?? null);
+}
+
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch (_error) {
+    return segment;
+  }
+}
+
+function readSecretEnv(name: string): string | null {
+  const raw = process.env[name];
   if (typeof raw !== 'string') {
     return null;
   }
@@ -35,6 +182,10 @@ function readAdminPassword(): string | null {
   return trimmed.length > 0 ? trimmed : null;
 }
 
+function readAdminPassword(): string | null {
+  return readSecretEnv('ADMIN_PASSWORD');
+}
+
 function unauthorizedResponse(message: string, status = 401) {
   return new NextResponse(message, {
     status,
@@ -83,10 +234,27 @@ function parseBasicCredentials(header: string): { user: string; password: string
   return { user, password };
 }
 
-export async function middleware(request: NextRequest) {
+function nextWithActor(request: NextRequest, actor: string) {
+  const headers = new Headers(request.headers);
+  headers.set(ADMIN_ACTOR_HEADER, actor);
+  return NextResponse.next({ request: { headers } });
+}
+
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const { pathname } = request.nextUrl;
   if (!needsAdminAuth(pathname)) {
-    return NextResponse.next();
+    if (isRedirectCandidate(pathname)) {
+      const redirect = await resolveRedirect(request, event);
+      if (redirect) {
+        return redirect;
+      }
+    }
+    const response = NextResponse.next();
+    const tags = resolveCacheTags(request, event);
+    if (tags.length > 0) {
+      response.headers.set(CACHE_TAG_HEADER, tags.join(','));
+    }
+    return response;
   }
 
   const password = readAdminPassword();
@@ -96,13 +264,18 @@ export async function middleware(request: NextRequest) {
 
   const cookieToken = request.cookies.get(ADMIN_COOKIE_NAME)?.value;
   if (cookieToken && (await verifyAdminSessionToken(cookieToken, password))) {
-    return NextResponse.next();
+    return nextWithActor(request, 'admin');
   }
 
   const authHeader = request.headers.get('authorization');
   const bearerToken = getBearerToken(authHeader);
   if (bearerToken && (await verifyAdminSessionToken(bearerToken, password))) {
-    return NextResponse.next();
+    return nextWithActor(request, 'admin');
+  }
+
+  const cronSecret = readSecretEnv('CRON_SECRET');
+  if (bearerToken && cronSecret && CRON_PATHS.has(pathname) && timingSafeEqual(cronSecret, bearerToken)) {
+    return nextWithActor(request, 'cron');
   }
 
   if (authHeader?.startsWith('Basic ')) {
@@ -114,7 +287,7 @@ export async function middleware(request: NextRequest) {
       return unauthorizedResponse('Invalid credentials');
     }
 
-    const response = NextResponse.next();
+    const response = nextWithActor(request, credentials.user);
     const token = await issueAdminSessionToken(password);
     const cookie = createAdminSessionCookie(token);
     response.cookies.set(cookie);
@@ -128,5 +301,10 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/admin/:path*', '/api/admin/:path*', '/api/blog/posts/:path*'],
+  matcher: [
+    '/admin/:path*',
+    '/api/admin/:path*',
+    '/api/blog/posts/:path*',
+    '/((?!api/|_next/|admin(?:/|$)|favicon\\.ico).*)',
+  ],
 };